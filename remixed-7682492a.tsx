@@ -1,25 +1,63 @@
 import React, { useState, useRef } from 'react';
 import { ChordVoicing } from './src/utils/cagedSystem';
-import { getValidatedCAGEDVoicings, getCommonVoicing } from './src/utils/cagedSystemEnhanced';
+import { getValidatedCAGEDVoicings, getCommonVoicing, getVoicingsByShape } from './src/utils/cagedSystemEnhanced';
 import { ChordModal } from './src/components/ChordModal';
 import { AlphaTabPlayer } from './src/components/AlphaTabPlayer';
+import { ChordBuilder } from './src/components/ChordBuilder';
+import { CustomChordVoicing } from './src/utils/chordIdentification';
+import { JazzVoicing, getJazzVoicings, isSeventhChord } from './src/utils/jazzVoicings';
 import { getExtendedChordShape } from './src/data/extendedChords';
+import { getIntervalLabel, getScaleDegreeNumber, getChordToneFunctions, ChordToneFunction, normalizeNote, parseSlashQuality, getInversionQuality } from './src/utils/musicTheory';
+import { getTuning, getAvailableTunings, registerCustomTuning, isStandardTuning, retuneFrets } from './src/utils/tunings';
+import { MAX_CAPO, getShapeNote, getShapeQuality, getCapoChordLabel, suggestCapoPosition } from './src/utils/capo';
+import { ExtendedScaleType, EXTENDED_SCALES, EXTENDED_SCALE_TYPES, isExtendedScaleType, getScaleIntervals, getScaleDiatonicChords, getSeventhRomanNumeral } from './src/utils/scales';
+import { CAGEDShapeName, CAGED_ORDER, CAGED_BOX_INTERVALS, getCAGEDPosition, getCAGEDPositionNotes, isInCAGEDWindow } from './src/utils/cagedPositions';
+import { generate3NPSPattern } from './src/utils/threeNotesPerString';
+import { getScaleFingering, FingeredNote } from './src/utils/scaleFingering';
+import { generateArpeggioShape, toArpeggioQuality } from './src/utils/arpeggios';
+import { TriadQuality, TRIAD_QUALITIES, TRIAD_STRING_SETS, generateTriads } from './src/utils/triads';
+import { TriadExplorer } from './src/components/TriadExplorer';
+import { SongSheet } from './src/components/SongSheet';
+import { generateArpeggioAlphaTeX } from './src/utils/alphaTabChordGenerator';
+import { voiceProgression } from './src/utils/voiceLeading';
+import { NeckWindow, NECK_WINDOWS, voiceProgressionInPosition } from './src/utils/positionVoicing';
+import { RhythmSettings, DEFAULT_RHYTHM, STRUM_PATTERNS, TIME_SIGNATURES, getStrumPattern } from './src/utils/strumming';
+import { PICKING_PATTERNS, getPickingPattern } from './src/utils/fingerpicking';
+import { ModeName, MODE_NAMES, MODE_LABELS, MODE_PATTERNS, MODE_CHARACTERISTICS, getParentMajorScale, getCharacteristicNote } from './src/utils/modes';
 
 const GuitarScaleApp = () => {
   const [selectedKey, setSelectedKey] = useState('C');
   const [isMinor, setIsMinor] = useState(false);
-  const [scaleType, setScaleType] = useState<'pentatonic' | 'blues' | 'modal'>('pentatonic');
-  const [modalType, setModalType] = useState<'ionian' | 'aeolian'>('ionian');
-  const [chordExtension, setChordExtension] = useState<'basic' | 'maj7' | 'min7' | '7' | 'sus2' | 'sus4'>('basic');
+  const [scaleType, setScaleType] = useState<'pentatonic' | 'blues' | 'modal' | ExtendedScaleType>('pentatonic');
+  const [modalType, setModalType] = useState<ModeName>('ionian');
+  const [chordExtension, setChordExtension] = useState<'basic' | 'maj7' | 'min7' | '7' | 'sus2' | 'sus4' | 'diatonic7'>('basic');
+  const [tuningId, setTuningId] = useState('standard');
+  const [capo, setCapo] = useState(0);
+  const [cagedShape, setCagedShape] = useState<CAGEDShapeName | null>(null);
+  const [cagedBox, setCagedBox] = useState<'pentatonic' | 'diatonic'>('pentatonic');
+  const [threeNPSPattern, setThreeNPSPattern] = useState<number | null>(null);
+  const [showFingers, setShowFingers] = useState(false);
+  const [fingeringPosition, setFingeringPosition] = useState(5);
+  const [noteLabelMode, setNoteLabelMode] = useState<'names' | 'intervals' | 'degrees'>('names');
+  const [arpeggioChord, setArpeggioChord] = useState<{note: string, quality: string} | null>(null);
+  const [arpeggioShape, setArpeggioShape] = useState<CAGEDShapeName | null>(null);
+  const [triadQuality, setTriadQuality] = useState<TriadQuality | null>(null);
+  const [triadStringSet, setTriadStringSet] = useState<string | null>(null);
+  const [selectedTriadFrets, setSelectedTriadFrets] = useState<number[] | null>(null);
 
   // CAGED Modal state
   const [selectedChordForModal, setSelectedChordForModal] = useState<{note: string, quality: string} | null>(null);
   const [isChordModalOpen, setIsChordModalOpen] = useState(false);
   const [chordVoicings, setChordVoicings] = useState<ChordVoicing[]>([]);
+  const [jazzVoicings, setJazzVoicings] = useState<JazzVoicing[]>([]);
+
+  // Voicings saved in the chord builder
+  const [savedVoicings, setSavedVoicings] = useState<CustomChordVoicing[]>([]);
 
   // AlphaTab Player state
   const [isAlphaTabOpen, setIsAlphaTabOpen] = useState(false);
   const [selectedProgression, setSelectedProgression] = useState<Array<{note: string, quality: string}>>([]);
+  const [selectedRhythm, setSelectedRhythm] = useState<RhythmSettings>(DEFAULT_RHYTHM);
 
   // Circle of Fifths data
   const majorKeys = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'F', 'Bb', 'Eb', 'Ab'];
@@ -28,8 +66,21 @@ const GuitarScaleApp = () => {
   // Note names
   const noteNames = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
   
-  // Guitar tuning (standard tuning) - low E to high E from bottom to top
-  const tuning = ['E', 'B', 'G', 'D', 'A', 'E'];
+  // Guitar tuning (low to high) from the tuning registry
+  const tuningNotes = getTuning(tuningId).notes;
+  const isStandard = isStandardTuning(tuningNotes);
+
+  // Fretboard rows: high string on top, low string at the bottom
+  const tuning = [...tuningNotes].reverse();
+
+  // Enharmonic equivalents (flat to sharp conversions)
+  const flatToSharp: { [key: string]: string } = {
+    'Db': 'C#',
+    'Eb': 'D#',
+    'Gb': 'F#',
+    'Ab': 'G#',
+    'Bb': 'A#'
+  };
   
   // Scale patterns (intervals from root)
   const scalePatterns = {
@@ -41,10 +92,7 @@ const GuitarScaleApp = () => {
       major: [0, 2, 3, 4, 7, 9],
       minor: [0, 3, 5, 6, 7, 10]
     },
-    modal: {
-      ionian: [0, 2, 4, 5, 7, 9, 11],     // Major scale (W-W-H-W-W-W-H)
-      aeolian: [0, 2, 3, 5, 7, 8, 10]     // Natural minor scale (W-H-W-W-H-W-W)
-    }
+    modal: MODE_PATTERNS
   };
 
   // Get root note from selected key
@@ -57,7 +105,7 @@ const GuitarScaleApp = () => {
 
   // Get note index
   const getNoteIndex = (note) => {
-    return noteNames.indexOf(note);
+    return noteNames.indexOf(flatToSharp[note] || note);
   };
 
   // Get note at fret
@@ -67,7 +115,7 @@ const GuitarScaleApp = () => {
   };
 
   // Check if note is in scale
-  const isNoteInScale = (note, rootNote, scaleType, isMinor, modalScaleType?: 'ionian' | 'aeolian') => {
+  const isNoteInScale = (note, rootNote, scaleType, isMinor, modalScaleType?: ModeName) => {
     const rootIndex = getNoteIndex(rootNote);
     const noteIndex = getNoteIndex(note);
     const interval = (noteIndex - rootIndex + 12) % 12;
@@ -77,10 +125,58 @@ const GuitarScaleApp = () => {
       return pattern.includes(interval);
     }
 
+    if (isExtendedScaleType(scaleType)) {
+      return getScaleIntervals(scaleType).includes(interval);
+    }
+
     const pattern = scalePatterns[scaleType as 'pentatonic' | 'blues'][isMinor ? 'minor' : 'major'];
     return pattern.includes(interval);
   };
 
+  // Get intervals of the selected scale if it has seven notes (3NPS patterns need seven)
+  const getSevenNoteScaleIntervals = (scaleType: string, modalScaleType?: ModeName): number[] | null => {
+    if (scaleType === 'modal' && modalScaleType) {
+      return scalePatterns.modal[modalScaleType];
+    }
+    if (isExtendedScaleType(scaleType)) {
+      return getScaleIntervals(scaleType);
+    }
+    return null;
+  };
+
+  // Get intervals of the selected scale (any scale type)
+  const getScaleIntervalsFor = (scaleType: string, isMinor: boolean, modalScaleType?: ModeName): number[] => {
+    return getSevenNoteScaleIntervals(scaleType, modalScaleType) ||
+      scalePatterns[scaleType as 'pentatonic' | 'blues'][isMinor ? 'minor' : 'major'];
+  };
+
+  // Colours of chord tones in the arpeggio overlay (by chord function)
+  const chordToneColors: Record<ChordToneFunction, string> = {
+    R: 'bg-red-500 border-2 border-red-700 shadow-lg',
+    '3': 'bg-amber-500 border-2 border-amber-700 shadow-lg',
+    '5': 'bg-sky-500 border-2 border-sky-700 shadow-lg',
+    '7': 'bg-fuchsia-500 border-2 border-fuchsia-700 shadow-lg',
+    extension: 'bg-teal-500 border-2 border-teal-700 shadow-lg'
+  };
+
+  // Label a fretboard note as note name, interval degree (1, b3, 5...) or scale degree number
+  const getNoteLabel = (note: string, rootNote: string, scaleIntervals: number[]): string => {
+    if (noteLabelMode === 'intervals') {
+      return getIntervalLabel(rootNote, note, scaleIntervals);
+    }
+    if (noteLabelMode === 'degrees') {
+      const degree = getScaleDegreeNumber(rootNote, note, scaleIntervals);
+      return degree === null ? getIntervalLabel(rootNote, note, scaleIntervals) : String(degree);
+    }
+    return note;
+  };
+
+  // Get fretboard positions of a 3NPS pattern as "string-fret" keys (string 0 = low E)
+  const get3NPSPositions = (rootNote: string, intervals: number[], patternNumber: number): Set<string> => {
+    const pattern = generate3NPSPattern(rootNote, intervals, patternNumber, tuningNotes);
+    return new Set(pattern.map(n => `${n.stringIndex}-${n.fret}`));
+  };
+
   // Check if note is a blue note (the added note in blues scales)
   const isBlueNote = (note, rootNote, isMinor) => {
     const rootIndex = getNoteIndex(rootNote);
@@ -95,6 +191,15 @@ const GuitarScaleApp = () => {
     }
   };
 
+  // Check if note is the characteristic note of a mode (e.g. #4 in Lydian)
+  const isCharacteristicNote = (note: string, rootNote: string, mode: ModeName) => {
+    const rootIndex = getNoteIndex(rootNote);
+    const noteIndex = getNoteIndex(note);
+    const interval = (noteIndex - rootIndex + 12) % 12;
+
+    return interval === MODE_CHARACTERISTICS[mode].interval;
+  };
+
   // Check if note is root
   const isRootNote = (note, rootNote) => {
     return note === rootNote;
@@ -104,16 +209,26 @@ const GuitarScaleApp = () => {
   const getDiatonicChords = (key, isMinor) => {
     const rootNote = getRootNote(key);
     const rootIndex = getNoteIndex(rootNote);
+
+    // Harmonic/melodic minor family: chords come from the selected Tonal scale
+    if (isExtendedScaleType(scaleType)) {
+      return getScaleDiatonicChords(rootNote, scaleType).map(chord => ({
+        ...chord,
+        note: noteNames[getNoteIndex(chord.note)]
+      }));
+    }
     
     if (isMinor) {
       // Natural minor scale intervals
       const minorIntervals = [0, 2, 3, 5, 7, 8, 10];
       const chordQualities = ['m', 'dim', '', 'm', 'm', '', ''];
+      const seventhQualities = ['m7', 'm7b5', 'maj7', 'm7', 'm7', 'maj7', '7'];
       const romanNumerals = ['i', 'ii°', 'III', 'iv', 'v', 'VI', 'VII'];
       
       return minorIntervals.map((interval, index) => ({
         note: noteNames[(rootIndex + interval) % 12],
         quality: chordQualities[index],
+        seventhQuality: seventhQualities[index],
         roman: romanNumerals[index],
         degree: index + 1
       }));
@@ -121,11 +236,13 @@ const GuitarScaleApp = () => {
       // Major scale intervals
       const majorIntervals = [0, 2, 4, 5, 7, 9, 11];
       const chordQualities = ['', 'm', 'm', '', '', 'm', 'dim'];
+      const seventhQualities = ['maj7', 'm7', 'm7', 'maj7', '7', 'm7', 'm7b5'];
       const romanNumerals = ['I', 'ii', 'iii', 'IV', 'V', 'vi', 'vii°'];
       
       return majorIntervals.map((interval, index) => ({
         note: noteNames[(rootIndex + interval) % 12],
         quality: chordQualities[index],
+        seventhQuality: seventhQualities[index],
         roman: romanNumerals[index],
         degree: index + 1
       }));
@@ -133,11 +250,21 @@ const GuitarScaleApp = () => {
   };
 
   // Apply chord extension to a chord object
-  const applyChordExtension = (chord: { note: string; quality: string; roman: string; degree: number }, extension: string) => {
+  const applyChordExtension = (chord: { note: string; quality: string; seventhQuality?: string; roman: string; degree: number }, extension: string) => {
     if (extension === 'basic') {
       return chord;
     }
 
+    // Diatonic 7th: the seventh chord built from the scale itself (e.g. mMaj7, maj7#5)
+    if (extension === 'diatonic7') {
+      if (!chord.seventhQuality) return chord;
+      return {
+        ...chord,
+        quality: chord.seventhQuality,
+        roman: getSeventhRomanNumeral(chord.roman, chord.seventhQuality)
+      };
+    }
+
     let newQuality = chord.quality;
     let newRoman = chord.roman;
 
@@ -196,7 +323,8 @@ const GuitarScaleApp = () => {
   // Array format: [E(low), A, D, G, B, E(high)] - from 6th string to 1st string
   const getChordShape = (chordName: string): { frets: number[], baseFret: number } => {
     // 1. Check for extended chords first (7th, sus, etc.) from extended chords data
-    const extendedShape = getExtendedChordShape(chordName);
+    //    These shapes are written for standard tuning only
+    const extendedShape = isStandard ? getExtendedChordShape(chordName) : null;
     if (extendedShape) {
       console.log(`✅ Using extended chord shape for ${chordName}`);
       return { frets: extendedShape, baseFret: 1 }; // Extended shapes are open chords
@@ -220,7 +348,7 @@ const GuitarScaleApp = () => {
 
     // 3. Try to get validated voicing from chords-db database
     try {
-      const voicing = getCommonVoicing(note, quality);
+      const voicing = getCommonVoicing(note, quality, tuningNotes);
       if (voicing && voicing.frets) {
         const baseFret = (voicing as any).baseFret || 1;
         console.log(`✅ Using validated voicing from chords-db for ${chordName} (${note} ${quality}):`, voicing.frets, 'baseFret:', baseFret);
@@ -247,17 +375,21 @@ const GuitarScaleApp = () => {
 
     if (basicShapes[chordName]) {
       console.warn(`⚠️ Using basic fallback shape for ${chordName}`);
-      return { frets: basicShapes[chordName], baseFret: 1 };
+      return { frets: retuneFrets(basicShapes[chordName], tuningNotes), baseFret: 1 };
     }
 
     console.error(`❌ No shape found for ${chordName} - using C major as last resort`);
-    return { frets: basicShapes['C'], baseFret: 1 };
+    return { frets: retuneFrets(basicShapes['C'], tuningNotes), baseFret: 1 };
   };
 
   // Guitar tablature component
   const GuitarTablature = ({ chord }) => {
     const chordName = `${chord.note}${chord.quality}`;
-    const { frets, baseFret } = getChordShape(chordName); // ✅ Destructure to get frets and baseFret
+
+    // With a capo, the diagram shows the shape to finger (frets relative to the capo)
+    const shapeNote = getShapeNote(chord.note, capo);
+    const shapeQuality = getShapeQuality(chord.quality, capo); // Slash chords: the bass moves with the root
+    const { frets, baseFret } = getChordShape(`${shapeNote}${shapeQuality}`); // ✅ Destructure to get frets and baseFret
     const stringNames = ['E', 'A', 'D', 'G', 'B', 'E']; // Low to high
 
     // Double-click detection (fixed timing issue)
@@ -269,20 +401,41 @@ const GuitarScaleApp = () => {
 
       if (timeSinceLastClick < 300 && timeSinceLastClick > 0) {
         // Double click detected - open CAGED modal with validated voicings
-        const voicings = getValidatedCAGEDVoicings(chord.note, chord.quality, {
+        const voicings = getValidatedCAGEDVoicings(shapeNote, shapeQuality, {
           maxVoicings: 5,
-          onlyValidated: true
+          onlyValidated: true,
+          tuning: tuningNotes
         });
 
+        // Inversions (3rd, 5th or 7th in the bass) for the modal's inversion filter
+        const inversionVoicings = parseSlashQuality(shapeQuality).bass
+          ? []
+          : [1, 2, 3].flatMap(inversion => getValidatedCAGEDVoicings(shapeNote, shapeQuality, {
+              maxVoicings: 3,
+              tuning: tuningNotes,
+              inversion
+            }));
+
         if (voicings.length === 0) {
-          console.error(`❌ No valid voicings found for ${chord.note}${chord.quality}`);
+          console.error(`❌ No valid voicings found for ${shapeNote}${shapeQuality}`);
           // Still open modal to show the error/empty state
         } else {
-          console.log(`✅ Found ${voicings.length} validated voicings for ${chord.note}${chord.quality}`);
+          console.log(`✅ Found ${voicings.length} validated voicings for ${shapeNote}${shapeQuality}`);
         }
 
-        setChordVoicings(voicings);
-        setSelectedChordForModal({ note: chord.note, quality: chord.quality });
+        // Saved custom voicings of the same chord are shown next to the CAGED voicings
+        const customVoicings = savedVoicings.filter(v =>
+          v.root !== '' &&
+          normalizeNote(v.root) === normalizeNote(shapeNote) &&
+          v.quality === shapeQuality &&
+          v.validated
+        );
+
+        setChordVoicings([...voicings, ...inversionVoicings, ...customVoicings]);
+        setJazzVoicings(isSeventhChord(shapeNote, shapeQuality)
+          ? getJazzVoicings(shapeNote, shapeQuality, { tuning: tuningNotes })
+          : []);
+        setSelectedChordForModal({ note: shapeNote, quality: shapeQuality });
         setIsChordModalOpen(true);
         lastClickTimeRef.current = 0; // Reset to prevent triple-click
       } else {
@@ -320,6 +473,11 @@ const GuitarScaleApp = () => {
         onClick={handleTap}
       >
         <div className="text-sm font-bold text-gray-800 mb-2">{chordName}</div>
+        {capo > 0 && (
+          <div className="text-xs text-amber-700 text-center mb-2 max-w-[8rem]">
+            {getCapoChordLabel(shapeNote, shapeQuality, capo)}
+          </div>
+        )}
 
         {/* Chord diagram */}
         <svg width="60" height={svgHeight} viewBox={`0 0 60 ${svgHeight}`} className="mb-2">
@@ -331,10 +489,15 @@ const GuitarScaleApp = () => {
           )}
 
           {/* Nut indicator (thick line at top if position 0) */}
-          {startFret === 0 && (
+          {startFret === 0 && capo === 0 && (
             <line x1="10" y1="15" x2="50" y2="15" stroke="#333" strokeWidth="3"/>
           )}
 
+          {/* Capo indicator (replaces the nut) */}
+          {startFret === 0 && capo > 0 && (
+            <rect x="7" y="12" width="46" height="5" rx="2" fill="#b45309"/>
+          )}
+
           {/* Frets (horizontal lines) */}
           {Array.from({ length: fretSpan }, (_, i) => i).map(fret => (
             <line key={fret} x1="10" y1={15 + fret * 12} x2="50" y2={15 + fret * 12}
@@ -445,7 +608,8 @@ const GuitarScaleApp = () => {
   };
 
   // Popular chord progressions by genre
-  const chordProgressions = {
+  // inversions (optional): bass chord tone per chord, 0 = root, 1 = 3rd, 2 = 5th, 3 = 7th (walking bass lines)
+  const chordProgressions: Record<string, Array<{ name: string; progression: number[]; inversions?: number[]; description: string }>> = {
     Rock: [
       { name: "I-V-vi-IV", progression: [1, 5, 6, 4], description: "The most popular rock progression" },
       { name: "vi-IV-I-V", progression: [6, 4, 1, 5], description: "Emotional pop-rock ballad progression" },
@@ -458,11 +622,17 @@ const GuitarScaleApp = () => {
       { name: "I-V-vi-IV", progression: [1, 5, 6, 4], description: "Feel-good pop progression" },
       { name: "I-vi-IV-V", progression: [1, 6, 4, 5], description: "50s pop progression" },
       { name: "vi-V-IV-V", progression: [6, 5, 4, 5], description: "Building pop progression" },
-      { name: "I-IV-vi-V", progression: [1, 4, 6, 5], description: "Uplifting pop progression" }
+      { name: "I-IV-vi-V", progression: [1, 4, 6, 5], description: "Uplifting pop progression" },
+      { name: "I-V/3-vi-I/5-IV", progression: [1, 5, 6, 1, 4], inversions: [0, 1, 0, 2, 0], description: "Walking bass line down the scale" }
     ]
   };
 
   const [selectedGenre, setSelectedGenre] = useState('Rock');
+  const [voiceLeading, setVoiceLeading] = useState(false);
+  const [neckWindow, setNeckWindow] = useState<NeckWindow | null>(null);
+  // Strumming pattern, tempo and time signature of each progression (keyed by genre and name)
+  const [progressionRhythms, setProgressionRhythms] = useState<Record<string, RhythmSettings>>({});
+  const tempoOptions = [60, 70, 80, 90, 100, 110, 120, 140];
 
   // Get chord from degree
   const getChordFromDegree = (degree, key, isMinor) => {
@@ -481,6 +651,13 @@ const GuitarScaleApp = () => {
     return chords[0]; // fallback
   };
 
+  // Chord of a progression step, as a slash chord if the progression inverts it (walking bass lines)
+  const getProgressionChord = (progression: { progression: number[]; inversions?: number[] }, chordIndex: number) => {
+    const chord = getChordFromDegree(progression.progression[chordIndex], selectedKey, isMinor);
+    const inversion = progression.inversions?.[chordIndex] ?? 0;
+    return { ...chord, quality: getInversionQuality(chord.note, chord.quality, inversion) };
+  };
+
   // Chord Progressions component
   const ChordProgressions = () => {
     const progressions = chordProgressions[selectedGenre];
@@ -490,19 +667,44 @@ const GuitarScaleApp = () => {
       const [tapCount, setTapCount] = useState(0);
       const tapTimeoutRef = useRef<number | null>(null);
 
+      const chordSequence = progression.progression.map((_: number, chordIndex: number) => {
+        const chord = getProgressionChord(progression, chordIndex);
+        return { note: chord.note, quality: chord.quality };
+      });
+
+      // Easiest capo position for this progression in the selected key
+      const capoSuggestion = suggestCapoPosition(chordSequence);
+
+      // Voicings chosen together (shapes relative to the capo)
+      const shapeSequence = chordSequence.map((chord: { note: string; quality: string }) => ({
+        note: getShapeNote(chord.note, capo),
+        quality: getShapeQuality(chord.quality, capo)
+      }));
+      const voicedChords = voiceLeading && !neckWindow
+        ? voiceProgression(shapeSequence, { tuning: tuningNotes })
+        : [];
+
+      // Every chord inside the selected neck region, with its CAGED shape
+      const positionChords = neckWindow
+        ? voiceProgressionInPosition(shapeSequence, neckWindow, { tuning: tuningNotes })
+        : [];
+
+      const rhythmKey = `${selectedGenre}:${progression.name}`;
+      const rhythm = progressionRhythms[rhythmKey] ?? DEFAULT_RHYTHM;
+      const updateRhythm = (changes: Partial<RhythmSettings>) => {
+        setProgressionRhythms(prev => ({ ...prev, [rhythmKey]: { ...rhythm, ...changes } }));
+      };
+
       const handleProgressionTap = () => {
         setTapCount(prev => prev + 1);
 
         if (tapTimeoutRef.current) clearTimeout(tapTimeoutRef.current);
 
-        tapTimeoutRef.current = setTimeout(() => {
+        tapTimeoutRef.current = window.setTimeout(() => {
           if (tapCount === 1) {
             // Double tap detected - open AlphaTab player
-            const chordSequence = progression.progression.map(degree => {
-              const chord = getChordFromDegree(degree, selectedKey, isMinor);
-              return { note: chord.note, quality: chord.quality };
-            });
             setSelectedProgression(chordSequence);
+            setSelectedRhythm(rhythm);
             setIsAlphaTabOpen(true);
           }
           setTapCount(0);
@@ -519,12 +721,23 @@ const GuitarScaleApp = () => {
             <h4 className="text-lg font-bold text-gray-800">{progression.name}</h4>
             <p className="text-sm text-gray-600 mt-1">{progression.description}</p>
             <p className="text-xs text-purple-600 mt-2 font-medium">Double-tap to play with MIDI</p>
+            {capoSuggestion.capo > 0 && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setCapo(capoSuggestion.capo);
+                }}
+                className="text-xs text-amber-700 mt-1 underline hover:text-amber-900"
+              >
+                Easiest: capo {capoSuggestion.capo} ({capoSuggestion.shapeChords.map(c => `${c.note}${c.quality}`).join(' - ')} shapes)
+              </button>
+            )}
           </div>
 
           {/* Chord tabs for progression */}
           <div className="flex flex-wrap justify-center items-center gap-1 mb-3">
-            {progression.progression.map((degree, chordIndex) => {
-              const chord = getChordFromDegree(degree, selectedKey, isMinor);
+            {progression.progression.map((_: number, chordIndex: number) => {
+              const chord = getProgressionChord(progression, chordIndex);
               return (
                 <div key={chordIndex} className="flex items-center">
                   <div className="scale-75">
@@ -541,8 +754,8 @@ const GuitarScaleApp = () => {
           {/* Chord names in text */}
           <div className="text-center">
             <div className="text-sm font-medium text-gray-700">
-              {progression.progression.map((degree, chordIndex) => {
-                const chord = getChordFromDegree(degree, selectedKey, isMinor);
+              {progression.progression.map((_: number, chordIndex: number) => {
+                const chord = getProgressionChord(progression, chordIndex);
                 const chordName = `${chord.note}${chord.quality}`;
                 return (
                   <span key={chordIndex}>
@@ -552,6 +765,89 @@ const GuitarScaleApp = () => {
                 );
               })}
             </div>
+            {voicedChords.length > 0 && (
+              <div className="text-xs font-mono text-gray-600 mt-2" data-testid="voice-led-frets">
+                {voicedChords.map(chord => chord.frets
+                  ? chord.frets.map(fret => (fret === -1 ? 'x' : fret)).join('-')
+                  : '?'
+                ).join(' → ')}
+                <div className="font-sans text-gray-500 mt-1">
+                  {voicedChords.reduce((sum, chord) => sum + chord.commonTones, 0)} common tones,
+                  {' '}{voicedChords.reduce((sum, chord) => sum + chord.movement, 0)} frets of movement
+                </div>
+              </div>
+            )}
+            {positionChords.length > 0 && (
+              <div className="text-xs text-gray-600 mt-2 space-y-0.5" data-testid="position-frets">
+                {positionChords.map((chord, chordIndex) => (
+                  <div key={chordIndex} className={chord.inWindow ? '' : 'text-amber-700'}>
+                    <span className="font-medium">{chord.note}{chord.quality}</span>
+                    {': '}
+                    <span className="font-mono">
+                      {chord.frets ? chord.frets.map(fret => (fret === -1 ? 'x' : fret)).join('-') : '?'}
+                    </span>
+                    {chord.cagedShape && ` · ${chord.cagedShape} shape`}
+                    {!chord.inWindow && chord.frets && ' (nearest shape, outside the region)'}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Rhythm for playback */}
+          <div
+            className="mt-3 flex flex-wrap justify-center gap-2 text-xs"
+            onClick={e => e.stopPropagation()}
+            data-testid="progression-rhythm"
+          >
+            <select
+              value={rhythm.pickingPattern
+                ? `pick:${rhythm.pickingPattern.id}`
+                : rhythm.strumPattern ? `strum:${rhythm.strumPattern.id}` : ''}
+              onChange={e => {
+                const [kind, id] = e.target.value.split(':');
+                updateRhythm({
+                  strumPattern: kind === 'strum' ? getStrumPattern(id) : null,
+                  pickingPattern: kind === 'pick' ? getPickingPattern(id) : null
+                });
+              }}
+              className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+              aria-label="Strumming pattern"
+            >
+              <option value="">Block chords</option>
+              <optgroup label="Strummed">
+                {STRUM_PATTERNS.map(pattern => (
+                  <option key={pattern.id} value={`strum:${pattern.id}`}>{pattern.name}</option>
+                ))}
+              </optgroup>
+              <optgroup label="Picked">
+                {PICKING_PATTERNS.map(pattern => (
+                  <option key={pattern.id} value={`pick:${pattern.id}`}>{pattern.name}</option>
+                ))}
+              </optgroup>
+            </select>
+            <select
+              value={rhythm.tempo}
+              onChange={e => updateRhythm({ tempo: Number(e.target.value) })}
+              className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+              aria-label="Tempo"
+            >
+              {tempoOptions.map(tempo => (
+                <option key={tempo} value={tempo}>{tempo} BPM</option>
+              ))}
+            </select>
+            <select
+              value={`${rhythm.timeSignature.numerator}/${rhythm.timeSignature.denominator}`}
+              onChange={e => updateRhythm({ timeSignature: TIME_SIGNATURES.find(ts => `${ts.numerator}/${ts.denominator}` === e.target.value)! })}
+              className="border border-gray-300 rounded px-1 py-0.5 bg-white"
+              aria-label="Time signature"
+            >
+              {TIME_SIGNATURES.map(ts => (
+                <option key={`${ts.numerator}/${ts.denominator}`} value={`${ts.numerator}/${ts.denominator}`}>
+                  {ts.numerator}/{ts.denominator}
+                </option>
+              ))}
+            </select>
           </div>
         </div>
       );
@@ -587,6 +883,38 @@ const GuitarScaleApp = () => {
           </button>
         </div>
 
+        <label className="mb-4 flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={voiceLeading}
+            onChange={e => setVoiceLeading(e.target.checked)}
+          />
+          Smooth voice leading (voicings chosen for the least hand movement and most common tones)
+        </label>
+
+        {/* Neck region: voice every chord in one position */}
+        <div className="mb-6 flex flex-wrap justify-center items-center gap-2 text-sm">
+          <span className="font-semibold text-gray-700">Play around:</span>
+          {[null, ...NECK_WINDOWS].map(window => {
+            const isActive = window === null
+              ? neckWindow === null
+              : neckWindow?.minFret === window.minFret && neckWindow?.maxFret === window.maxFret;
+            return (
+              <button
+                key={window ? window.minFret : 'any'}
+                onClick={() => setNeckWindow(window)}
+                className={`px-2 py-1 rounded-lg font-medium transition-colors ${
+                  isActive
+                    ? 'bg-purple-500 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+              >
+                {window === null ? 'Anywhere' : `Frets ${window.minFret}–${window.maxFret}`}
+              </button>
+            );
+          })}
+        </div>
+
         {/* Progressions grid */}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 w-full max-w-6xl">
           {progressions.map((progression, index) => (
@@ -612,7 +940,7 @@ const GuitarScaleApp = () => {
     return (
       <div className="flex flex-col items-center">
         <h3 className="text-xl font-bold text-gray-800 mb-6">
-          Diatonic Chords in {selectedKey}
+          Diatonic Chords in {isExtendedScaleType(scaleType) ? `${getRootNote(selectedKey)} ${EXTENDED_SCALES[scaleType].label}` : selectedKey}
         </h3>
 
         {/* Chord extension selector */}
@@ -678,13 +1006,33 @@ const GuitarScaleApp = () => {
           >
             sus4
           </button>
+          <button
+            onClick={() => setChordExtension('diatonic7')}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              chordExtension === 'diatonic7'
+                ? 'bg-blue-500 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+            }`}
+          >
+            Diatonic 7th
+          </button>
         </div>
 
         {/* Roman numeral tabs */}
         <div className="flex flex-wrap justify-center items-center gap-2 p-4 bg-gray-50 rounded-lg mb-6">
-          {chords.map((chord, index) => (
-            <ChordTab key={index} chord={chord} isMinor={isMinor} />
-          ))}
+          {chords.map((chord, index) => {
+            const isArpeggio = arpeggioChord?.note === chord.note && arpeggioChord?.quality === chord.quality;
+            return (
+              <div
+                key={index}
+                onClick={() => setArpeggioChord(isArpeggio ? null : { note: chord.note, quality: chord.quality })}
+                className={`cursor-pointer rounded-lg ${isArpeggio ? 'ring-2 ring-fuchsia-500' : ''}`}
+                title="Show chord tones on the fretboard"
+              >
+                <ChordTab chord={chord} isMinor={isMinor} />
+              </div>
+            );
+          })}
         </div>
         
         {/* Guitar tablature for each chord */}
@@ -701,10 +1049,11 @@ const GuitarScaleApp = () => {
         
         <div className="mt-6 text-center max-w-2xl">
           <p className="text-sm text-gray-600 mb-2">
-            These are the seven diatonic chords built from the {isMinor ? 'natural minor' : 'major'} scale. 
+            These are the seven diatonic chords built from the {isExtendedScaleType(scaleType) ? EXTENDED_SCALES[scaleType].label.toLowerCase() : isMinor ? 'natural minor' : 'major'} scale. 
             The tonic chord ({chords[0].note}{chords[0].quality}) is highlighted above.
           </p>
           <div className="text-xs text-gray-500 space-y-1">
+            <p><strong>Arpeggios:</strong> Click a chord above to show its chord tones (R, 3, 5, 7) across the fretboard</p>
             <p><strong>Chord Diagrams:</strong> Dots show finger positions, X = muted string, O = open string</p>
             <p><strong>Tablature:</strong> Numbers show fret positions (x = muted, 0 = open)</p>
           </div>
@@ -800,9 +1149,162 @@ const GuitarScaleApp = () => {
     const fretMarkers = [3, 5, 7, 9, 12, 15, 17];
     const doubleFretMarkers = [12];
 
+    // Custom tuning input (uncontrolled, read on submit)
+    const customTuningRef = useRef<HTMLInputElement>(null);
+    const [tuningError, setTuningError] = useState<string | null>(null);
+
+    const handleAddCustomTuning = () => {
+      const value = customTuningRef.current?.value.trim() || '';
+      const notes = value.split(/[\s,]+/).filter(Boolean);
+
+      try {
+        const customTuning = registerCustomTuning(notes.join(' '), notes);
+        setTuningError(null);
+        setTuningId(customTuning.id);
+      } catch (error) {
+        setTuningError((error as Error).message);
+      }
+    };
+
+    // CAGED position overlay: shape window with chord tones and the surrounding scale box
+    const cagedQuality = isMinor ? 'minor' : 'major';
+    const shapeVoicings = getVoicingsByShape(rootNote, cagedQuality, tuningNotes);
+    const cagedPosition = cagedShape ? getCAGEDPosition(rootNote, cagedShape, cagedQuality, tuningNotes) : null;
+    const cagedBoxNotes = cagedPosition
+      ? getCAGEDPositionNotes(cagedPosition, rootNote, CAGED_BOX_INTERVALS[cagedBox][cagedQuality], tuningNotes)
+      : [];
+    const cagedBoxKeys = new Set(cagedBoxNotes.map(n => `${n.stringIndex}-${n.fret}`));
+
+    // 3NPS pattern overlay (only for seven-note scales)
+    const sevenNoteIntervals = getSevenNoteScaleIntervals(scaleType, modalType);
+    const threeNPSPositions = sevenNoteIntervals && threeNPSPattern
+      ? get3NPSPositions(rootNote, sevenNoteIntervals, threeNPSPattern)
+      : null;
+
+    // Arpeggio overlay: chord tones of the selected chord by note index
+    const arpeggioTones = new Map(
+      (arpeggioChord ? getChordToneFunctions(arpeggioChord.note, arpeggioChord.quality) : [])
+        .map(tone => [getNoteIndex(normalizeNote(tone.note)), tone] as const)
+    );
+
+    // Arpeggio shape in one CAGED position (whole neck when no shape is selected)
+    const arpeggioQuality = arpeggioChord ? toArpeggioQuality(arpeggioChord.quality) : null;
+    const arpeggioShapeNotes = arpeggioChord && arpeggioQuality && arpeggioShape
+      ? generateArpeggioShape(arpeggioChord.note, arpeggioShape, arpeggioQuality, tuningNotes)
+      : null;
+    const arpeggioShapeKeys = arpeggioShapeNotes
+      ? new Set(arpeggioShapeNotes.map(n => `${n.stringIndex}-${n.fret}`))
+      : null;
+
+    // Triad overlay: all triads on the chosen string sets, or only the selected one
+    const triads = triadQuality
+      ? generateTriads(rootNote, triadQuality, {
+          tuning: tuningNotes,
+          maxFret: fretCount,
+          stringSets: triadStringSet ? [triadStringSet] : undefined
+        })
+      : [];
+    const selectedTriad = selectedTriadFrets
+      ? triads.find(triad => triad.absoluteFrets.join(',') === selectedTriadFrets.join(',')) ?? null
+      : null;
+    const triadTones = new Map<string, { label: string; function: ChordToneFunction }>();
+    (selectedTriad ? [selectedTriad] : triads).forEach(triad => {
+      triad.absoluteFrets.forEach((fret, stringIndex) => {
+        if (fret < 0) return;
+        const label = triad.voiceOrder[triad.absoluteFrets.slice(0, stringIndex).filter(f => f >= 0).length];
+        const toneFunction: ChordToneFunction = label === 'R' ? 'R' : label.includes('3') ? '3' : '5';
+        triadTones.set(`${stringIndex}-${fret}`, { label, function: toneFunction });
+      });
+    });
+
+    // Scale the note labels refer to (the CAGED box when that overlay is active)
+    const labelIntervals = cagedPosition
+      ? CAGED_BOX_INTERVALS[cagedBox][cagedQuality]
+      : getScaleIntervalsFor(scaleType, isMinor, modalType);
+
+    // Fingering: the active pattern or CAGED window, otherwise a five-fret position window
+    let fingering = new Map<string, FingeredNote>();
+    if (showFingers) {
+      const toPosition = (key: string) => {
+        const [stringIndex, fret] = key.split('-').map(Number);
+        return { stringIndex, fret };
+      };
+
+      let fingeringNotes: Array<{ stringIndex: number; fret: number }>;
+      let minFret: number;
+      let maxFret: number;
+
+      if (threeNPSPositions) {
+        fingeringNotes = [...threeNPSPositions].map(toPosition);
+        minFret = Math.min(...fingeringNotes.map(n => n.fret));
+        maxFret = Math.max(...fingeringNotes.map(n => n.fret));
+      } else if (cagedPosition) {
+        fingeringNotes = [...cagedBoxKeys].map(toPosition);
+        minFret = cagedPosition.minFret;
+        maxFret = cagedPosition.maxFret;
+      } else {
+        minFret = fingeringPosition;
+        maxFret = fingeringPosition + 4;
+        fingeringNotes = [];
+        tuningNotes.forEach((openNote, stringIndex) => {
+          for (let fret = minFret; fret <= maxFret; fret++) {
+            if (isNoteInScale(getNoteAtFret(openNote, fret), rootNote, scaleType, isMinor, modalType)) {
+              fingeringNotes.push({ stringIndex, fret });
+            }
+          }
+        });
+      }
+
+      fingering = new Map(
+        getScaleFingering(fingeringNotes, minFret, maxFret).map(n => [`${n.stringIndex}-${n.fret}`, n])
+      );
+    }
+
     return (
       <div className="flex flex-col items-center w-full">
-        <div className="mb-4 flex gap-4">
+        {/* Tuning selector */}
+        <div className="mb-4 flex flex-wrap justify-center items-center gap-3 bg-amber-50 p-3 rounded-lg">
+          <span className="text-sm font-semibold text-gray-700">Tuning:</span>
+          <select
+            value={tuningId}
+            onChange={(e) => setTuningId(e.target.value)}
+            className="px-3 py-1.5 rounded-lg text-sm border border-gray-300 bg-white"
+            aria-label="Tuning"
+          >
+            {getAvailableTunings().map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <input
+            ref={customTuningRef}
+            type="text"
+            placeholder="Custom, low to high (e.g. D A D F# A D)"
+            className="px-3 py-1.5 rounded-lg text-sm border border-gray-300 w-72"
+            aria-label="Custom tuning"
+          />
+          <button
+            onClick={handleAddCustomTuning}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-white text-gray-700 hover:bg-gray-100 border border-gray-300 transition-colors"
+          >
+            Add Tuning
+          </button>
+          {tuningError && (
+            <span className="text-sm text-red-600">{tuningError}</span>
+          )}
+          <span className="text-sm font-semibold text-gray-700 ml-2">Capo:</span>
+          <select
+            value={capo}
+            onChange={(e) => setCapo(Number(e.target.value))}
+            className="px-3 py-1.5 rounded-lg text-sm border border-gray-300 bg-white"
+            aria-label="Capo"
+          >
+            {Array.from({ length: MAX_CAPO + 1 }, (_, fret) => (
+              <option key={fret} value={fret}>{fret === 0 ? 'None' : `Fret ${fret}`}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="mb-4 flex flex-wrap gap-4">
           <button
             onClick={() => setScaleType('pentatonic')}
             className={`px-4 py-2 rounded-lg font-medium transition-colors ${
@@ -833,34 +1335,144 @@ const GuitarScaleApp = () => {
           >
             Modal Scales
           </button>
+          {EXTENDED_SCALE_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => setScaleType(type)}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                scaleType === type
+                  ? 'bg-teal-500 text-white'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              {EXTENDED_SCALES[type].label}
+            </button>
+          ))}
         </div>
 
         {/* Modal scale type selector */}
         {scaleType === 'modal' && (
-          <div className="mb-4 flex gap-3 bg-purple-50 p-3 rounded-lg">
+          <div className="mb-4 flex flex-wrap gap-3 bg-purple-50 p-3 rounded-lg">
             <span className="text-sm font-semibold text-gray-700 self-center">Mode:</span>
+            {MODE_NAMES.map(mode => (
+              <button
+                key={mode}
+                onClick={() => setModalType(mode)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  modalType === mode
+                    ? 'bg-purple-500 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+              >
+                {MODE_LABELS[mode]}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* CAGED position selector */}
+        <div className="mb-4 flex flex-wrap items-center gap-3 bg-yellow-50 p-3 rounded-lg">
+          <span className="text-sm font-semibold text-gray-700">CAGED Position:</span>
+          <button
+            onClick={() => setCagedShape(null)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              cagedShape === null
+                ? 'bg-yellow-500 text-white'
+                : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+            }`}
+          >
+            Off
+          </button>
+          {CAGED_ORDER.map(shape => (
             <button
-              onClick={() => setModalType('ionian')}
-              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
-                modalType === 'ionian'
-                  ? 'bg-purple-500 text-white'
+              key={shape}
+              onClick={() => setCagedShape(shape)}
+              disabled={shapeVoicings[shape].length === 0}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-40 ${
+                cagedShape === shape
+                  ? 'bg-yellow-500 text-white'
                   : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
               }`}
             >
-              Ionian (Major)
+              {shape} Shape
             </button>
+          ))}
+          <span className="text-sm font-semibold text-gray-700 ml-2">Box:</span>
+          <select
+            value={cagedBox}
+            onChange={(e) => setCagedBox(e.target.value as 'pentatonic' | 'diatonic')}
+            className="px-3 py-1.5 rounded-lg text-sm border border-gray-300 bg-white"
+            aria-label="CAGED scale box"
+          >
+            <option value="pentatonic">Pentatonic</option>
+            <option value="diatonic">{isMinor ? 'Natural Minor' : 'Major'} Scale</option>
+          </select>
+        </div>
+
+        {/* 3NPS pattern selector */}
+        {sevenNoteIntervals && (
+          <div className="mb-4 flex flex-wrap items-center gap-3 bg-indigo-50 p-3 rounded-lg">
+            <span className="text-sm font-semibold text-gray-700">3NPS Pattern:</span>
+            {[null, 1, 2, 3, 4, 5, 6, 7].map(pattern => (
+              <button
+                key={pattern ?? 'off'}
+                onClick={() => setThreeNPSPattern(pattern)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  threeNPSPattern === pattern
+                    ? 'bg-indigo-500 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+              >
+                {pattern === null ? 'Off' : pattern}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {/* Fingering and label options */}
+        <div className="mb-4 flex flex-wrap items-center gap-3 bg-pink-50 p-3 rounded-lg">
+          <span className="text-sm font-semibold text-gray-700">Labels:</span>
+          {([
+            ['names', 'Note Names'],
+            ['intervals', 'Intervals'],
+            ['degrees', 'Scale Degrees']
+          ] as const).map(([mode, label]) => (
             <button
-              onClick={() => setModalType('aeolian')}
+              key={mode}
+              onClick={() => setNoteLabelMode(mode)}
               className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
-                modalType === 'aeolian'
-                  ? 'bg-purple-500 text-white'
+                noteLabelMode === mode
+                  ? 'bg-pink-500 text-white'
                   : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
               }`}
             >
-              Aeolian (Minor)
+              {label}
             </button>
-          </div>
-        )}
+          ))}
+          <label className="flex items-center gap-2 text-sm font-semibold text-gray-700 ml-2">
+            <input
+              type="checkbox"
+              checked={showFingers}
+              onChange={(e) => setShowFingers(e.target.checked)}
+            />
+            Show finger numbers
+          </label>
+          {showFingers && !threeNPSPositions && !cagedPosition && (
+            <>
+              <span className="text-sm font-semibold text-gray-700 ml-2">Position:</span>
+              <select
+                value={fingeringPosition}
+                onChange={(e) => setFingeringPosition(Number(e.target.value))}
+                className="px-3 py-1.5 rounded-lg text-sm border border-gray-300 bg-white"
+                aria-label="Fingering position"
+              >
+                {Array.from({ length: 13 }, (_, fret) => (
+                  <option key={fret} value={fret}>{fret === 0 ? 'Open' : `Fret ${fret}`}</option>
+                ))}
+              </select>
+            </>
+          )}
+        </div>
 
         <div className="w-full overflow-x-auto">
           <div className="min-w-max bg-gradient-to-r from-amber-700 via-amber-600 to-amber-700 p-4 rounded-lg shadow-xl">
@@ -900,6 +1512,22 @@ const GuitarScaleApp = () => {
                         const inScale = isNoteInScale(note, rootNote, scaleType, isMinor, modalType);
                         const isRoot = isRootNote(note, rootNote);
                         const isBlue = scaleType === 'blues' && isBlueNote(note, rootNote, isMinor);
+                        const isCharacteristic = scaleType === 'modal' && isCharacteristicNote(note, rootNote, modalType);
+                        const isBehindCapo = fret < capo; // Not playable with the capo on
+
+                        // CAGED overlay (fretboard rows run high to low, shapes low to high)
+                        const shapeStringIndex = tuning.length - 1 - stringIndex;
+                        const inCagedWindow = cagedPosition !== null && isInCAGEDWindow(cagedPosition, fret);
+                        const inCagedBox = cagedBoxKeys.has(`${shapeStringIndex}-${fret}`);
+                        const isChordTone = cagedPosition !== null && cagedPosition.chordFrets[shapeStringIndex] === fret;
+                        const arpeggioTone = !arpeggioShapeKeys || arpeggioShapeKeys.has(`${shapeStringIndex}-${fret}`)
+                          ? arpeggioTones.get(getNoteIndex(note))
+                          : undefined;
+                        const triadTone = triadTones.get(`${shapeStringIndex}-${fret}`);
+                        const showNote = (cagedPosition ? inCagedBox || isChordTone : inScale) || arpeggioTone !== undefined || triadTone !== undefined;
+                        const isOutsidePattern = threeNPSPositions !== null && !threeNPSPositions.has(`${shapeStringIndex}-${fret}`);
+                        const fingered = fingering.get(`${shapeStringIndex}-${fret}`);
+                        const isUnfingered = showFingers && !fingered;
 
                         return (
                           <div
@@ -908,8 +1536,15 @@ const GuitarScaleApp = () => {
                             style={{
                               borderLeft: fret > 0 ? '3px solid #78350f' : 'none',
                               borderRight: fret === 0 ? '4px solid #451a03' : 'none',
+                              opacity: isBehindCapo ? 0.4 : 1,
+                              backgroundColor: inCagedWindow ? 'rgba(253, 224, 71, 0.2)' : undefined,
                             }}
                           >
+                            {/* Capo bar */}
+                            {capo > 0 && fret === capo && (
+                              <div className="absolute inset-y-0 left-1 w-2 bg-amber-400 rounded opacity-80" />
+                            )}
+
                             {/* Fret markers (dots) */}
                             {stringIndex === 2 && fretMarkers.includes(fret) && (
                               <div className="absolute w-2 h-2 bg-amber-200 rounded-full opacity-40"
@@ -920,17 +1555,38 @@ const GuitarScaleApp = () => {
                             )}
 
                             {/* Scale notes */}
-                            {inScale && (
+                            {showNote && !isBehindCapo && (
                               <div
                                 className={`w-7 h-7 rounded-full flex items-center justify-center text-white font-bold text-xs z-10 ${
-                                  isRoot
+                                  isChordTone ? 'ring-2 ring-yellow-300 ' : ''
+                                }${fingered?.isShift ? 'ring-2 ring-pink-400 ' : ''}${
+                                  fingered?.isStretch ? 'outline-dashed outline-2 outline-white ' : ''
+                                }${isOutsidePattern || isUnfingered ? 'opacity-25 ' : ''}${
+                                  triadTone ? 'ring-2 ring-teal-400 ' : ''
+                                }${
+                                  triadTone
+                                    ? chordToneColors[triadTone.function]
+                                    : arpeggioTone
+                                    ? chordToneColors[arpeggioTone.function]
+                                    : isRoot
                                     ? 'bg-red-500 border-2 border-red-700 shadow-lg'
                                     : isBlue
                                       ? 'bg-blue-500 border-2 border-blue-700 shadow-lg'
-                                      : 'bg-green-500 shadow-md'
+                                      : isCharacteristic
+                                        ? 'bg-purple-500 border-2 border-purple-700 shadow-lg'
+                                        : 'bg-green-500 shadow-md'
                                 }`}
+                                title={fingered
+                                  ? `${note}: finger ${fingered.finger}${fingered.isShift ? ' (position shift)' : ''}${fingered.isStretch ? ' (stretch)' : ''}`
+                                  : undefined}
                               >
-                                {note}
+                                {fingered
+                                  ? (fingered.finger === 0 ? 'O' : fingered.finger)
+                                  : triadTone && noteLabelMode === 'intervals'
+                                    ? triadTone.label
+                                    : arpeggioTone && noteLabelMode === 'intervals'
+                                    ? arpeggioTone.label
+                                    : getNoteLabel(note, rootNote, labelIntervals)}
                               </div>
                             )}
                           </div>
@@ -946,8 +1602,132 @@ const GuitarScaleApp = () => {
 
         <div className="mt-4 text-center">
           <p className="text-lg font-bold text-gray-800">
-            {selectedKey} {scaleType === 'pentatonic' ? 'Pentatonic' : 'Blues'} Scale
+            {scaleType === 'modal'
+              ? `${rootNote} ${MODE_LABELS[modalType]}`
+              : isExtendedScaleType(scaleType)
+                ? `${rootNote} ${EXTENDED_SCALES[scaleType].label} Scale`
+                : `${selectedKey} ${scaleType === 'pentatonic' ? 'Pentatonic' : 'Blues'} Scale`}
           </p>
+          {scaleType === 'modal' && (
+            <p className="text-sm text-purple-700">
+              Mode {MODE_NAMES.indexOf(modalType) + 1} of {getParentMajorScale(rootNote, modalType)} major
+              {' '}(parent major scale) · characteristic note: {getCharacteristicNote(rootNote, modalType)} ({MODE_CHARACTERISTICS[modalType].label})
+            </p>
+          )}
+          {!isStandard && (
+            <p className="text-sm text-gray-600">
+              Tuning: {getTuning(tuningId).name}
+            </p>
+          )}
+          {capo > 0 && (
+            <p className="text-sm text-amber-700">
+              Capo on fret {capo} (notes behind the capo are dimmed)
+            </p>
+          )}
+          {arpeggioChord && (
+            <p className="text-sm text-fuchsia-700">
+              Arpeggio: {arpeggioChord.note}{arpeggioChord.quality} ({[...arpeggioTones.values()].map(t => t.note).join(' ')}) over the scale
+              <button
+                onClick={() => setArpeggioChord(null)}
+                className="ml-2 underline hover:text-fuchsia-900"
+              >
+                Clear
+              </button>
+            </p>
+          )}
+          {arpeggioChord && arpeggioQuality && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mt-2 text-sm">
+              <span className="font-semibold text-gray-700">Arpeggio shape:</span>
+              {[null, ...CAGED_ORDER].map(shape => (
+                <button
+                  key={shape ?? 'neck'}
+                  onClick={() => setArpeggioShape(shape)}
+                  className={`px-2 py-1 rounded-lg font-medium transition-colors ${
+                    arpeggioShape === shape
+                      ? 'bg-fuchsia-500 text-white'
+                      : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                  }`}
+                >
+                  {shape === null ? 'Whole Neck' : `${shape} Shape`}
+                </button>
+              ))}
+            </div>
+          )}
+          {arpeggioShapeNotes && (
+            <details className="mt-2 text-left max-w-xl mx-auto">
+              <summary className="text-sm text-fuchsia-700 cursor-pointer">AlphaTeX export</summary>
+              <pre className="mt-1 p-2 bg-gray-50 border border-gray-200 rounded text-xs whitespace-pre-wrap">
+                {generateArpeggioAlphaTeX(arpeggioShapeNotes, {
+                  title: `${arpeggioChord!.note}${arpeggioChord!.quality} arpeggio (${arpeggioShape} shape)`
+                })}
+              </pre>
+            </details>
+          )}
+          <div className="flex flex-wrap justify-center items-center gap-2 mt-2 text-sm">
+            <span className="font-semibold text-gray-700">Triads:</span>
+            {[null, ...TRIAD_QUALITIES].map(quality => (
+              <button
+                key={quality ?? 'off'}
+                onClick={() => {
+                  setTriadQuality(quality);
+                  setSelectedTriadFrets(null);
+                }}
+                className={`px-2 py-1 rounded-lg font-medium capitalize transition-colors ${
+                  triadQuality === quality
+                    ? 'bg-teal-500 text-white'
+                    : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                }`}
+              >
+                {quality === null ? 'Off' : quality}
+              </button>
+            ))}
+          </div>
+          {triadQuality && (
+            <div className="flex flex-wrap justify-center items-center gap-2 mt-2 text-sm">
+              <span className="font-semibold text-gray-700">String set:</span>
+              {[null, ...Object.keys(TRIAD_STRING_SETS)].map(stringSet => (
+                <button
+                  key={stringSet ?? 'all'}
+                  onClick={() => {
+                    setTriadStringSet(stringSet);
+                    setSelectedTriadFrets(null);
+                  }}
+                  className={`px-2 py-1 rounded-lg font-medium transition-colors ${
+                    triadStringSet === stringSet
+                      ? 'bg-teal-500 text-white'
+                      : 'bg-white text-gray-700 hover:bg-gray-100 border border-gray-300'
+                  }`}
+                >
+                  {stringSet === null ? 'All' : stringSet}
+                </button>
+              ))}
+            </div>
+          )}
+          {triadQuality && (
+            <div className="mt-3 text-left">
+              <p className="text-sm text-teal-700 text-center mb-2">
+                {rootNote} {triadQuality} triads: {selectedTriad
+                  ? `${selectedTriad.name}, ${selectedTriad.inCAGEDShape ? '' : 'near '}${selectedTriad.cagedShape} shape`
+                  : 'click a diagram to show a single triad on the fretboard'}
+              </p>
+              <TriadExplorer
+                triads={triads}
+                selectedFrets={selectedTriad?.absoluteFrets ?? null}
+                onSelect={triad => setSelectedTriadFrets(triad ? triad.absoluteFrets : null)}
+              />
+            </div>
+          )}
+          {threeNPSPositions && (
+            <p className="text-sm text-indigo-700">
+              3NPS pattern {threeNPSPattern}: starts on scale degree {threeNPSPattern} on the low string (other notes dimmed)
+            </p>
+          )}
+          {cagedPosition && (
+            <p className="text-sm text-yellow-700">
+              {rootNote}{isMinor ? 'm' : ''} {cagedPosition.shape} shape, frets {cagedPosition.minFret}–{cagedPosition.maxFret}
+              {' '}({cagedBox === 'pentatonic' ? 'pentatonic' : isMinor ? 'natural minor' : 'major'} box)
+            </p>
+          )}
           <div className="flex justify-center gap-4 mt-2 text-sm">
             <div className="flex items-center gap-1">
               <div className="w-4 h-4 bg-red-500 rounded-full border border-red-700"></div>
@@ -959,10 +1739,40 @@ const GuitarScaleApp = () => {
                 <span>Blue Notes</span>
               </div>
             )}
+            {scaleType === 'modal' && (
+              <div className="flex items-center gap-1">
+                <div className="w-4 h-4 bg-purple-500 rounded-full border border-purple-700"></div>
+                <span>Characteristic Note ({MODE_CHARACTERISTICS[modalType].label})</span>
+              </div>
+            )}
             <div className="flex items-center gap-1">
               <div className="w-4 h-4 bg-green-500 rounded-full"></div>
               <span>Scale Notes</span>
             </div>
+            {(arpeggioChord || triadQuality) && (arpeggioChord ? ['3', '5', '7'] as const : ['3', '5'] as const).map(fn => (
+              <div key={fn} className="flex items-center gap-1">
+                <div className={`w-4 h-4 rounded-full ${chordToneColors[fn]}`}></div>
+                <span>Chord {fn === '3' ? '3rd' : `${fn}th`}</span>
+              </div>
+            ))}
+            {showFingers && (
+              <>
+                <div className="flex items-center gap-1">
+                  <div className="w-4 h-4 bg-green-500 rounded-full ring-2 ring-pink-400"></div>
+                  <span>Position Shift</span>
+                </div>
+                <div className="flex items-center gap-1">
+                  <div className="w-4 h-4 bg-green-500 rounded-full outline-dashed outline-2 outline-gray-500"></div>
+                  <span>Stretch</span>
+                </div>
+              </>
+            )}
+            {cagedPosition && (
+              <div className="flex items-center gap-1">
+                <div className="w-4 h-4 bg-green-500 rounded-full ring-2 ring-yellow-300"></div>
+                <span>Chord Tones ({cagedPosition.shape} shape)</span>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -994,9 +1804,41 @@ const GuitarScaleApp = () => {
           <DiatonicChords />
         </div>
 
-        <div className="bg-white rounded-xl shadow-lg p-6">
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
           <ChordProgressions />
         </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6 mb-8">
+          <h2 className="text-2xl font-bold text-gray-800 mb-2 text-center">
+            Song Sheet
+          </h2>
+          <p className="text-sm text-gray-600 mb-4 text-center">
+            Paste a song in ChordPro or chords-over-lyrics format to see its chords as diagrams.
+            Export it back to ChordPro with the chosen voicings as {'{define:}'} directives.
+          </p>
+          <SongSheet
+            tuning={tuningNotes}
+            onPlay={(chords: Array<{ note: string; quality: string }>) => {
+              setSelectedProgression(chords);
+              setSelectedRhythm(DEFAULT_RHYTHM);
+              setIsAlphaTabOpen(true);
+            }}
+          />
+        </div>
+
+        <div className="bg-white rounded-xl shadow-lg p-6">
+          <h2 className="text-2xl font-bold text-gray-800 mb-2 text-center">
+            Chord Builder
+          </h2>
+          <p className="text-sm text-gray-600 mb-4 text-center">
+            Click frets to build a voicing - the chord name, notes and intervals update as you go.
+            Saved voicings appear in the chord voicing view of the matching chord.
+          </p>
+          <ChordBuilder
+            tuning={tuningNotes}
+            onSave={voicing => setSavedVoicings(prev => [...prev, voicing])}
+          />
+        </div>
       </div>
 
       {/* CAGED Modal */}
@@ -1006,6 +1848,8 @@ const GuitarScaleApp = () => {
           onClose={() => setIsChordModalOpen(false)}
           chord={selectedChordForModal}
           voicings={chordVoicings}
+          capo={capo}
+          jazzVoicings={jazzVoicings}
         />
       )}
 
@@ -1014,6 +1858,11 @@ const GuitarScaleApp = () => {
         <AlphaTabPlayer
           chordProgression={selectedProgression}
           onClose={() => setIsAlphaTabOpen(false)}
+          capo={capo}
+          voiceLeading={voiceLeading}
+          neckWindow={neckWindow}
+          tuning={tuningNotes}
+          rhythm={selectedRhythm}
         />
       )}
     </div>
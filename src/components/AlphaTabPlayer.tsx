@@ -1,39 +1,124 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { generateValidatedAlphaTeX } from '../utils/alphaTabChordGenerator';
+import { getShapeNote, getShapeQuality } from '../utils/capo';
+import { STANDARD_TUNING } from '../utils/musicTheory';
+import { NeckWindow } from '../utils/positionVoicing';
+import { RhythmSettings, DEFAULT_RHYTHM } from '../utils/strumming';
+import { PICKING_PATTERNS, getPickingPattern } from '../utils/fingerpicking';
+import { ALPHATAB_ASSET_PATH, findMissingAlphaTabAssets, getAlphaTabAssetUrls } from '../utils/alphaTabAssets';
+import { exportProgressionToMusicXml, exportProgressionToGuitarPro } from '../utils/progressionExport';
 
 interface AlphaTabPlayerProps {
   chordProgression: Array<{ note: string; quality: string }>;
   onClose: () => void;
+  capo?: number;
+  voiceLeading?: boolean; // Choose the voicings together for smooth voice leading
+  neckWindow?: NeckWindow | null; // Voice every chord inside this fret region
+  tuning?: string[]; // Open string notes, low to high
+  rhythm?: RhythmSettings; // Strumming or picking pattern, tempo and time signature
+  assetPath?: string; // Where the alphaTab font/ and soundfont/ folders are served
 }
 
-export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression, onClose }) => {
+/**
+ * Saves exported data as a file download
+ */
+const downloadFile = (data: BlobPart, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({
+  chordProgression,
+  onClose,
+  capo = 0,
+  voiceLeading = false,
+  neckWindow = null,
+  tuning = STANDARD_TUNING,
+  rhythm = DEFAULT_RHYTHM,
+  assetPath = ALPHATAB_ASSET_PATH
+}) => {
   const alphaTabRef = useRef<HTMLDivElement>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [missingAssets, setMissingAssets] = useState<string[]>([]);
   const [alphaTexNotation, setAlphaTexNotation] = useState<string>('');
+  // Picked or strummed variant of the progression
+  const [picked, setPicked] = useState(rhythm.pickingPattern !== null);
+  const [pickingPattern, setPickingPattern] = useState(rhythm.pickingPattern ?? PICKING_PATTERNS[0]);
 
   useEffect(() => {
     // Generate AlphaTeX notation with validated chord voicings
-    const notation = generateValidatedAlphaTeX(chordProgression);
+    const notation = generateValidatedAlphaTeX(chordProgression, {
+      capo,
+      voiceLeading,
+      neckWindow,
+      tuning,
+      ...rhythm,
+      pickingPattern: picked ? pickingPattern : null
+    });
     setAlphaTexNotation(notation);
     console.log('Generated validated AlphaTeX notation:', notation);
-  }, [chordProgression]);
+  }, [chordProgression, capo, voiceLeading, neckWindow, tuning, rhythm, picked, pickingPattern]);
+
+  // Export the progression as shown in the player (same voicings and rhythm)
+  const handleExport = async (format: 'musicxml' | 'gp') => {
+    const options = {
+      title: chordProgression.map(c => `${c.note}${c.quality}`).join(' - '),
+      capo,
+      voiceLeading,
+      neckWindow,
+      tuning,
+      ...rhythm,
+      pickingPattern: picked ? pickingPattern : null
+    };
+
+    try {
+      if (format === 'musicxml') {
+        const musicXml = await exportProgressionToMusicXml(chordProgression, options);
+        downloadFile(musicXml, 'chord-progression.musicxml', 'application/vnd.recordare.musicxml+xml');
+      } else {
+        const guitarPro = await exportProgressionToGuitarPro(chordProgression, options);
+        // Copied into a plain ArrayBuffer for the Blob
+        downloadFile(new Uint8Array(guitarPro), 'chord-progression.gp', 'application/octet-stream');
+      }
+    } catch (err: any) {
+      console.error('Failed to export progression:', err);
+      setError(`Failed to export ${format === 'musicxml' ? 'MusicXML' : 'Guitar Pro'}: ${err.message || 'Unknown error'}`);
+    }
+  };
 
   useEffect(() => {
     if (!alphaTexNotation || !alphaTabRef.current) return;
 
     let api: any = null;
+    let cancelled = false;
 
     const initAlphaTab = async () => {
       try {
         console.log('Starting AlphaTab initialization...');
 
+        // Check the local font and soundfont before starting the renderer
+        const missing = await findMissingAlphaTabAssets(assetPath);
+        if (cancelled) return;
+        if (missing.length > 0) {
+          console.warn('⚠️ AlphaTab assets not found:', missing);
+          setMissingAssets(missing);
+          setIsLoading(false);
+          return;
+        }
+        setMissingAssets([]);
+
         // Dynamically import AlphaTab
         const alphaTabModule = await import('@coderline/alphatab');
         console.log('AlphaTab imported successfully');
 
         // Wait a bit for DOM to be ready
         await new Promise(resolve => setTimeout(resolve, 100));
+        if (cancelled) return;
 
         console.log('Creating AlphaTab API with settings...');
 
@@ -45,9 +130,10 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
         settings.player.enableUserInteraction = true;
         settings.player.scrollMode = alphaTabModule.ScrollMode.Continuous;
 
-        // Set soundfont URL - use AlphaTab's CDN soundfont
-        settings.core.fontDirectory = 'https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/font/';
-        settings.player.soundFont = 'https://cdn.jsdelivr.net/npm/@coderline/alphatab@latest/dist/soundfont/sonivox.sf2';
+        // Music font and soundfont from the local assets (same version as the installed package)
+        const assetUrls = getAlphaTabAssetUrls(assetPath);
+        settings.core.fontDirectory = assetUrls.fontDirectory;
+        settings.player.soundFont = assetUrls.soundFont;
 
         // Initialize AlphaTab with settings
         api = new alphaTabModule.AlphaTabApi(alphaTabRef.current!, settings);
@@ -119,6 +205,11 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
           console.log('✅ Soundfont loaded successfully!');
         });
 
+        api.soundFontLoadFailed.on((e: any) => {
+          console.error('Soundfont failed to load:', e);
+          setError(`Failed to load soundfont from ${assetUrls.soundFont}: ${e?.message || 'Unknown error'}`);
+        });
+
         console.log('AlphaTab initialized successfully');
         console.log('Player enabled:', api.settings.player.enablePlayer);
 
@@ -133,6 +224,7 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
 
     // Cleanup
     return () => {
+      cancelled = true;
       if (api) {
         try {
           console.log('Destroying AlphaTab API...');
@@ -142,7 +234,7 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
         }
       }
     };
-  }, [alphaTexNotation]);
+  }, [alphaTexNotation, assetPath]);
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 backdrop-blur-sm">
@@ -155,6 +247,14 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
               <p className="text-sm text-purple-100 mt-1">
                 {chordProgression.map(c => `${c.note}${c.quality}`).join(' → ')}
               </p>
+              {capo > 0 && (
+                <p className="text-sm text-purple-100">
+                  Capo {capo}: play {chordProgression.map(c => `${getShapeNote(c.note, capo)}${getShapeQuality(c.quality, capo)}`).join(' → ')} shapes
+                </p>
+              )}
+              <p className="text-sm text-purple-100">
+                {picked ? pickingPattern.name : rhythm.strumPattern?.name ?? 'Block chords'} · {rhythm.tempo} BPM · {rhythm.timeSignature.numerator}/{rhythm.timeSignature.denominator}
+              </p>
             </div>
             <button
               onClick={onClose}
@@ -169,13 +269,32 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
         {/* Content */}
         <div className="p-6">
           {/* Loading indicator */}
-          {isLoading && !error && (
+          {isLoading && !error && missingAssets.length === 0 && (
             <div className="flex justify-center items-center py-12">
               <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-purple-600"></div>
               <span className="ml-4 text-xl text-gray-600">Loading tablature...</span>
             </div>
           )}
 
+          {/* Missing local assets */}
+          {missingAssets.length > 0 && (
+            <div className="bg-red-50 border-l-4 border-red-500 p-6 rounded mb-6" data-testid="alphatab-missing-assets">
+              <h3 className="font-bold text-red-900 mb-2">Playback assets not found</h3>
+              <p className="text-red-800 mb-2">
+                The tablature font and soundfont could not be loaded from <code>{assetPath}</code>:
+              </p>
+              <ul className="text-sm text-red-800 font-mono mb-2">
+                {missingAssets.map(url => (
+                  <li key={url}>• {url}</li>
+                ))}
+              </ul>
+              <p className="text-sm text-red-800">
+                Copy the <code>font/</code> and <code>soundfont/</code> folders from{' '}
+                <code>node_modules/@coderline/alphatab/dist</code> to this path.
+              </p>
+            </div>
+          )}
+
           {/* Error message */}
           {error && (
             <div className="bg-red-50 border-l-4 border-red-500 p-6 rounded mb-6">
@@ -199,6 +318,54 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
               >
                 ■ Stop
               </button>
+              <div className="flex items-center gap-1 ml-4" role="group" aria-label="Playing style">
+                <button
+                  onClick={() => setPicked(false)}
+                  aria-pressed={!picked}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    !picked ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Strummed
+                </button>
+                <button
+                  onClick={() => setPicked(true)}
+                  aria-pressed={picked}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    picked ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-100'
+                  }`}
+                >
+                  Picked
+                </button>
+                {picked && (
+                  <select
+                    value={pickingPattern.id}
+                    onChange={e => setPickingPattern(getPickingPattern(e.target.value) ?? PICKING_PATTERNS[0])}
+                    className="ml-1 border border-gray-300 rounded-lg px-2 py-2 text-sm bg-white"
+                    aria-label="Picking pattern"
+                  >
+                    {PICKING_PATTERNS.map(pattern => (
+                      <option key={pattern.id} value={pattern.id}>{pattern.name}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <div className="flex items-center gap-1 ml-4" role="group" aria-label="Export">
+                <button
+                  onClick={() => handleExport('musicxml')}
+                  className="bg-white hover:bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+                  title="Download for MuseScore and other notation programs"
+                >
+                  Export MusicXML
+                </button>
+                <button
+                  onClick={() => handleExport('gp')}
+                  className="bg-white hover:bg-gray-100 text-gray-700 px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+                  title="Download for Guitar Pro"
+                >
+                  Export Guitar Pro
+                </button>
+              </div>
             </div>
           </div>
 
@@ -207,14 +374,14 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
             ref={alphaTabRef}
             className="bg-white rounded-lg border-2 border-gray-200 p-4 min-h-[400px]"
             style={{
-              opacity: error ? 0.5 : 1, // Only dim on error, not during loading
+              opacity: error || missingAssets.length > 0 ? 0.5 : 1, // Only dim on error, not during loading
               overflow: 'auto',
               transition: 'opacity 0.3s'
             }}
           ></div>
 
           {/* Instructions */}
-          {!error && (
+          {!error && missingAssets.length === 0 && (
             <div className="mt-6 bg-blue-50 border-l-4 border-blue-500 p-4 rounded">
               <h3 className="font-bold text-blue-900 mb-2">How to Use</h3>
               <ul className="text-sm text-blue-800 space-y-1">
@@ -222,7 +389,9 @@ export const AlphaTabPlayer: React.FC<AlphaTabPlayerProps> = ({ chordProgression
                 <li>• The tablature shows fingering positions for each chord</li>
                 <li>• Numbers indicate which fret to press on each string</li>
                 <li>• The cursor will follow along as the music plays</li>
+                <li>• <strong>Picked</strong> plays each chord as single notes with right-hand fingers (p = thumb, i, m, a)</li>
                 <li>• Click anywhere on the score to start playback from that position</li>
+                <li>• <strong>Export MusicXML</strong> or <strong>Export Guitar Pro</strong> to open the exercise in MuseScore or Guitar Pro, with chord symbols and diagrams</li>
               </ul>
             </div>
           )}
@@ -0,0 +1,324 @@
+import React, { useMemo, useState } from 'react';
+import { fretsToNotes, getIntervalLabel, STANDARD_TUNING } from '../utils/musicTheory';
+import { validateCustomVoicing } from '../utils/cagedSystemEnhanced';
+import { identifyChord, createCustomVoicing, CustomChordVoicing } from '../utils/chordIdentification';
+import { Note } from 'tonal';
+import { ChordDiagram } from './ChordModal';
+
+interface ChordBuilderProps {
+  tuning?: string[];                               // Open string notes, low to high
+  onSave?: (voicing: CustomChordVoicing) => void;  // Saved voicings work wherever a ChordVoicing is accepted
+}
+
+// Diagram geometry (same orientation as ChordDiagram: low E on the left, nut on top)
+const VISIBLE_FRETS = 5;
+const STRING_SPACING = 24;
+const FRET_SPACING = 32;
+const LEFT = 36;
+const TOP = 32;
+
+const stringX = (stringIndex: number) => LEFT + stringIndex * STRING_SPACING;
+
+/**
+ * Interactive chord builder
+ *
+ * Click a fret to place a note, click it again to mute the string.
+ * Click above the nut to switch a string between open and muted.
+ * With a finger selected, clicking a placed note assigns that finger.
+ */
+export const ChordBuilder: React.FC<ChordBuilderProps> = ({ tuning = STANDARD_TUNING, onSave }) => {
+  const [frets, setFrets] = useState<number[]>([-1, -1, -1, -1, -1, -1]);
+  const [fingers, setFingers] = useState<number[]>([0, 0, 0, 0, 0, 0]);
+  // Barre, with the strings it moved onto the barre fret (to restore them when it is removed)
+  const [barre, setBarre] = useState<{
+    fret: number;
+    fromString: number;
+    moved: Array<{ stringIndex: number; fret: number; finger: number }>;
+  } | null>(null);
+  const [isBarreMode, setIsBarreMode] = useState(false);
+  const [selectedFinger, setSelectedFinger] = useState(0);
+  const [startFret, setStartFret] = useState(1);
+  const [savedVoicings, setSavedVoicings] = useState<CustomChordVoicing[]>([]);
+
+  const visibleFrets = Array.from({ length: VISIBLE_FRETS }, (_, i) => startFret + i);
+
+  // Live analysis of the current voicing
+  const identified = useMemo(() => identifyChord(frets, tuning, { maxResults: 4 }), [frets, tuning]);
+  const bestMatch = identified[0] ?? null;
+  const stringNotes = frets.map((fret, stringIndex) =>
+    fret < 0 ? null : Note.simplify(fretsToNotes([fret], [tuning[stringIndex]])[0])
+  );
+  const validation = bestMatch ? validateCustomVoicing(frets, bestMatch.root, bestMatch.quality, tuning) : null;
+
+  const setString = (stringIndex: number, fret: number, finger: number) => {
+    setFrets(prev => prev.map((f, i) => (i === stringIndex ? fret : f)));
+    setFingers(prev => prev.map((f, i) => (i === stringIndex ? finger : f)));
+  };
+
+  const handleFretClick = (stringIndex: number, fret: number) => {
+    if (isBarreMode) {
+      // Barre from this string to the high E string; played notes below the barre move onto it,
+      // muted strings stay muted
+      const moved = frets.flatMap((f, i) =>
+        i >= stringIndex && f >= 0 && f <= fret ? [{ stringIndex: i, fret: f, finger: fingers[i] }] : []
+      );
+      const isMoved = (i: number) => moved.some(m => m.stringIndex === i);
+      setBarre({ fret, fromString: stringIndex, moved });
+      setFrets(prev => prev.map((f, i) => (isMoved(i) ? fret : f)));
+      setFingers(prev => prev.map((f, i) => (isMoved(i) ? 1 : f)));
+      setIsBarreMode(false);
+      return;
+    }
+
+    if (frets[stringIndex] === fret) {
+      if (selectedFinger > 0 && fingers[stringIndex] !== selectedFinger) {
+        setString(stringIndex, fret, selectedFinger);
+      } else {
+        setString(stringIndex, -1, 0);
+      }
+      return;
+    }
+
+    setString(stringIndex, fret, selectedFinger);
+  };
+
+  const handleRemoveBarre = () => {
+    if (!barre) return;
+    // Strings still held by the barre go back to their fret and finger from before it
+    const held = (i: number) => frets[i] === barre.fret && fingers[i] === 1;
+    const restored = (i: number) => barre.moved.find(m => m.stringIndex === i && held(i));
+    setFrets(prev => prev.map((f, i) => restored(i)?.fret ?? f));
+    setFingers(prev => prev.map((f, i) => restored(i)?.finger ?? f));
+    setBarre(null);
+  };
+
+  const handleNutClick = (stringIndex: number) => {
+    setString(stringIndex, frets[stringIndex] === 0 ? -1 : 0, 0);
+  };
+
+  const handleReset = () => {
+    setFrets([-1, -1, -1, -1, -1, -1]);
+    setFingers([0, 0, 0, 0, 0, 0]);
+    setBarre(null);
+    setIsBarreMode(false);
+  };
+
+  const handleSave = () => {
+    const voicing = createCustomVoicing(frets, { fingers, barreFret: barre?.fret ?? null, tuning });
+    setSavedVoicings(prev => [...prev, voicing]);
+    onSave?.(voicing);
+  };
+
+  const soundingCount = frets.filter(f => f >= 0).length;
+  const svgWidth = LEFT + 5 * STRING_SPACING + 24;
+  const svgHeight = TOP + VISIBLE_FRETS * FRET_SPACING + 12;
+
+  return (
+    <div className="flex flex-col lg:flex-row gap-6">
+      {/* Diagram and controls */}
+      <div className="flex flex-col items-center">
+        <div className="flex items-center gap-2 mb-2">
+          <button
+            onClick={() => setStartFret(f => Math.max(1, f - 1))}
+            disabled={startFret === 1}
+            className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300 disabled:opacity-40"
+            aria-label="Move diagram down the neck"
+          >
+            ◀
+          </button>
+          <span className="text-sm text-gray-700 w-20 text-center">
+            {startFret === 1 ? 'Open position' : `Fret ${startFret}`}
+          </span>
+          <button
+            onClick={() => setStartFret(f => Math.min(20, f + 1))}
+            className="px-2 py-1 rounded bg-gray-200 hover:bg-gray-300"
+            aria-label="Move diagram up the neck"
+          >
+            ▶
+          </button>
+        </div>
+
+        <svg width={svgWidth} height={svgHeight} viewBox={`0 0 ${svgWidth} ${svgHeight}`} className="select-none">
+          {/* Position indicator */}
+          {startFret > 1 && (
+            <text x="2" y={TOP + FRET_SPACING / 2 + 4} className="text-xs font-bold fill-gray-700">
+              {startFret}fr
+            </text>
+          )}
+
+          {/* Nut / frets */}
+          {Array.from({ length: VISIBLE_FRETS + 1 }, (_, i) => (
+            <line key={i} x1={stringX(0)} y1={TOP + i * FRET_SPACING} x2={stringX(5)} y2={TOP + i * FRET_SPACING}
+                  stroke="#666" strokeWidth={i === 0 && startFret === 1 ? 5 : 1.5}/>
+          ))}
+
+          {/* Strings */}
+          {frets.map((_, stringIndex) => (
+            <line key={stringIndex} x1={stringX(stringIndex)} y1={TOP} x2={stringX(stringIndex)}
+                  y2={TOP + VISIBLE_FRETS * FRET_SPACING} stroke="#666" strokeWidth="1.5"/>
+          ))}
+
+          {/* Barre */}
+          {barre && visibleFrets.includes(barre.fret) && (
+            <rect
+              x={stringX(barre.fromString) - 8}
+              y={TOP + (barre.fret - startFret + 0.5) * FRET_SPACING - 6}
+              width={stringX(5) - stringX(barre.fromString) + 16}
+              height="12"
+              rx="6"
+              fill="#333"
+            />
+          )}
+
+          {/* Open / muted markers */}
+          {frets.map((fret, stringIndex) => (
+            <g key={stringIndex}>
+              {fret === -1 && (
+                <text x={stringX(stringIndex)} y={TOP - 10} textAnchor="middle" className="fill-red-600 font-bold">×</text>
+              )}
+              {fret === 0 && (
+                <circle cx={stringX(stringIndex)} cy={TOP - 14} r="6" fill="none" stroke="green" strokeWidth="2.5"/>
+              )}
+              <rect
+                x={stringX(stringIndex) - STRING_SPACING / 2}
+                y={0}
+                width={STRING_SPACING}
+                height={TOP - 2}
+                fill="transparent"
+                className="cursor-pointer"
+                role="button"
+                aria-label={`String ${6 - stringIndex} open or muted`}
+                onClick={() => handleNutClick(stringIndex)}
+              />
+            </g>
+          ))}
+
+          {/* Fretted notes with finger numbers */}
+          {frets.map((fret, stringIndex) => (
+            fret > 0 && visibleFrets.includes(fret) && (
+              <g key={stringIndex}>
+                <circle cx={stringX(stringIndex)} cy={TOP + (fret - startFret + 0.5) * FRET_SPACING} r="9" fill="#1e40af"/>
+                {fingers[stringIndex] > 0 && (
+                  <text x={stringX(stringIndex)} y={TOP + (fret - startFret + 0.5) * FRET_SPACING + 4}
+                        textAnchor="middle" className="fill-white text-xs font-bold">
+                    {fingers[stringIndex]}
+                  </text>
+                )}
+              </g>
+            )
+          ))}
+
+          {/* Click targets */}
+          {frets.map((_, stringIndex) => visibleFrets.map(fret => (
+            <rect
+              key={`${stringIndex}-${fret}`}
+              x={stringX(stringIndex) - STRING_SPACING / 2}
+              y={TOP + (fret - startFret) * FRET_SPACING}
+              width={STRING_SPACING}
+              height={FRET_SPACING}
+              fill="transparent"
+              className="cursor-pointer"
+              role="button"
+              aria-label={`String ${6 - stringIndex} fret ${fret}`}
+              onClick={() => handleFretClick(stringIndex, fret)}
+            />
+          )))}
+        </svg>
+
+        {/* Finger and barre tools */}
+        <div className="flex flex-wrap justify-center gap-1 mt-3">
+          {[0, 1, 2, 3, 4].map(finger => (
+            <button
+              key={finger}
+              onClick={() => setSelectedFinger(finger)}
+              className={`w-8 h-8 rounded text-sm font-semibold ${
+                selectedFinger === finger ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+              aria-label={finger === 0 ? 'No finger number' : `Finger ${finger}`}
+            >
+              {finger === 0 ? '–' : finger}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap justify-center gap-2 mt-2">
+          <button
+            onClick={() => setIsBarreMode(mode => !mode)}
+            className={`px-3 py-1 rounded text-sm font-semibold ${
+              isBarreMode ? 'bg-gray-800 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+            }`}
+          >
+            {isBarreMode ? 'Click barre start…' : 'Add barre'}
+          </button>
+          {barre && (
+            <button onClick={handleRemoveBarre} className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700 hover:bg-gray-300">
+              Remove barre
+            </button>
+          )}
+          <button onClick={handleReset} className="px-3 py-1 rounded text-sm bg-gray-200 text-gray-700 hover:bg-gray-300">
+            Reset
+          </button>
+        </div>
+      </div>
+
+      {/* Live analysis */}
+      <div className="flex-1">
+        <div className="bg-gradient-to-r from-purple-100 to-blue-100 border-l-4 border-purple-500 p-4 rounded-lg">
+          <p className="text-xs text-gray-600 mb-1">Identified chord</p>
+          <p className="text-3xl font-bold text-purple-900" data-testid="builder-chord-name">
+            {bestMatch ? bestMatch.name : '—'}
+          </p>
+          {bestMatch && (
+            <p className="text-sm text-gray-700 mt-1">
+              {bestMatch.isRootless ? 'Rootless voicing' : bestMatch.inversionName}
+              {bestMatch.omitsFifth && ' · no 5th'}
+              {' · '}{bestMatch.cagedShape}-shape
+            </p>
+          )}
+          {identified.length > 1 && (
+            <p className="text-xs text-gray-600 mt-1">
+              Also: {identified.slice(1).map(c => c.name).join(', ')}
+            </p>
+          )}
+        </div>
+
+        {/* Notes and intervals per string */}
+        <div className="grid grid-cols-6 gap-1 mt-4 text-center">
+          {frets.map((fret, stringIndex) => (
+            <div key={stringIndex} className="bg-white border rounded p-1">
+              <div className="text-xs text-gray-500">{tuning[stringIndex]}</div>
+              <div className="font-mono text-sm">{fret < 0 ? 'x' : fret}</div>
+              <div className="font-semibold text-gray-800">{stringNotes[stringIndex] ?? '–'}</div>
+              <div className="text-xs text-purple-700">
+                {bestMatch && stringNotes[stringIndex] ? getIntervalLabel(bestMatch.root, stringNotes[stringIndex]!) : ''}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Validation */}
+        {validation && (
+          <div className={`mt-4 p-3 rounded text-sm ${validation.isValid ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+            {validation.message}
+          </div>
+        )}
+
+        <button
+          onClick={handleSave}
+          disabled={soundingCount < 2}
+          className="mt-4 px-4 py-2 rounded-lg bg-blue-600 text-white font-semibold hover:bg-blue-700 disabled:opacity-40"
+        >
+          Save voicing
+        </button>
+
+        {/* Saved voicings */}
+        {savedVoicings.length > 0 && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+            {savedVoicings.map((voicing, index) => (
+              <ChordDiagram key={index} voicing={voicing} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
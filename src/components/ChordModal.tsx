@@ -1,17 +1,23 @@
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
 import { ChordVoicing } from '../utils/cagedSystem';
-import { getChordNotes } from '../utils/musicTheory';
+import { getChordNotes, INVERSION_NAMES } from '../utils/musicTheory';
+import { EnhancedChordVoicing } from '../utils/cagedSystemEnhanced';
+import { JazzVoicing, groupJazzVoicingsByStringSet } from '../utils/jazzVoicings';
 import { getDatabaseStats, getVoicingCount } from '../utils/chordDatabase';
+import { getCapoChordLabel } from '../utils/capo';
 
 interface ChordModalProps {
   isOpen: boolean;
   onClose: () => void;
   chord: { note: string; quality: string };
   voicings: ChordVoicing[];
+  capo?: number; // Capo fret, chord and voicings are the fingered shape
+  jazzVoicings?: JazzVoicing[]; // Drop 2, Drop 3 and shell voicings (seventh chords)
 }
 
 // Chord diagram component (reused from main app logic)
-const ChordDiagram: React.FC<{ voicing: ChordVoicing }> = ({ voicing }) => {
+// With a capo, frets are relative to the capo (the capo acts as the nut)
+export const ChordDiagram: React.FC<{ voicing: ChordVoicing; capo?: number }> = ({ voicing, capo = 0 }) => {
   const frets = voicing.frets;
   const stringNames = ['E', 'A', 'D', 'G', 'B', 'E']; // Low to high
 
@@ -65,10 +71,20 @@ const ChordDiagram: React.FC<{ voicing: ChordVoicing }> = ({ voicing }) => {
         )}
 
         {/* Nut indicator (thick line at top if position 0) */}
-        {startFret === 0 && (
+        {startFret === 0 && capo === 0 && (
           <line x1="20" y1="20" x2="70" y2="20" stroke="#333" strokeWidth="4"/>
         )}
 
+        {/* Capo indicator (replaces the nut) */}
+        {startFret === 0 && capo > 0 && (
+          <>
+            <rect x="16" y="16" width="58" height="7" rx="3" fill="#b45309"/>
+            <text x="76" y="23" className="text-xs font-bold fill-amber-700" style={{ fontSize: '8px' }}>
+              C{capo}
+            </text>
+          </>
+        )}
+
         {/* Frets (horizontal lines) */}
         {Array.from({ length: fretSpan }, (_, i) => i).map(fret => (
           <line key={fret} x1="20" y1={20 + fret * 15} x2="70" y2={20 + fret * 15}
@@ -148,14 +164,29 @@ const ChordDiagram: React.FC<{ voicing: ChordVoicing }> = ({ voicing }) => {
       {/* Position indicator */}
       {startFret > 0 && (
         <div className="text-xs text-gray-500 mt-1">
-          Starts at fret {startFret}
+          Starts at fret {startFret}{capo > 0 && ` above capo (fret ${startFret + capo} on the neck)`}
+        </div>
+      )}
+
+      {/* Capo indicator */}
+      {capo > 0 && (
+        <div className="text-xs text-amber-700 mt-1">
+          Capo {capo}
         </div>
       )}
     </div>
   );
 };
 
-export const ChordModal: React.FC<ChordModalProps> = ({ isOpen, onClose, chord, voicings }) => {
+export const ChordModal: React.FC<ChordModalProps> = ({ isOpen, onClose, chord, voicings, capo = 0, jazzVoicings = [] }) => {
+  // Inversion filter (null = all voicings)
+  const [inversionFilter, setInversionFilter] = useState<number | null>(null);
+
+  // Reset the filter when another chord is opened
+  useEffect(() => {
+    setInversionFilter(null);
+  }, [chord.note, chord.quality]);
+
   // Handle ESC key
   useEffect(() => {
     const handleEsc = (e: KeyboardEvent) => {
@@ -199,6 +230,15 @@ export const ChordModal: React.FC<ChordModalProps> = ({ isOpen, onClose, chord,
   // Get database statistics
   const dbStats = getDatabaseStats();
 
+  // Inversion of each voicing (known for validated and custom voicings)
+  const getInversion = (voicing: ChordVoicing) => (voicing as EnhancedChordVoicing).inversion ?? null;
+  const inversionCounts = INVERSION_NAMES.map((_, inversion) =>
+    voicings.filter(v => getInversion(v) === inversion).length
+  );
+  const filteredVoicings = inversionFilter === null
+    ? voicings
+    : voicings.filter(v => getInversion(v) === inversionFilter);
+
   return (
     <div
       className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black bg-opacity-50 backdrop-blur-sm"
@@ -218,6 +258,11 @@ export const ChordModal: React.FC<ChordModalProps> = ({ isOpen, onClose, chord,
               <p className="text-sm text-gray-600 mt-1">
                 Explore {voicings.length} different voicings across the fretboard
               </p>
+              {capo > 0 && (
+                <p className="text-sm font-semibold text-amber-700 mt-1">
+                  {getCapoChordLabel(chord.note, chord.quality, capo)}
+                </p>
+              )}
             </div>
             <button
               onClick={onClose}
@@ -266,13 +311,60 @@ export const ChordModal: React.FC<ChordModalProps> = ({ isOpen, onClose, chord,
             </p>
           </div>
 
+          {/* Inversion filter */}
+          <div className="flex flex-wrap gap-2 mb-4" role="group" aria-label="Filter by inversion">
+            <button
+              onClick={() => setInversionFilter(null)}
+              className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                inversionFilter === null ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-blue-100'
+              }`}
+            >
+              All ({voicings.length})
+            </button>
+            {INVERSION_NAMES.map((name, inversion) => (
+              <button
+                key={name}
+                onClick={() => setInversionFilter(inversion)}
+                disabled={inversionCounts[inversion] === 0}
+                className={`px-3 py-1 rounded-full text-sm font-medium capitalize transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                  inversionFilter === inversion ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-blue-100'
+                }`}
+              >
+                {name} ({inversionCounts[inversion]})
+              </button>
+            ))}
+          </div>
+
           {/* Voicings grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-6">
-            {voicings.map((voicing, index) => (
-              <ChordDiagram key={index} voicing={voicing} />
+            {filteredVoicings.map((voicing, index) => (
+              <ChordDiagram key={index} voicing={voicing} capo={capo} />
             ))}
           </div>
 
+          {/* Jazz voicings grouped by string set */}
+          {jazzVoicings.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-xl font-bold text-gray-800 mb-1">Jazz Voicings</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Drop 2, Drop 3 and shell voicings for comping, grouped by string set
+              </p>
+              {groupJazzVoicingsByStringSet(jazzVoicings).map(group => (
+                <div key={group.label} className="mb-6" data-testid={`jazz-group-${group.voicingType}-${group.stringSet}`}>
+                  <h4 className="font-semibold text-purple-900 mb-2">{group.label}</h4>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {group.voicings.map((voicing, index) => (
+                      <div key={index} className="flex flex-col items-center">
+                        <ChordDiagram voicing={voicing} capo={capo} />
+                        <div className="text-xs font-mono text-gray-600 mt-1">{voicing.voiceOrder.join(' ')}</div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* Footer info */}
           <div className="mt-6 text-center text-sm text-gray-600">
             <p>
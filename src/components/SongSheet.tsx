@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { ChordDiagram } from './ChordModal';
+import { STANDARD_TUNING } from '../utils/musicTheory';
+import {
+  parseSong,
+  parseChordSymbol,
+  getSongChords,
+  getSongChordVoicings,
+  voicingToAbsoluteFrets,
+  toChordPro,
+  SongLine
+} from '../utils/chordPro';
+
+interface SongSheetProps {
+  tuning?: string[];                                                  // Open string notes, low to high
+  onPlay?: (chords: Array<{ note: string; quality: string }>) => void; // Song chords in playing order
+}
+
+const EXAMPLE_SONG = `{title: Example}
+C          Am
+Paste your song here
+F              G
+Chords over lyrics or [C]ChordPro`;
+
+/**
+ * Chord line above the lyrics, with each symbol at its column
+ */
+const getChordLine = (line: SongLine): string =>
+  line.chords.reduce((text, chord) => {
+    const start = Math.max(chord.position, text.length > 0 ? text.length + 1 : 0);
+    return text.padEnd(start) + chord.symbol;
+  }, '');
+
+/**
+ * Song sheet for pasted songs (ChordPro or chords over lyrics)
+ *
+ * Shows the lyrics with their chords and a diagram for every chord of the song.
+ * Each diagram can be switched to another voicing; the chosen voicings are
+ * exported as {define:} directives.
+ */
+export const SongSheet: React.FC<SongSheetProps> = ({ tuning = STANDARD_TUNING, onPlay }) => {
+  const [songText, setSongText] = useState(EXAMPLE_SONG);
+  const [voicingChoice, setVoicingChoice] = useState<Record<string, number>>({});
+  const [exported, setExported] = useState<string | null>(null);
+
+  const song = useMemo(() => parseSong(songText), [songText]);
+  const chords = useMemo(
+    () => getSongChords(song).map(chord => ({
+      chord,
+      voicings: getSongChordVoicings(chord, song.definitions, { tuning })
+    })),
+    [song, tuning]
+  );
+
+  const getChosenVoicing = (symbol: string) => {
+    const entry = chords.find(c => c.chord.symbol === symbol);
+    if (!entry || entry.voicings.length === 0) return null;
+    return entry.voicings[(voicingChoice[symbol] ?? 0) % entry.voicings.length];
+  };
+
+  const handleExport = () => {
+    const voicings: Record<string, number[]> = {};
+    chords.forEach(({ chord }) => {
+      const voicing = getChosenVoicing(chord.symbol);
+      if (voicing) voicings[chord.symbol] = voicingToAbsoluteFrets(voicing);
+    });
+    setExported(toChordPro(song, voicings));
+  };
+
+  const handlePlay = () => {
+    const sequence = song.lines
+      .flatMap(line => line.chords.map(chord => parseChordSymbol(chord.symbol)))
+      .filter(chord => chord.notes.length > 0)
+      .map(chord => ({ note: chord.note, quality: chord.quality }));
+    if (sequence.length > 0) onPlay?.(sequence);
+  };
+
+  return (
+    <div className="space-y-4">
+      <textarea
+        value={songText}
+        onChange={e => {
+          setSongText(e.target.value);
+          setExported(null);
+        }}
+        rows={8}
+        className="w-full font-mono text-sm border border-gray-300 rounded-lg p-3"
+        aria-label="Song text"
+      />
+
+      <div className="flex flex-wrap gap-2 justify-center">
+        <button
+          onClick={handleExport}
+          className="px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 text-white font-medium transition-colors"
+        >
+          Export ChordPro
+        </button>
+        {onPlay && (
+          <button
+            onClick={handlePlay}
+            className="px-4 py-2 rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+          >
+            Play chords
+          </button>
+        )}
+      </div>
+
+      {exported !== null && (
+        <textarea
+          value={exported}
+          readOnly
+          rows={8}
+          className="w-full font-mono text-sm border border-purple-300 bg-purple-50 rounded-lg p-3"
+          aria-label="Exported ChordPro"
+          data-testid="chordpro-export"
+        />
+      )}
+
+      {/* Song sheet */}
+      <div className="bg-gray-50 rounded-lg border border-gray-200 p-4">
+        {song.title && <h3 className="text-xl font-bold text-gray-800 text-center">{song.title}</h3>}
+        {song.artist && <p className="text-sm text-gray-600 text-center">{song.artist}</p>}
+
+        {/* Diagrams of the song's chords */}
+        <div className="flex flex-wrap justify-center gap-3 my-4" data-testid="song-chords">
+          {chords.map(({ chord, voicings }) => {
+            const voicing = getChosenVoicing(chord.symbol);
+            return (
+              <div key={chord.symbol} className="flex flex-col items-center" data-testid={`song-chord-${chord.symbol}`}>
+                <div className="text-lg font-bold text-gray-800">{chord.symbol}</div>
+                {voicing ? (
+                  <>
+                    <div className="transform scale-90">
+                      <ChordDiagram voicing={voicing} />
+                    </div>
+                    {voicings.length > 1 && (
+                      <button
+                        onClick={() => setVoicingChoice(prev => ({
+                          ...prev,
+                          [chord.symbol]: ((prev[chord.symbol] ?? 0) + 1) % voicings.length
+                        }))}
+                        className="text-xs text-purple-700 underline hover:text-purple-900"
+                      >
+                        Next voicing ({((voicingChoice[chord.symbol] ?? 0) % voicings.length) + 1}/{voicings.length})
+                      </button>
+                    )}
+                  </>
+                ) : (
+                  <div className="text-xs text-red-700 bg-red-50 border border-red-200 rounded px-2 py-1">
+                    {chord.notes.length === 0 ? 'Unknown chord' : 'No voicing found'}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Lyrics with chords */}
+        <div className="font-mono text-sm">
+          {song.lines.map((line, lineIndex) => {
+            if (line.kind === 'comment') {
+              return <div key={lineIndex} className="italic text-gray-600 mt-2">{line.text}</div>;
+            }
+            if (line.kind === 'directive') {
+              return <div key={lineIndex} className="text-xs text-gray-400">{`{${line.text}}`}</div>;
+            }
+            return (
+              <div key={lineIndex} className="mb-1">
+                {line.chords.length > 0 && (
+                  <div className="whitespace-pre font-bold text-purple-700" data-testid="song-chord-line">
+                    {getChordLine(line)}
+                  </div>
+                )}
+                <div className="whitespace-pre text-gray-800">{line.text || ' '}</div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ChordDiagram } from './ChordModal';
+import { TriadVoicing, TRIAD_STRING_SETS } from '../utils/triads';
+
+interface TriadExplorerProps {
+  triads: TriadVoicing[];                   // From generateTriads, ordered by string set
+  selectedFrets?: number[] | null;          // Absolute frets of the triad shown on the fretboard
+  onSelect?: (triad: TriadVoicing | null) => void; // Clicking the selected triad again clears it
+}
+
+/**
+ * Small diagrams of the triads of a chord, grouped by string set
+ *
+ * Each diagram shows the inversion (voice order) and the CAGED shape the
+ * triad belongs to. Clicking a diagram selects it for the fretboard overlay.
+ */
+export const TriadExplorer: React.FC<TriadExplorerProps> = ({ triads, selectedFrets = null, onSelect }) => {
+  const isSelected = (triad: TriadVoicing) =>
+    selectedFrets !== null && triad.absoluteFrets.join(',') === selectedFrets.join(',');
+
+  const stringSets = Object.keys(TRIAD_STRING_SETS).filter(stringSet =>
+    triads.some(triad => triad.stringSet === stringSet)
+  );
+
+  if (triads.length === 0) {
+    return <p className="text-sm text-gray-500 text-center">No triads in this fret range</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {stringSets.map(stringSet => (
+        <div key={stringSet} data-testid={`triad-group-${stringSet}`}>
+          <h4 className="font-semibold text-teal-900 mb-2 text-sm">Strings {stringSet}</h4>
+          <div className="flex flex-wrap gap-3">
+            {triads.filter(triad => triad.stringSet === stringSet).map(triad => (
+              <button
+                key={triad.absoluteFrets.join(',')}
+                onClick={() => onSelect?.(isSelected(triad) ? null : triad)}
+                aria-pressed={isSelected(triad)}
+                className={`flex flex-col items-center rounded-lg transform scale-90 ${
+                  isSelected(triad) ? 'ring-4 ring-teal-500' : ''
+                }`}
+                title={triad.name}
+              >
+                <ChordDiagram voicing={triad} />
+                <div className="text-xs font-mono text-gray-600 mt-1">{triad.voiceOrder.join(' ')}</div>
+                <div className={`text-xs ${triad.inCAGEDShape ? 'text-blue-700' : 'text-gray-500'}`}>
+                  {triad.inCAGEDShape ? `${triad.cagedShape} shape` : `near ${triad.cagedShape} shape`}
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
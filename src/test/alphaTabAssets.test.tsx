@@ -0,0 +1,88 @@
+/**
+ * Tests for the local alphaTab font/soundfont assets and the player's missing-asset state
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import {
+  ALPHATAB_ASSET_PATH,
+  findMissingAlphaTabAssets,
+  getAlphaTabAssetUrls
+} from '../utils/alphaTabAssets';
+import { AlphaTabPlayer } from '../components/AlphaTabPlayer';
+
+const okResponse = { ok: true, status: 200 } as Response;
+const notFound = { ok: false, status: 404 } as Response;
+
+describe('AlphaTab Assets', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Asset URLs', () => {
+    it('should serve the assets locally by default', () => {
+      expect(getAlphaTabAssetUrls()).toEqual({
+        fontDirectory: '/alphatab/font/',
+        font: '/alphatab/font/Bravura.woff2',
+        soundFont: '/alphatab/soundfont/sonivox.sf2'
+      });
+      expect(getAlphaTabAssetUrls().fontDirectory.startsWith(ALPHATAB_ASSET_PATH)).toBe(true);
+    });
+
+    it('should accept asset paths with or without a trailing slash', () => {
+      expect(getAlphaTabAssetUrls('/static/alphatab')).toEqual(getAlphaTabAssetUrls('/static/alphatab/'));
+      expect(getAlphaTabAssetUrls('https://example.com/at').soundFont).toBe(
+        'https://example.com/at/soundfont/sonivox.sf2'
+      );
+    });
+  });
+
+  describe('Missing asset detection', () => {
+    it('should report nothing when all assets load', async () => {
+      const fetchFn = vi.fn().mockResolvedValue(okResponse);
+
+      expect(await findMissingAlphaTabAssets('/alphatab/', fetchFn)).toEqual([]);
+      expect(fetchFn).toHaveBeenCalledWith('/alphatab/soundfont/sonivox.sf2', { method: 'HEAD' });
+      expect(fetchFn).toHaveBeenCalledWith('/alphatab/font/Bravura.woff2', { method: 'HEAD' });
+    });
+
+    it('should report assets with error responses', async () => {
+      const fetchFn = vi.fn((url: string) => Promise.resolve(url.endsWith('.sf2') ? notFound : okResponse));
+
+      expect(await findMissingAlphaTabAssets('/alphatab/', fetchFn as unknown as typeof fetch)).toEqual([
+        '/alphatab/soundfont/sonivox.sf2'
+      ]);
+    });
+
+    it('should report assets that cannot be fetched at all', async () => {
+      const fetchFn = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+      expect(await findMissingAlphaTabAssets('/offline/', fetchFn)).toEqual([
+        '/offline/font/Bravura.woff2',
+        '/offline/soundfont/sonivox.sf2'
+      ]);
+    });
+  });
+
+  describe('Player', () => {
+    it('should show a clear error when the assets are missing', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(notFound));
+
+      render(
+        <AlphaTabPlayer
+          chordProgression={[{ note: 'C', quality: '' }, { note: 'G', quality: '' }]}
+          onClose={() => {}}
+          assetPath="/missing-assets/"
+        />
+      );
+
+      const panel = await screen.findByTestId('alphatab-missing-assets');
+      expect(panel).toHaveTextContent('Playback assets not found');
+      expect(panel).toHaveTextContent('/missing-assets/soundfont/sonivox.sf2');
+      expect(panel).toHaveTextContent('node_modules/@coderline/alphatab/dist');
+      expect(screen.queryByText('Loading tablature...')).not.toBeInTheDocument();
+    });
+  });
+});
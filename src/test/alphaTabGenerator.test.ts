@@ -203,6 +203,24 @@ describe('AlphaTab Chord Generator', () => {
   });
 
   describe('AlphaTeX Format Validation', () => {
+    it('should write the tuning of an alternate tuning', () => {
+      const alphaTex = generateValidatedAlphaTeX([{ note: 'G', quality: '' }], { tuning: ['D', 'A', 'D', 'G', 'B', 'E'] });
+
+      // Pitches high to low, frets played in the tuning
+      expect(alphaTex).toContain('\\tuning (E4 B3 G3 D3 A2 D2)');
+      expect(alphaTex).toContain('(5.6 2.5 0.4 0.3 0.2 3.1).1');
+    });
+
+    it('should write given progression frets without voicing the chords again', () => {
+      const alphaTex = generateValidatedAlphaTeX([{ note: 'C', quality: '' }], { progressionFrets: [[8, 10, 10, 9, 8, 8]] });
+
+      expect(alphaTex).toContain('(8.6 10.5 10.4 9.3 8.2 8.1).1');
+    });
+
+    it('should not write a tuning in standard tuning', () => {
+      expect(generateValidatedAlphaTeX([{ note: 'G', quality: '' }])).not.toContain('\\tuning');
+    });
+
     it('should return valid AlphaTeX format (fret.string pattern)', () => {
       const result = getValidatedChordForAlphaTab('C', 'major');
 
@@ -0,0 +1,82 @@
+/**
+ * Tests for CAGED arpeggio shapes and their AlphaTeX export
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Note } from 'tonal';
+import {
+  ARPEGGIO_QUALITIES,
+  generateArpeggioShape,
+  generateArpeggioShapes,
+  toArpeggioQuality
+} from '../utils/arpeggios';
+import { getChordNotes, fretsToNotes } from '../utils/musicTheory';
+import { generateArpeggioAlphaTeX } from '../utils/alphaTabChordGenerator';
+import { CAGEDShapeName, CAGED_ORDER, getCAGEDPosition, isInCAGEDWindow } from '../utils/cagedPositions';
+
+describe('CAGED Arpeggios', () => {
+  it('should generate the C major A-shape arpeggio', () => {
+    const notes = generateArpeggioShape('C', 'A', 'major');
+    expect(notes.map(n => `${n.stringIndex}:${n.fret}`)).toEqual([
+      '0:3', '1:3', '2:2', '2:5', '3:5', '4:5', '5:3'
+    ]);
+    expect(notes.filter(n => n.function === 'R').map(n => n.fret)).toEqual([3, 5]);
+  });
+
+  it('should only contain chord tones with correct spelling', () => {
+    ARPEGGIO_QUALITIES.forEach(quality => {
+      const chordQuality = quality === 'major' ? '' : quality === 'minor' ? 'm' : quality;
+      const chordChromas = getChordNotes('Bb', chordQuality).map(n => Note.chroma(n));
+
+      CAGED_ORDER.forEach(shape => {
+        generateArpeggioShape('Bb', shape, quality).forEach(n => {
+          const frets = Array(6).fill(-1);
+          frets[n.stringIndex] = n.fret;
+          expect(chordChromas).toContain(Note.chroma(fretsToNotes(frets)[0]));
+          expect(getChordNotes('Bb', chordQuality)).toContain(n.note);
+        });
+      });
+    });
+  });
+
+  it('should use one or two notes per string inside the CAGED window', () => {
+    ARPEGGIO_QUALITIES.forEach(quality => {
+      const isMajorFamily = quality === 'major' || quality === '7' || quality === 'maj7';
+      Object.entries(generateArpeggioShapes('G', quality)).forEach(([shape, notes]) => {
+        const position = getCAGEDPosition('G', shape as CAGEDShapeName, isMajorFamily ? 'major' : 'minor');
+        for (let s = 0; s < 6; s++) {
+          expect(notes.filter(n => n.stringIndex === s).length).toBeLessThanOrEqual(2);
+        }
+        notes.forEach(n => expect(isInCAGEDWindow(position, n.fret)).toBe(true));
+      });
+    });
+  });
+
+  it('should contain every chord tone in seventh arpeggios', () => {
+    const notes = generateArpeggioShape('A', 'E', 'm7b5');
+    expect(new Set(notes.map(n => n.label))).toEqual(new Set(['1', 'b3', 'b5', 'b7']));
+  });
+
+  it('should map app chord qualities to arpeggio qualities', () => {
+    expect(toArpeggioQuality('')).toBe('major');
+    expect(toArpeggioQuality('m')).toBe('minor');
+    expect(toArpeggioQuality('min7')).toBe('m7');
+    expect(toArpeggioQuality('sus4')).toBeNull();
+  });
+
+  describe('AlphaTeX export', () => {
+    it('should write sequential notes up and down', () => {
+      const notes = generateArpeggioShape('C', 'A', 'major');
+      const tex = generateArpeggioAlphaTeX(notes, { title: 'C arpeggio' });
+
+      expect(tex).toContain('\\title "C arpeggio"');
+      expect(tex).toContain(':8 3.6 3.5 2.4 5.4 5.3 5.2 3.1 5.2 | 5.3 5.4 2.4 3.5 3.6');
+    });
+
+    it('should split bars by the note duration', () => {
+      const notes = Array.from({ length: 5 }, (_, i) => ({ stringIndex: i, fret: 5 }));
+      const tex = generateArpeggioAlphaTeX(notes, { duration: 4 });
+      expect(tex.split('\n')[3]).toBe(':4 5.6 5.5 5.4 5.3 | 5.2 5.3 5.4 5.5 | 5.6');
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for the CAGED position overlay (chord shapes inside scale boxes)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CAGED_ORDER,
+  CAGED_BOX_INTERVALS,
+  getCAGEDPosition,
+  getCAGEDPositionNotes,
+  isInCAGEDWindow
+} from '../utils/cagedPositions';
+import { transposeShape } from '../utils/cagedShapes';
+
+describe('CAGED Positions', () => {
+  describe('getCAGEDPosition', () => {
+    it('should use the transposed chord shape and surround it with a window', () => {
+      const position = getCAGEDPosition('C', 'E', 'major');
+      expect(position.chordFrets).toEqual(transposeShape('C', 'E', 'major'));
+      expect(position.chordFrets).toEqual([8, 10, 10, 9, 8, 8]);
+      expect(position.minFret).toBe(7);
+      expect(position.maxFret).toBe(11);
+    });
+
+    it('should not extend the window below the nut', () => {
+      const position = getCAGEDPosition('C', 'C', 'major');
+      expect(position.minFret).toBe(0);
+      expect(position.maxFret).toBe(4);
+    });
+
+    it('should place all five shapes of C major at different positions', () => {
+      const windows = CAGED_ORDER.map(shape => getCAGEDPosition('C', shape, 'major').minFret);
+      expect(new Set(windows).size).toBe(5);
+    });
+
+    it('should check window membership', () => {
+      const position = getCAGEDPosition('C', 'A', 'major');
+      expect(isInCAGEDWindow(position, position.minFret)).toBe(true);
+      expect(isInCAGEDWindow(position, position.maxFret + 1)).toBe(false);
+    });
+  });
+
+  describe('getCAGEDPositionNotes', () => {
+    it('should include every chord tone of the shape', () => {
+      const position = getCAGEDPosition('G', 'E', 'major');
+      const notes = getCAGEDPositionNotes(position, 'G', CAGED_BOX_INTERVALS.pentatonic.major);
+
+      position.chordFrets.forEach((fret, stringIndex) => {
+        if (fret < 0) return;
+        const boxNote = notes.find(n => n.stringIndex === stringIndex && n.fret === fret);
+        expect(boxNote?.isChordTone).toBe(true);
+      });
+    });
+
+    it('should only contain scale notes inside the window', () => {
+      const position = getCAGEDPosition('A', 'E', 'minor');
+      const notes = getCAGEDPositionNotes(position, 'A', CAGED_BOX_INTERVALS.pentatonic.minor);
+
+      notes.forEach(n => {
+        expect(isInCAGEDWindow(position, n.fret)).toBe(true);
+        expect(['A', 'C', 'D', 'E', 'G']).toContain(n.note);
+      });
+      expect(notes.filter(n => n.isRoot).length).toBeGreaterThanOrEqual(2);
+    });
+
+    it('should show a larger box for the diatonic scale', () => {
+      const position = getCAGEDPosition('C', 'A', 'major');
+      const pentatonic = getCAGEDPositionNotes(position, 'C', CAGED_BOX_INTERVALS.pentatonic.major);
+      const major = getCAGEDPositionNotes(position, 'C', CAGED_BOX_INTERVALS.diatonic.major);
+      expect(major.length).toBeGreaterThan(pentatonic.length);
+    });
+  });
+});
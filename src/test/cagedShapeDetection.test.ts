@@ -99,10 +99,11 @@ describe('CAGED Shape Detection (Music Theory-Based)', () => {
       }
     });
 
-    it('should detect A-shape for F major barre (fret 5)', () => {
-      // F major using A-shape at 5th fret (alternative to E-shape)
+    it('should detect A-shape for F major barre (fret 8)', () => {
+      // F major using A-shape at 8th fret (alternative to E-shape)
+      // The voicing at fret 5 with muted low E is the C-shape: [-1, 8, 7, 5, 6, 5]
       const voicings = getValidatedCAGEDVoicings('F', 'major', { maxVoicings: 15 });
-      const fBarreA = voicings.find(v => v.baseFret === 5 && v.frets[0] === -1);
+      const fBarreA = voicings.find(v => v.baseFret === 8 && v.frets[0] === -1);
 
       if (fBarreA) {
         expect(fBarreA.cagedShape).toBe('A');
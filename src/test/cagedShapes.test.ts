@@ -4,7 +4,10 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { transposeShape, CAGED_SHAPES } from '../utils/cagedShapes';
+import { Note } from 'tonal';
+import { transposeShape, CAGED_SHAPES, CAGED_QUALITIES, toCAGEDQuality } from '../utils/cagedShapes';
+import { getVoicingsByShape } from '../utils/cagedSystemEnhanced';
+import { getChordNotes, fretsToNotes } from '../utils/musicTheory';
 
 describe('CAGED Shapes Transposition', () => {
   /**
@@ -113,4 +116,66 @@ describe('CAGED Shapes Transposition', () => {
       });
     });
   });
+
+  /**
+   * Test 5: C- und G-Shape für tiefe Roots
+   *
+   * A-Dur im C-Shape würde unter den Sattel rutschen (Offset -3)
+   * und wird deshalb eine Oktave höher gegriffen
+   */
+  it('should move shapes below the nut up an octave', () => {
+    expect(transposeShape('A', 'C', 'major')).toEqual([-1, 12, 11, 9, 10, 9]);
+    expect(transposeShape('E', 'G', 'minor')).toEqual([12, 10, 9, 9, 12, 12]);
+  });
+});
+
+describe('CAGED Shapes für erweiterte Akkorde', () => {
+  it('should map app qualities to CAGED qualities', () => {
+    expect(toCAGEDQuality('')).toBe('major');
+    expect(toCAGEDQuality('min7')).toBe('m7');
+    expect(toCAGEDQuality('mMaj7')).toBe('mmaj7');
+    expect(toCAGEDQuality('7#5')).toBe('aug7');
+    expect(toCAGEDQuality('7#9')).toBeNull();
+  });
+
+  it('should define a template for every shape and quality', () => {
+    (['E', 'A', 'D', 'G', 'C'] as const).forEach(shape => {
+      CAGED_QUALITIES.forEach(quality => {
+        const template = CAGED_SHAPES[shape][quality];
+        expect(template.frets).toHaveLength(6);
+        // Root-Saite und Root-Bund wie im Dur-Shape
+        expect(template.rootString).toBe(CAGED_SHAPES[shape].major.rootString);
+        expect(template.frets[template.rootString]).toBe(template.rootFret);
+      });
+    });
+  });
+
+  it('should only contain chord tones with the root in the bass', () => {
+    (['E', 'A', 'D', 'G', 'C'] as const).forEach(shape => {
+      CAGED_QUALITIES.forEach(quality => {
+        const frets = transposeShape('Bb', shape, quality, { validate: false });
+        const chordChromas = getChordNotes('Bb', quality).map(n => Note.chroma(n));
+        const played = fretsToNotes(frets);
+
+        expect(Note.chroma(played[0])).toBe(Note.chroma('Bb'));
+        played.forEach(note => expect(chordChromas).toContain(Note.chroma(note)));
+      });
+    });
+  });
+
+  it('should transpose D maj7 to the E-shape', () => {
+    expect(transposeShape('D', 'E', 'maj7')).toEqual([10, 12, 11, 11, 10, 10]);
+  });
+
+  it('should give five validated shapes for every quality', () => {
+    ['C', 'F#', 'A', 'Eb'].forEach(root => {
+      CAGED_QUALITIES.forEach(quality => {
+        const byShape = getVoicingsByShape(root, quality);
+        Object.entries(byShape).forEach(([shape, voicings]) => {
+          expect(voicings.length, `${root}${quality} ${shape}-shape`).toBeGreaterThan(0);
+          voicings.forEach(v => expect(v.validated).toBe(true));
+        });
+      });
+    });
+  });
 });
@@ -0,0 +1,129 @@
+/**
+ * Tests for capo-aware chord display and transposition
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSoundingNote,
+  getShapeNote,
+  getCapoChordLabel,
+  applyCapo,
+  suggestCapoPositions,
+  suggestCapoPosition,
+  MAX_CAPO
+} from '../utils/capo';
+import { generateValidatedAlphaTeX, getValidatedChordForAlphaTab } from '../utils/alphaTabChordGenerator';
+import { getChordVoicingsFromDB, sortByDifficulty, getVoicingDifficulty } from '../utils/chordDatabase';
+
+describe('Capo Utilities', () => {
+  describe('Shape vs. sounding notes', () => {
+    it('should transpose shapes up by the capo fret', () => {
+      expect(getSoundingNote('G', 2)).toBe('A');
+      expect(getSoundingNote('E', 1)).toBe('F');
+      expect(getSoundingNote('C', 0)).toBe('C');
+    });
+
+    it('should find the shape for a sounding chord', () => {
+      expect(getShapeNote('A', 2)).toBe('G');
+      expect(getShapeNote('F', 1)).toBe('E');
+      expect(getShapeNote('Bb', 3)).toBe('G');
+    });
+
+    it('should round-trip shape and sounding notes', () => {
+      ['C', 'D', 'E', 'G', 'A'].forEach(shape => {
+        for (let capo = 0; capo <= 7; capo++) {
+          expect(getShapeNote(getSoundingNote(shape, capo), capo)).toBe(shape);
+        }
+      });
+    });
+  });
+
+  describe('Labels', () => {
+    it('should build "shape vs. sounding" labels', () => {
+      expect(getCapoChordLabel('G', '', 2)).toBe('G shape, sounds as A with capo 2');
+      expect(getCapoChordLabel('E', 'm', 2)).toBe('Em shape, sounds as F#m with capo 2');
+    });
+
+    it('should return the plain chord name without capo', () => {
+      expect(getCapoChordLabel('G', '7', 0)).toBe('G7');
+    });
+  });
+
+  describe('applyCapo', () => {
+    it('should convert frets relative to the capo into neck frets', () => {
+      expect(applyCapo([3, 2, 0, 0, 0, 3], 2)).toEqual([5, 4, 2, 2, 2, 5]);
+      expect(applyCapo([-1, 3, 2, 0, 1, 0], 4)).toEqual([-1, 7, 6, 4, 5, 4]);
+    });
+  });
+
+  describe('Capo suggestions', () => {
+    it('should keep capo 0 for songs that already use open chords', () => {
+      const chords = [
+        { note: 'G', quality: '' },
+        { note: 'C', quality: '' },
+        { note: 'D', quality: '' }
+      ];
+      expect(suggestCapoPosition(chords).capo).toBe(0);
+    });
+
+    it('should suggest a capo for songs in flat keys', () => {
+      const chords = [
+        { note: 'Bb', quality: '' },
+        { note: 'Eb', quality: '' },
+        { note: 'F', quality: '' }
+      ];
+      const best = suggestCapoPosition(chords);
+      const noCapo = suggestCapoPositions(chords).find(s => s.capo === 0)!;
+
+      expect(best.capo).toBeGreaterThan(0);
+      expect(best.difficulty).toBeLessThan(noCapo.difficulty);
+      expect(best.shapeChords).toHaveLength(3);
+    });
+
+    it('should rank every capo position up to the limit', () => {
+      const suggestions = suggestCapoPositions([{ note: 'F', quality: '' }], 5);
+
+      expect(suggestions).toHaveLength(6);
+      for (let i = 1; i < suggestions.length; i++) {
+        expect(suggestions[i].difficulty).toBeGreaterThanOrEqual(suggestions[i - 1].difficulty);
+      }
+    });
+
+    it('should consider every capo position offered in the app by default', () => {
+      const capos = suggestCapoPositions([{ note: 'F', quality: '' }]).map(s => s.capo).sort((a, b) => a - b);
+
+      expect(capos).toEqual(Array.from({ length: MAX_CAPO + 1 }, (_, capo) => capo));
+    });
+
+    it('should score shapes with the same difficulty as sortByDifficulty', () => {
+      const chords = [{ note: 'Bb', quality: '' }, { note: 'F', quality: '' }];
+      const noCapo = suggestCapoPositions(chords).find(s => s.capo === 0)!;
+      const expected = chords.reduce(
+        (total, chord) => total + getVoicingDifficulty(sortByDifficulty(getChordVoicingsFromDB(chord.note, chord.quality))[0]),
+        0
+      );
+
+      expect(noCapo.difficulty).toBe(expected);
+    });
+
+    it('should resolve sharp keys in the chord database', () => {
+      expect(getChordVoicingsFromDB('D#', 'major').length).toBeGreaterThan(0);
+      expect(getChordVoicingsFromDB('A#', 'minor').length).toBeGreaterThan(0);
+    });
+  });
+});
+
+describe('Capo-aware AlphaTeX', () => {
+  it('should not add a capo directive without capo', () => {
+    const alphaTex = generateValidatedAlphaTeX([{ note: 'A', quality: '' }]);
+    expect(alphaTex).not.toContain('\\capo');
+  });
+
+  it('should add a capo directive and voice the shape chords', () => {
+    const alphaTex = generateValidatedAlphaTeX([{ note: 'A', quality: '' }], { capo: 2 });
+
+    expect(alphaTex).toContain('\\capo 2');
+    // A with capo 2 is played as a G shape
+    expect(alphaTex).toContain(getValidatedChordForAlphaTab('G', ''));
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ChordBuilder } from '../components/ChordBuilder';
+
+// Clicks a fret on the builder diagram (string 6 = low E)
+const clickFret = (string: number, fret: number) =>
+  fireEvent.click(screen.getByLabelText(`String ${string} fret ${fret}`));
+
+const toggleOpen = (string: number) =>
+  fireEvent.click(screen.getByLabelText(`String ${string} open or muted`));
+
+describe('ChordBuilder Component Tests', () => {
+  it('should start with all strings muted and no chord', () => {
+    render(<ChordBuilder />);
+    expect(screen.getByTestId('builder-chord-name')).toHaveTextContent('—');
+    expect(screen.getByText('Save voicing')).toBeDisabled();
+  });
+
+  it('should identify an open C major chord while building it', () => {
+    render(<ChordBuilder />);
+    clickFret(5, 3);
+    clickFret(4, 2);
+    toggleOpen(3);
+    clickFret(2, 1);
+    toggleOpen(1);
+
+    expect(screen.getByTestId('builder-chord-name')).toHaveTextContent(/^C$/);
+    expect(screen.getByText('root position · C-shape')).toBeInTheDocument();
+    expect(screen.getByText(/Valid C voicing/)).toBeInTheDocument();
+  });
+
+  it('should mute a string when its fret is clicked again', () => {
+    render(<ChordBuilder />);
+    clickFret(5, 3);
+    clickFret(4, 2);
+    toggleOpen(3);
+    clickFret(4, 2);
+
+    // C and G only: power chord
+    expect(screen.getByTestId('builder-chord-name')).toHaveTextContent('C5');
+  });
+
+  it('should add a barre across the higher strings', () => {
+    render(<ChordBuilder />);
+    [6, 5, 4, 3, 2, 1].forEach(toggleOpen);
+    fireEvent.click(screen.getByText('▶'));
+    fireEvent.click(screen.getByText('Add barre'));
+    clickFret(6, 3);
+    clickFret(5, 5);
+    clickFret(4, 5);
+
+    expect(screen.getByTestId('builder-chord-name')).toHaveTextContent(/^Gm$/);
+    expect(screen.getByText('Remove barre')).toBeInTheDocument();
+  });
+
+  it('should leave muted strings muted under a barre', () => {
+    render(<ChordBuilder />);
+    [4, 3, 2].forEach(toggleOpen);
+    fireEvent.click(screen.getByText('Add barre'));
+    clickFret(6, 2);
+
+    // Only D-G-B move onto fret 2: E-A-C#, an A chord over E
+    expect(screen.getByTestId('builder-chord-name')).toHaveTextContent(/^A\/E$/);
+  });
+
+  it('should restore the strings under the barre when it is removed', () => {
+    render(<ChordBuilder />);
+    [6, 5, 4, 3, 2, 1].forEach(toggleOpen);
+    fireEvent.click(screen.getByText('Add barre'));
+    clickFret(6, 1);
+    clickFret(5, 3);
+    clickFret(4, 3);
+    clickFret(3, 2);
+    expect(screen.getByTestId('builder-chord-name')).toHaveTextContent(/^F$/);
+
+    // Strings left on the barre go back to open: 0-3-3-2-0-0
+    fireEvent.click(screen.getByText('Remove barre'));
+    expect(screen.queryByText('Remove barre')).not.toBeInTheDocument();
+    expect(screen.getByTestId('builder-chord-name')).not.toHaveTextContent(/^F$/);
+    clickFret(6, 1);
+    clickFret(2, 1);
+    clickFret(1, 1);
+    expect(screen.getByTestId('builder-chord-name')).toHaveTextContent(/^F$/);
+  });
+
+  it('should save voicings as chord voicings with fingers', () => {
+    const onSave = vi.fn();
+    render(<ChordBuilder onSave={onSave} />);
+
+    fireEvent.click(screen.getByLabelText('Finger 3'));
+    clickFret(5, 3);
+    fireEvent.click(screen.getByLabelText('Finger 2'));
+    clickFret(4, 2);
+    toggleOpen(3);
+    fireEvent.click(screen.getByLabelText('Finger 1'));
+    clickFret(2, 1);
+    toggleOpen(1);
+    fireEvent.click(screen.getByText('Save voicing'));
+
+    expect(onSave).toHaveBeenCalledTimes(1);
+    const voicing = onSave.mock.calls[0][0];
+    expect(voicing.frets).toEqual([-1, 3, 2, 0, 1, 0]);
+    expect(voicing.fingers).toEqual([0, 3, 2, 0, 1, 0]);
+    expect(voicing.cagedShape).toBe('C');
+    expect(voicing.validated).toBe(true);
+
+    // Saved voicing is shown as a chord diagram
+    expect(screen.getByText('C (Custom)')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Tests for the reverse chord finder (chord names from fret input)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { identifyChord, createCustomVoicing } from '../utils/chordIdentification';
+import { toAbsoluteFrets } from '../utils/chordDatabase';
+
+describe('Chord Identification', () => {
+  it('should identify open chords in root position', () => {
+    expect(identifyChord([-1, 3, 2, 0, 1, 0])[0]).toMatchObject({
+      name: 'C',
+      root: 'C',
+      quality: '',
+      inversion: 0,
+      inversionName: 'root position',
+      isSlash: false,
+      cagedShape: 'C'
+    });
+    expect(identifyChord([-1, 0, 2, 2, 1, 0])[0].name).toBe('Am');
+    expect(identifyChord([3, 2, 0, 0, 0, 3])[0].cagedShape).toBe('G');
+  });
+
+  it('should identify barre chords', () => {
+    expect(identifyChord([-1, 3, 5, 3, 5, 3])[0].name).toBe('C7');
+    expect(identifyChord([3, 5, 5, 3, 3, 3])[0].name).toBe('Gm');
+    expect(identifyChord([-1, 3, 2, 3, 3, 3])[0].name).toBe('C9');
+  });
+
+  it('should name slash chords with their inversion', () => {
+    const [cOverE] = identifyChord([0, 3, 2, 0, 1, 0]);
+    expect(cOverE.name).toBe('C/E');
+    expect(cOverE.bassNote).toBe('E');
+    expect(cOverE.isSlash).toBe(true);
+    expect(cOverE.inversion).toBe(1);
+    expect(cOverE.inversionName).toBe('first inversion');
+
+    expect(identifyChord([2, -1, 0, 2, 3, 2])[0].name).toBe('D/F#');
+    expect(identifyChord([3, 3, 2, 0, 1, 0])[0]).toMatchObject({ name: 'C/G', inversion: 2 });
+    expect(identifyChord([-1, 1, 2, 0, 1, -1])[0]).toMatchObject({ name: 'C7/Bb', inversion: 3 });
+  });
+
+  it('should identify voicings without the 5th', () => {
+    const [cmaj7] = identifyChord([-1, 3, -1, 4, 5, -1]);
+    expect(cmaj7.name).toBe('Cmaj7');
+    expect(cmaj7.omitsFifth).toBe(true);
+    expect(identifyChord([-1, 3, 1, 3, 4, -1])[0].name).toBe('Cm7');
+  });
+
+  it('should offer rootless interpretations below the played-root names', () => {
+    const results = identifyChord([-1, -1, 2, 3, 3, 3]);
+    expect(results[0].name).toBe('Em7b5');
+
+    const rootless = results.find(c => c.isRootless && c.name === 'C9');
+    expect(rootless).toBeDefined();
+    expect(rootless!.bassNote).toBe('E');
+    expect(rootless!.score).toBeGreaterThan(results[0].score);
+
+    expect(identifyChord([-1, -1, 2, 3, 3, 3], undefined, { includeRootless: false }).some(c => c.isRootless)).toBe(false);
+  });
+
+  it('should rank results and respect maxResults', () => {
+    const results = identifyChord([-1, 2, 3, 1, 3, -1], undefined, { maxResults: 3 });
+    expect(results).toHaveLength(3);
+    results.slice(1).forEach((r, i) => expect(r.score).toBeGreaterThanOrEqual(results[i].score));
+  });
+
+  it('should use the tuning', () => {
+    const openG = ['D', 'G', 'D', 'G', 'B', 'D'];
+    expect(identifyChord([0, 0, 0, 0, 0, 0], openG)[0].name).toBe('G/D');
+    expect(identifyChord([0, 0, 0, 0, 0, 0], openG, { maxResults: 1 })[0].notes).toEqual(['D', 'G', 'B']);
+  });
+
+  it('should return nothing for a single note or muted strings', () => {
+    expect(identifyChord([-1, -1, -1, -1, -1, -1])).toEqual([]);
+    expect(identifyChord([-1, 3, -1, 5, -1, -1])).toEqual([]);
+  });
+
+  describe('createCustomVoicing', () => {
+    it('should convert fret input to a chord voicing with baseFret', () => {
+      const voicing = createCustomVoicing([-1, 3, 5, 5, 5, 3], { fingers: [0, 1, 3, 3, 3, 1], barreFret: 3 });
+      expect(voicing.name).toBe('C (Custom)');
+      expect(voicing.baseFret).toBe(3);
+      expect(voicing.barrePositions).toEqual([1]);
+      expect(voicing.fingers).toEqual([0, 1, 3, 3, 3, 1]);
+      expect(voicing.validated).toBe(true);
+      expect(toAbsoluteFrets({ frets: voicing.frets, fingers: [], barres: [], baseFret: voicing.baseFret, midi: [] }))
+        .toEqual([-1, 3, 5, 5, 5, 3]);
+    });
+
+    it('should validate against a given chord', () => {
+      expect(createCustomVoicing([-1, 3, 2, 0, 1, 0], { root: 'A', quality: 'm' }).validated).toBe(false);
+      expect(createCustomVoicing([-1, 0, 2, 2, 1, 0], { root: 'A', quality: 'm' }).validated).toBe(true);
+    });
+
+    it('should keep unidentified input unvalidated', () => {
+      const voicing = createCustomVoicing([-1, -1, -1, -1, -1, 3]);
+      expect(voicing.root).toBe('');
+      expect(voicing.validated).toBe(false);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { ChordModal } from '../components/ChordModal';
 import { generateCAGEDVoicings } from '../utils/cagedSystem';
+import { getJazzVoicings } from '../utils/jazzVoicings';
 
 describe('ChordModal Component Tests', () => {
   const mockChord = { note: 'C', quality: '' };
@@ -571,4 +572,53 @@ describe('ChordModal Component Tests', () => {
       });
     });
   });
+
+  describe('Capo', () => {
+    it('should show the shape vs. sounding label with a capo', () => {
+      render(
+        <ChordModal
+          isOpen={true}
+          onClose={mockOnClose}
+          chord={{ note: 'G', quality: '' }}
+          voicings={generateCAGEDVoicings('G', '')}
+          capo={2}
+        />
+      );
+
+      expect(screen.getByText('G shape, sounds as A with capo 2')).toBeInTheDocument();
+      expect(screen.getAllByText('Capo 2').length).toBeGreaterThan(0);
+    });
+
+    it('should not show capo information without a capo', () => {
+      render(
+        <ChordModal
+          isOpen={true}
+          onClose={mockOnClose}
+          chord={mockChord}
+          voicings={mockVoicings}
+        />
+      );
+
+      expect(screen.queryByText(/with capo/i)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('Jazz voicings', () => {
+    it('should group jazz voicings by string set', () => {
+      render(
+        <ChordModal
+          isOpen={true}
+          onClose={mockOnClose}
+          chord={{ note: 'C', quality: 'maj7' }}
+          voicings={[]}
+          jazzVoicings={getJazzVoicings('C', 'maj7')}
+        />
+      );
+
+      expect(screen.getByText('Jazz Voicings')).toBeInTheDocument();
+      expect(screen.getByText('Drop 2 · strings 2-5')).toBeInTheDocument();
+      expect(screen.getByText('Drop 3 · strings 1-5')).toBeInTheDocument();
+      expect(screen.getByTestId('jazz-group-drop2-1-4').querySelectorAll('svg')).toHaveLength(4);
+    });
+  });
 });
@@ -0,0 +1,216 @@
+/**
+ * Tests for ChordPro / chords-over-lyrics import and export and the song sheet
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import {
+  parseChordSymbol,
+  parseSong,
+  getSongChords,
+  getSongChordVoicings,
+  voicingToAbsoluteFrets,
+  toChordPro
+} from '../utils/chordPro';
+import { SongSheet } from '../components/SongSheet';
+import { TUNING_PRESETS } from '../utils/tunings';
+
+const CHORDS_OVER_LYRICS = `Em7        G
+Today is gonna be the day
+        Dsus4          A7sus4
+That they're gonna throw it back to you`;
+
+const CHORDPRO = `{title: Wonderwall}
+{artist: Oasis}
+{define: Em7 base-fret 1 frets 0 2 2 0 3 3}
+{start_of_chorus}
+[C]And all the [D]roads we [Em]have to walk
+{end_of_chorus}
+{comment: Bridge}
+[Bm7]    [D/F#]
+
+Plain lyric line`;
+
+describe('ChordPro', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('Chord symbols', () => {
+    it('should resolve common spellings to app qualities', () => {
+      expect(parseChordSymbol('F#min7')).toEqual({
+        symbol: 'F#min7', note: 'F#', quality: 'm7', suffix: 'm7', notes: ['F#', 'A', 'C#', 'E']
+      });
+      expect(parseChordSymbol('CM7').quality).toBe('maj7');
+      expect(parseChordSymbol('C-7').quality).toBe('m7');
+      expect(parseChordSymbol('Bø').quality).toBe('m7b5');
+      expect(parseChordSymbol('C+').quality).toBe('aug');
+      expect(parseChordSymbol('Gsus').suffix).toBe('sus4');
+      expect(parseChordSymbol('Am').suffix).toBe('minor');
+    });
+
+    it('should keep slash basses', () => {
+      const chord = parseChordSymbol('D/F#');
+      expect(chord.quality).toBe('/F#');
+      expect(chord.notes[0]).toBe('F#');
+      expect(parseChordSymbol('Amin/G').quality).toBe('m/G');
+    });
+
+    it('should leave unknown symbols unresolved', () => {
+      expect(parseChordSymbol('N.C.').notes).toEqual([]);
+      expect(parseChordSymbol('Hm').notes).toEqual([]);
+    });
+  });
+
+  describe('Import', () => {
+    it('should read chords over lyrics with their columns', () => {
+      const song = parseSong(CHORDS_OVER_LYRICS);
+
+      expect(song.lines).toEqual([
+        {
+          kind: 'lyrics',
+          text: 'Today is gonna be the day',
+          chords: [{ position: 0, symbol: 'Em7' }, { position: 11, symbol: 'G' }]
+        },
+        {
+          kind: 'lyrics',
+          text: "That they're gonna throw it back to you",
+          chords: [{ position: 8, symbol: 'Dsus4' }, { position: 23, symbol: 'A7sus4' }]
+        }
+      ]);
+    });
+
+    it('should read ChordPro chords, directives and definitions', () => {
+      const song = parseSong(CHORDPRO);
+
+      expect(song.title).toBe('Wonderwall');
+      expect(song.artist).toBe('Oasis');
+      expect(song.definitions).toEqual({ Em7: [0, 2, 2, 0, 3, 3] });
+      expect(song.lines[0]).toEqual({ kind: 'directive', text: 'start_of_chorus', chords: [] });
+      expect(song.lines[1]).toEqual({
+        kind: 'lyrics',
+        text: 'And all the roads we have to walk',
+        chords: [{ position: 0, symbol: 'C' }, { position: 12, symbol: 'D' }, { position: 21, symbol: 'Em' }]
+      });
+      expect(song.lines[3]).toEqual({ kind: 'comment', text: 'Bridge', chords: [] });
+      expect(song.lines[4].chords.map(c => c.symbol)).toEqual(['Bm7', 'D/F#']);
+    });
+
+    it('should convert base-fret definitions to absolute frets', () => {
+      const song = parseSong('{define: Bm base-fret 2 frets x 1 3 3 2 1}');
+      expect(song.definitions.Bm).toEqual([-1, 2, 4, 4, 3, 2]);
+    });
+
+    it('should list every chord once, in order of appearance', () => {
+      expect(getSongChords(parseSong(CHORDPRO)).map(c => c.symbol)).toEqual(['C', 'D', 'Em', 'Bm7', 'D/F#', 'Em7']);
+    });
+  });
+
+  describe('Voicings', () => {
+    it('should voice song chords with validated CAGED voicings', () => {
+      getSongChords(parseSong(CHORDS_OVER_LYRICS)).forEach(chord => {
+        const voicings = getSongChordVoicings(chord);
+        expect(voicings.length).toBeGreaterThan(0);
+        expect(voicings.every(v => v.validated)).toBe(true);
+      });
+    });
+
+    it('should offer the song definition first', () => {
+      const song = parseSong(CHORDPRO);
+      const voicings = getSongChordVoicings(parseChordSymbol('Em7'), song.definitions);
+
+      expect(voicingToAbsoluteFrets(voicings[0])).toEqual([0, 2, 2, 0, 3, 3]);
+      expect(voicings[0].validated).toBe(true);
+    });
+
+    it('should voice chords in other tunings', () => {
+      const tuning = TUNING_PRESETS.dropD.notes;
+      const voicings = getSongChordVoicings(parseChordSymbol('D'), {}, { tuning });
+      expect(voicings[0].validated).toBe(true);
+    });
+  });
+
+  describe('Export', () => {
+    it('should write chords into the lyrics and definitions for the chosen voicings', () => {
+      const chordPro = toChordPro(parseSong(CHORDS_OVER_LYRICS), { G: [3, 2, 0, 0, 0, 3], D: [-1, 5, 7, 7, 7, 5] });
+
+      expect(chordPro).toBe([
+        '{define: G base-fret 1 frets 3 2 0 0 0 3}',
+        '{define: D base-fret 5 frets x 1 3 3 3 1}',
+        '[Em7]Today is go[G]nna be the day',
+        "That the[Dsus4]y're gonna thro[A7sus4]w it back to you"
+      ].join('\n'));
+    });
+
+    it.each([['chords over lyrics', CHORDS_OVER_LYRICS], ['ChordPro', CHORDPRO]])(
+      'should round-trip %s with its voicings',
+      (_, text) => {
+        const song = parseSong(text);
+        const voicings = Object.fromEntries(getSongChords(song).flatMap(chord => {
+          const voicing = getSongChordVoicings(chord, song.definitions)[0];
+          return voicing ? [[chord.symbol, voicingToAbsoluteFrets(voicing)]] : [];
+        }));
+
+        const reimported = parseSong(toChordPro(song, voicings));
+
+        expect(reimported.title).toBe(song.title);
+        expect(reimported.artist).toBe(song.artist);
+        expect(reimported.lines).toEqual(song.lines);
+        expect(reimported.definitions).toEqual(voicings);
+        expect(toChordPro(reimported, reimported.definitions)).toBe(toChordPro(song, voicings));
+      }
+    );
+  });
+
+  describe('Song sheet', () => {
+    const paste = (text: string) => fireEvent.change(screen.getByLabelText('Song text'), { target: { value: text } });
+
+    it('should show the lyrics with chords and a diagram per chord', () => {
+      render(<SongSheet />);
+      paste(CHORDPRO);
+
+      expect(screen.getByText('Wonderwall')).toBeInTheDocument();
+      expect(screen.getByText('Bridge')).toBeInTheDocument();
+      expect(screen.getAllByTestId('song-chord-line')[0]).toHaveTextContent('C           D        Em', {
+        normalizeWhitespace: false
+      });
+      expect(within(screen.getByTestId('song-chord-Em7')).getByText('0-2-2-0-3-3')).toBeInTheDocument();
+      expect(within(screen.getByTestId('song-chord-C')).getByText('x-3-2-0-1-0')).toBeInTheDocument();
+    });
+
+    it('should mark unknown chords', () => {
+      render(<SongSheet />);
+      paste('[C]Hello [Hm]world');
+
+      expect(within(screen.getByTestId('song-chord-Hm')).getByText('Unknown chord')).toBeInTheDocument();
+    });
+
+    it('should export the chosen voicings', () => {
+      render(<SongSheet />);
+      paste('[C]Hello');
+
+      fireEvent.click(within(screen.getByTestId('song-chord-C')).getByText(/Next voicing/));
+      const chosen = within(screen.getByTestId('song-chord-C')).getByText(/^[x\d]+(-[x\d]+){5}$/).textContent!;
+      fireEvent.click(screen.getByText('Export ChordPro'));
+
+      const exported = (screen.getByTestId('chordpro-export') as HTMLTextAreaElement).value;
+      expect(exported).toContain('[C]Hello');
+      expect(parseSong(exported).definitions.C.map(f => (f === -1 ? 'x' : f)).join('-')).toBe(chosen);
+      expect(chosen).not.toBe('x-3-2-0-1-0');
+    });
+
+    it('should play the song chords in order', () => {
+      const onPlay = vi.fn();
+      render(<SongSheet onPlay={onPlay} />);
+      paste(CHORDS_OVER_LYRICS);
+      fireEvent.click(screen.getByText('Play chords'));
+
+      expect(onPlay).toHaveBeenCalledWith([
+        { note: 'E', quality: 'm7' },
+        { note: 'G', quality: '' },
+        { note: 'D', quality: 'sus4' },
+        { note: 'A', quality: '7sus4' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for the fingerpicking pattern engine (Travis, p-i-m-a) and picked playback
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import {
+  parsePickingPattern,
+  getPickingStrings,
+  pickChordToAlphaTeX,
+  getPickingPattern,
+  PICKING_PATTERNS
+} from '../utils/fingerpicking';
+import { TIME_SIGNATURES, DEFAULT_RHYTHM } from '../utils/strumming';
+import { generateValidatedAlphaTeX } from '../utils/alphaTabChordGenerator';
+import { toAbsoluteFrets, getChordVoicingsFromDB } from '../utils/chordDatabase';
+import { AlphaTabPlayer } from '../components/AlphaTabPlayer';
+
+const C_MAJOR = [-1, 3, 2, 0, 1, 0];
+
+// Single notes of an AlphaTeX bar: fret, string, right-hand finger and note value
+const pickedNotes = (bar: string) =>
+  [...bar.matchAll(/(\d+)\.(\d)\{rf (\d)\}\.(\d+)/g)].map(([, fret, string, finger, value]) => ({
+    fret: Number(fret),
+    string: Number(string),
+    finger: Number(finger),
+    value: Number(value)
+  }));
+
+describe('Fingerpicking', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('Patterns', () => {
+    it('should parse thumb, alternate bass, fingers, holds and rests', () => {
+      expect(parsePickingPattern("p p' i m a - r")).toEqual(['bass', 'alternateBass', 'i', 'm', 'a', 'hold', 'rest']);
+      expect(() => parsePickingPattern('p x')).toThrow('Unknown picking symbol: x');
+    });
+
+    it('should find the presets', () => {
+      expect(getPickingPattern('travis')?.name).toBe('Travis alternating bass');
+      expect(getPickingPattern('pima')?.steps).toEqual(['bass', 'i', 'm', 'a', 'm', 'i']);
+      expect(getPickingPattern('unknown')).toBeNull();
+    });
+  });
+
+  describe('Right-hand strings', () => {
+    it('should give the thumb the two lowest strings and i-m-a the highest three', () => {
+      const strings = getPickingStrings(C_MAJOR)!;
+
+      expect(strings.bass).toEqual({ stringIndex: 1, fret: 3, finger: 'p' });
+      expect(strings.alternateBass).toEqual({ stringIndex: 2, fret: 2, finger: 'p' });
+      expect([strings.i.stringIndex, strings.m.stringIndex, strings.a.stringIndex]).toEqual([3, 4, 5]);
+    });
+
+    it('should share strings on small voicings', () => {
+      // D major: D-G-B-E, only two strings above the thumb
+      const strings = getPickingStrings([-1, -1, 0, 2, 3, 2])!;
+
+      expect(strings.a.stringIndex).toBe(5);
+      expect(strings.m.stringIndex).toBe(4);
+      expect(strings.i.stringIndex).toBe(4);
+    });
+
+    it('should return null without played strings', () => {
+      expect(getPickingStrings([-1, -1, -1, -1, -1, -1])).toBeNull();
+    });
+  });
+
+  describe('AlphaTeX', () => {
+    it('should pick the Travis pattern with alternating bass', () => {
+      expect(pickChordToAlphaTeX(C_MAJOR, getPickingPattern('travis')!)).toBe(
+        '3.5{rf 1}.8 1.2{rf 3}.8 2.4{rf 1}.8 0.3{rf 2}.8 3.5{rf 1}.8 1.2{rf 3}.8 2.4{rf 1}.8 0.3{rf 2}.8'
+      );
+    });
+
+    it('should pick p-i-m-a upwards from the bass', () => {
+      const notes = pickedNotes(pickChordToAlphaTeX(C_MAJOR, getPickingPattern('pima')!));
+
+      expect(notes.slice(0, 4).map(n => n.finger)).toEqual([1, 2, 3, 4]);
+      expect(notes.slice(0, 4).map(n => n.string)).toEqual([5, 3, 2, 1]);
+    });
+
+    it('should play single notes from the voicing', () => {
+      const frets = toAbsoluteFrets(getChordVoicingsFromDB('G', '')[0]);
+
+      PICKING_PATTERNS.forEach(pattern => {
+        pickedNotes(pickChordToAlphaTeX(frets, pattern)).forEach(note => {
+          expect(frets[6 - note.string]).toBe(note.fret);
+        });
+      });
+    });
+
+    it.each(PICKING_PATTERNS.flatMap(pattern => TIME_SIGNATURES.map(ts => [pattern.id, ts] as const)))(
+      'should fill the bar with %s in %o',
+      (id, timeSignature) => {
+        const pattern = getPickingPattern(id)!;
+        const notes = pickedNotes(pickChordToAlphaTeX(C_MAJOR, pattern, timeSignature));
+        const length = notes.reduce((sum, note) => sum + 1 / note.value, 0);
+
+        expect(length).toBeCloseTo(timeSignature.numerator / timeSignature.denominator);
+      }
+    );
+
+    it('should let held notes ring and rest where asked', () => {
+      const pattern = { id: 'slow', name: 'Slow', subdivision: 8 as const, steps: parsePickingPattern('p - - - r a - -') };
+
+      expect(pickChordToAlphaTeX(C_MAJOR, pattern)).toBe('3.5{rf 1}.2 r.8 0.1{rf 4}.4{d}');
+    });
+
+    it('should rest through a bar without played strings', () => {
+      expect(pickChordToAlphaTeX([-1, -1, -1, -1, -1, -1], getPickingPattern('travis')!)).toBe('r.1');
+    });
+
+    it('should pick the progression instead of strumming it', () => {
+      const alphaTex = generateValidatedAlphaTeX(
+        [{ note: 'C', quality: '' }, { note: 'G', quality: '' }],
+        { pickingPattern: getPickingPattern('travis'), tempo: 90 }
+      );
+
+      expect(alphaTex).toContain('\\tempo 90');
+      expect(alphaTex).toContain('3.5{rf 1}.8 1.2{rf 3}.8');
+      expect(alphaTex).not.toMatch(/\(.*\)/);
+    });
+  });
+
+  describe('Player', () => {
+    it('should switch between strummed and picked playback', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+
+      render(
+        <AlphaTabPlayer
+          chordProgression={[{ note: 'C', quality: '' }, { note: 'G', quality: '' }]}
+          onClose={() => {}}
+          rhythm={{ ...DEFAULT_RHYTHM, pickingPattern: getPickingPattern('pima') }}
+        />
+      );
+      await screen.findByTestId('alphatab-missing-assets');
+
+      expect(screen.getByRole('button', { name: 'Picked' })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByText(/p-i-m-a arpeggio · 80 BPM · 4\/4/)).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Strummed' }));
+      expect(screen.getByText(/Block chords · 80 BPM/)).toBeInTheDocument();
+      expect(screen.queryByLabelText('Picking pattern')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Picked' }));
+      fireEvent.change(screen.getByLabelText('Picking pattern'), { target: { value: 'travis' } });
+      expect(screen.getByText(/Travis alternating bass · 80 BPM/)).toBeInTheDocument();
+    });
+  });
+});
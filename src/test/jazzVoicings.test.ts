@@ -0,0 +1,182 @@
+/**
+ * Tests for Drop 2, Drop 3 and shell voicings
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  generateDrop2Voicings,
+  generateDrop3Voicings,
+  generateShellVoicings,
+  getJazzVoicings,
+  groupJazzVoicingsByStringSet,
+  isSeventhChord,
+  SEVENTH_CHORD_QUALITIES
+} from '../utils/jazzVoicings';
+import { toAbsoluteFrets } from '../utils/chordDatabase';
+import { fretsToNotes, getChordNotes, getVoicingInversion } from '../utils/musicTheory';
+import { TUNING_PRESETS } from '../utils/tunings';
+
+// Sounding MIDI pitches (standard tuning), low to high, muted strings skipped
+const STANDARD_OPEN_MIDI = [40, 45, 50, 55, 59, 64];
+const toPitches = (frets: number[]) =>
+  frets.flatMap((fret, i) => (fret === -1 ? [] : [STANDARD_OPEN_MIDI[i] + fret]));
+
+const ROOTS = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+const absolute = (voicing: { frets: number[]; baseFret: number }) =>
+  toAbsoluteFrets({ frets: voicing.frets, baseFret: voicing.baseFret, fingers: [], barres: [], midi: [] });
+
+describe('Jazz Voicings', () => {
+  describe('Drop 2', () => {
+    it('should build the Cmaj7 root position voicing on strings 2-5', () => {
+      const voicing = generateDrop2Voicings('C', 'maj7').find(v => v.stringSet === '2-5' && v.inversion === 0);
+
+      expect(voicing).toBeDefined();
+      expect(absolute(voicing!)).toEqual([-1, 3, 5, 4, 5, -1]);
+      expect(voicing!.voiceOrder).toEqual(['R', '5', '7', '3']);
+    });
+
+    it('should drop the second-highest voice of each close position', () => {
+      // Close position G7 (root position): G B D F => Drop 2: D G B F
+      const voicing = generateDrop2Voicings('G', '7').find(v => v.inversion === 2 && v.stringSet === '1-4');
+      expect(voicing!.voiceOrder).toEqual(['5', 'R', '3', 'b7']);
+    });
+
+    it.each(SEVENTH_CHORD_QUALITIES)('should cover all four inversions on every string set for every root (%s)', quality => {
+      ROOTS.forEach(root => {
+        const voicings = generateDrop2Voicings(root, quality);
+
+        ['3-6', '2-5', '1-4'].forEach(stringSet => {
+          const inversions = voicings.filter(v => v.stringSet === stringSet).map(v => v.inversion);
+          expect(inversions, `${root}${quality} on ${stringSet}`).toEqual([0, 1, 2, 3]);
+        });
+      });
+    });
+
+    it('should use open strings only where no movable shape fits', () => {
+      // Dmaj7 first inversion on strings 3-6 has no movable shape up to fret 15
+      const voicing = generateDrop2Voicings('D', 'maj7').find(v => v.stringSet === '3-6' && v.inversion === 1)!;
+      expect(absolute(voicing)).toContain(0);
+      expect(voicing.validated).toBe(true);
+
+      generateDrop2Voicings('C', 'maj7').forEach(v => expect(absolute(v)).not.toContain(0));
+    });
+
+    it('should play four adjacent strings with ascending pitches', () => {
+      generateDrop2Voicings('Bb', 'm7').forEach(voicing => {
+        const frets = absolute(voicing);
+        const played = frets.map((f, i) => (f === -1 ? -1 : i)).filter(i => i !== -1);
+
+        expect(played).toHaveLength(4);
+        expect(played[3] - played[0]).toBe(3);
+
+        const pitches = toPitches(frets);
+        pitches.slice(1).forEach((pitch, i) => expect(pitch).toBeGreaterThan(pitches[i]));
+      });
+    });
+  });
+
+  describe('Drop 3', () => {
+    it('should skip one string', () => {
+      generateDrop3Voicings('F', '7').forEach(voicing => {
+        const frets = absolute(voicing);
+        const stringsUsed = frets.filter(f => f !== -1).length;
+        expect(stringsUsed).toBe(4);
+        expect(voicing.stringSet === '2-6' ? frets[1] : frets[2]).toBe(-1);
+      });
+    });
+
+    it('should build the Cmaj7 root position voicing on strings 2-6', () => {
+      const voicing = generateDrop3Voicings('C', 'maj7').find(v => v.stringSet === '2-6' && v.inversion === 0);
+
+      expect(absolute(voicing!)).toEqual([8, -1, 9, 9, 8, -1]);
+      expect(voicing!.voiceOrder).toEqual(['R', '7', '3', '5']);
+    });
+
+    it.each(SEVENTH_CHORD_QUALITIES)('should cover all four inversions on every string set for every root (%s)', quality => {
+      ROOTS.forEach(root => {
+        const voicings = generateDrop3Voicings(root, quality);
+
+        ['2-6', '1-5'].forEach(stringSet => {
+          const inversions = voicings.filter(v => v.stringSet === stringSet).map(v => v.inversion);
+          expect(inversions, `${root}${quality} on ${stringSet}`).toEqual([0, 1, 2, 3]);
+        });
+      });
+    });
+  });
+
+  describe('Shells', () => {
+    it('should build R-3-7 and R-7-3 shells', () => {
+      const shells = generateShellVoicings('G', '7');
+
+      expect(shells.map(v => v.voiceOrder.join('-'))).toEqual(['R-3-b7', 'R-3-b7', 'R-b7-3', 'R-b7-3']);
+      expect(absolute(shells.find(v => v.stringSet === '6-4-3')!)).toEqual([3, -1, 3, 4, -1, -1]);
+    });
+
+    it('should leave out the 5th and still be valid', () => {
+      generateShellVoicings('D', 'm7').forEach(voicing => {
+        expect(voicing.validated).toBe(true);
+        expect(voicing.analysis?.omittedNotes).toEqual(['A']);
+        expect(fretsToNotes(absolute(voicing))).toHaveLength(3);
+      });
+    });
+  });
+
+  describe('All voicings', () => {
+    it.each(SEVENTH_CHORD_QUALITIES)('should only contain validated E%s voicings in the right inversion', quality => {
+      const voicings = getJazzVoicings('E', quality);
+
+      expect(voicings).toHaveLength(24); // 12 Drop 2, 8 Drop 3, 4 shells
+      voicings.forEach(voicing => {
+        expect(voicing.validated).toBe(true);
+        expect(voicing.analysis?.nonChordTones).toEqual([]);
+        expect(getVoicingInversion(absolute(voicing), 'E', quality)).toBe(voicing.inversion);
+        expect(voicing.theoreticalNotes).toEqual(getChordNotes('E', quality));
+      });
+    });
+
+    it('should stay in the fret range', () => {
+      getJazzVoicings('Ab', '7', { minFret: 3, maxFret: 12 }).forEach(voicing => {
+        absolute(voicing).filter(f => f !== -1).forEach(fret => {
+          expect(fret).toBeGreaterThanOrEqual(3);
+          expect(fret).toBeLessThanOrEqual(12);
+        });
+      });
+    });
+
+    it('should sound the same pitches in another tuning', () => {
+      const standard = getJazzVoicings('C', '7');
+      const halfStepDown = getJazzVoicings('C', '7', { tuning: TUNING_PRESETS.halfStepDown.notes });
+
+      const standardVoicing = standard.find(v => v.voicingType === 'drop2' && v.stringSet === '2-5' && v.inversion === 0)!;
+      const tunedVoicing = halfStepDown.find(v => v.voicingType === 'drop2' && v.stringSet === '2-5' && v.inversion === 0)!;
+
+      expect(absolute(tunedVoicing)).toEqual(absolute(standardVoicing).map(f => (f === -1 ? -1 : f + 1)));
+    });
+
+    it('should not generate voicings for other chords', () => {
+      expect(isSeventhChord('C', 'maj7')).toBe(true);
+      expect(isSeventhChord('C', '6')).toBe(false);
+      expect(isSeventhChord('C', '')).toBe(false);
+      expect(getJazzVoicings('C', 'major')).toEqual([]);
+      expect(getJazzVoicings('C', '9')).toEqual([]);
+    });
+
+    it('should group voicings by family and string set', () => {
+      const groups = groupJazzVoicingsByStringSet(getJazzVoicings('C', 'm7'));
+
+      expect(groups.map(g => g.label)).toEqual([
+        'Drop 2 · strings 3-6',
+        'Drop 2 · strings 2-5',
+        'Drop 2 · strings 1-4',
+        'Drop 3 · strings 2-6',
+        'Drop 3 · strings 1-5',
+        'Shell · strings 6-5-4',
+        'Shell · strings 5-4-3',
+        'Shell · strings 6-4-3',
+        'Shell · strings 5-3-2'
+      ]);
+      expect(groups[0].voicings).toHaveLength(4);
+    });
+  });
+});
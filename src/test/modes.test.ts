@@ -0,0 +1,81 @@
+/**
+ * Tests for the seven modes of the major scale
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Note } from 'tonal';
+import {
+  ModeName,
+  MODE_NAMES,
+  MODE_PATTERNS,
+  MODE_CHARACTERISTICS,
+  getParentMajorScale,
+  getCharacteristicNote
+} from '../utils/modes';
+
+// Notes of a mode on a root, as pitch-class chromas
+function getModeChromas(root: string, mode: ModeName): number[] {
+  const rootChroma = Note.chroma(root)!;
+  return MODE_PATTERNS[mode].map(interval => (rootChroma + interval) % 12).sort((a, b) => a - b);
+}
+
+describe('Modes', () => {
+  describe('Mode patterns', () => {
+    it('should define all seven modes with 7 notes each', () => {
+      expect(MODE_NAMES).toHaveLength(7);
+      MODE_NAMES.forEach(mode => {
+        expect(MODE_PATTERNS[mode]).toHaveLength(7);
+        expect(MODE_PATTERNS[mode][0]).toBe(0);
+      });
+    });
+
+    it('should be rotations of the major scale', () => {
+      const ionian = MODE_PATTERNS.ionian;
+      MODE_NAMES.forEach((mode, degree) => {
+        const rotated = [...ionian.slice(degree), ...ionian.slice(0, degree)]
+          .map(interval => (interval - ionian[degree] + 12) % 12);
+        expect(MODE_PATTERNS[mode]).toEqual(rotated);
+      });
+    });
+
+    it('should contain the characteristic interval of each mode', () => {
+      MODE_NAMES.forEach(mode => {
+        expect(MODE_PATTERNS[mode]).toContain(MODE_CHARACTERISTICS[mode].interval);
+      });
+    });
+  });
+
+  describe('Characteristic notes', () => {
+    it('should find the #4 in Lydian', () => {
+      expect(getCharacteristicNote('F', 'lydian')).toBe('B');
+      expect(getCharacteristicNote('C', 'lydian')).toBe('F#');
+    });
+
+    it('should find the other characteristic notes', () => {
+      expect(getCharacteristicNote('D', 'dorian')).toBe('B');
+      expect(getCharacteristicNote('E', 'phrygian')).toBe('F');
+      expect(getCharacteristicNote('G', 'mixolydian')).toBe('F');
+      expect(getCharacteristicNote('A', 'aeolian')).toBe('F');
+      expect(getCharacteristicNote('B', 'locrian')).toBe('F');
+    });
+  });
+
+  describe('Parent major scale', () => {
+    it('should find C major for all white-key modes', () => {
+      const roots = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+      MODE_NAMES.forEach((mode, degree) => {
+        expect(getParentMajorScale(roots[degree], mode)).toBe('C');
+      });
+    });
+
+    it('should share its notes with the parent major scale', () => {
+      const cases: Array<[string, ModeName]> = [
+        ['F#', 'dorian'], ['Bb', 'mixolydian'], ['C#', 'locrian'], ['Eb', 'lydian']
+      ];
+      cases.forEach(([root, mode]) => {
+        const parent = getParentMajorScale(root, mode);
+        expect(getModeChromas(root, mode)).toEqual(getModeChromas(parent, 'ionian'));
+      });
+    });
+  });
+});
@@ -12,8 +12,14 @@ import {
   getEnharmonic,
   isValidNote,
   getChordInfo,
-  fretsToNotes
+  fretsToNotes,
+  getIntervalLabel,
+  getScaleDegreeNumber,
+  getChordToneFunctions,
+  analyzeChordVoicing
 } from '../utils/musicTheory';
+import { getValidatedCAGEDVoicings, validateCustomVoicing } from '../utils/cagedSystemEnhanced';
+import { validateAndFixVoicing } from '../utils/alphaTabChordGenerator';
 
 describe('Music Theory Tests', () => {
   describe('getChordNotes', () => {
@@ -129,6 +135,116 @@ describe('Music Theory Tests', () => {
     });
   });
 
+  describe('analyzeChordVoicing', () => {
+    it('should accept a correct voicing and list doublings', () => {
+      const analysis = analyzeChordVoicing([-1, 3, 2, 0, 1, 0], ['C', 'E', 'G']);
+
+      expect(analysis.isValid).toBe(true);
+      expect(analysis.missingNotes).toEqual([]);
+      expect(analysis.nonChordTones).toEqual([]);
+      expect(analysis.doubledNotes).toEqual([{ note: 'C', count: 2 }, { note: 'E', count: 2 }]);
+      expect(analysis.bassNote).toBe('C');
+    });
+
+    it('should reject wrong extra notes that validateChordVoicing accepts', () => {
+      // F on the D string instead of E: all C major notes are still there
+      const frets = [-1, 3, 3, 0, 1, 0];
+
+      expect(validateChordVoicing(frets, ['C', 'E', 'G'])).toBe(true);
+
+      const analysis = analyzeChordVoicing(frets, ['C', 'E', 'G']);
+      expect(analysis.isValid).toBe(false);
+      expect(analysis.nonChordTones).toEqual(['F']);
+    });
+
+    it('should list missing required notes', () => {
+      const analysis = analyzeChordVoicing([-1, 3, -1, 0, 1, -1], ['C', 'E', 'G']);
+
+      expect(analysis.isValid).toBe(false);
+      expect(analysis.missingNotes).toEqual(['E']);
+    });
+
+    it('should allow omitted optional notes', () => {
+      // Cmaj7 without the 5th: C E B E
+      const analysis = analyzeChordVoicing([-1, 3, 2, 4, 5, -1], ['C', 'E', 'G', 'B'], undefined, {
+        optionalNotes: ['G']
+      });
+
+      expect(analysis.isValid).toBe(true);
+      expect(analysis.omittedNotes).toEqual(['G']);
+      expect(analysis.missingNotes).toEqual([]);
+    });
+
+    it('should check the bass note', () => {
+      const rootPosition = analyzeChordVoicing([-1, 3, 2, 0, 1, 0], ['C', 'E', 'G'], undefined, { bassNote: 'E' });
+      expect(rootPosition.isValid).toBe(false);
+      expect(rootPosition.isBassCorrect).toBe(false);
+
+      const firstInversion = analyzeChordVoicing([0, 3, 2, 0, 1, 0], ['C', 'E', 'G'], undefined, { bassNote: 'E' });
+      expect(firstInversion.isValid).toBe(true);
+      expect(firstInversion.bassNote).toBe('E');
+    });
+
+    it('should name notes with the chord spelling', () => {
+      // Eb major: G string fret 3 sounds A#/Bb
+      const analysis = analyzeChordVoicing([-1, 6, 5, 3, 4, 3], ['Eb', 'G', 'Bb']);
+
+      expect(analysis.isValid).toBe(true);
+      expect(analysis.bassNote).toBe('Eb');
+    });
+
+    it('should reject voicings with all strings muted', () => {
+      expect(analyzeChordVoicing([-1, -1, -1, -1, -1, -1], ['C', 'E', 'G']).isValid).toBe(false);
+    });
+  });
+
+  describe('Strict validation in voicing lookups', () => {
+    it('should only return voicings without non-chord tones', () => {
+      ['major', 'minor', '7', 'maj7', 'm7', 'sus4', 'add9'].forEach(quality => {
+        getValidatedCAGEDVoicings('C', quality, { maxVoicings: 20 }).forEach(voicing => {
+          expect(voicing.analysis?.nonChordTones).toEqual([]);
+          expect(voicing.analysis?.missingNotes).toEqual([]);
+        });
+      });
+    });
+
+    it('should list complete voicings before voicings without the 5th at the same position', () => {
+      const voicings = getValidatedCAGEDVoicings('G', '7', { maxVoicings: 20 });
+
+      voicings.forEach((voicing, i) => {
+        const next = voicings[i + 1];
+        if (!next || next.baseFret !== voicing.baseFret) return;
+        if ((next.barrePositions?.length || 0) !== (voicing.barrePositions?.length || 0)) return;
+        if (next.frets.some(f => f === 0) !== voicing.frets.some(f => f === 0)) return;
+        expect(voicing.analysis!.omittedNotes.length).toBeLessThanOrEqual(next.analysis!.omittedNotes.length);
+      });
+    });
+
+    it('should explain why a custom voicing is wrong', () => {
+      const extraNote = validateCustomVoicing([-1, 3, 3, 0, 1, 0], 'C', 'major');
+      expect(extraNote.isValid).toBe(false);
+      expect(extraNote.message).toContain('Non-chord tones: F');
+
+      const missingNote = validateCustomVoicing([-1, 3, -1, 0, 1, -1], 'C', 'major');
+      expect(missingNote.message).toContain('Missing notes: E');
+    });
+
+    it('should let seventh chords omit the 5th in custom voicings', () => {
+      const result = validateCustomVoicing([-1, 3, 2, 4, 5, -1], 'C', 'maj7');
+
+      expect(result.isValid).toBe(true);
+      expect(result.analysis?.omittedNotes).toEqual(['G']);
+    });
+
+    it('should fix voicings with wrong extra notes for AlphaTab', () => {
+      const result = validateAndFixVoicing([-1, 3, 3, 0, 1, 0], 'C', 'major');
+
+      expect(result.isValid).toBe(false);
+      expect(result.correctedFrets).toBeDefined();
+      expect(analyzeChordVoicing(result.correctedFrets!, ['C', 'E', 'G']).isValid).toBe(true);
+    });
+  });
+
   describe('transposeNote', () => {
     it('should transpose C up 2 semitones to D', () => {
       expect(transposeNote('C', 2)).toBe('D');
@@ -172,6 +288,54 @@ describe('Music Theory Tests', () => {
     });
   });
 
+  describe('getIntervalLabel', () => {
+    it('should label intervals relative to the root', () => {
+      expect(getIntervalLabel('C', 'C')).toBe('1');
+      expect(getIntervalLabel('A', 'C')).toBe('b3');
+      expect(getIntervalLabel('A', 'G')).toBe('b7');
+      expect(getIntervalLabel('E', 'B')).toBe('5');
+      expect(getIntervalLabel('C#', 'C')).toBe('7');
+    });
+
+    it('should label the tritone as #4 in Lydian and b5 in blues', () => {
+      expect(getIntervalLabel('C', 'F#', [0, 2, 4, 6, 7, 9, 11])).toBe('#4');
+      expect(getIntervalLabel('A', 'D#', [0, 3, 5, 6, 7, 10])).toBe('b5');
+      expect(getIntervalLabel('B', 'F')).toBe('b5');
+    });
+  });
+
+  describe('getChordToneFunctions', () => {
+    it('should mark root, 3rd, 5th and 7th', () => {
+      const tones = getChordToneFunctions('D', 'm7');
+      expect(tones.map(t => t.note)).toEqual(['D', 'F', 'A', 'C']);
+      expect(tones.map(t => t.function)).toEqual(['R', '3', '5', '7']);
+      expect(tones.map(t => t.label)).toEqual(['1', 'b3', '5', 'b7']);
+    });
+
+    it('should keep the function of altered tones', () => {
+      expect(getChordToneFunctions('B', 'm7b5').map(t => t.label)).toEqual(['1', 'b3', 'b5', 'b7']);
+      expect(getChordToneFunctions('C', 'aug').map(t => t.label)).toEqual(['1', '3', '#5']);
+      expect(getChordToneFunctions('C', 'dim7')[3]).toMatchObject({ function: '7', label: 'bb7' });
+    });
+
+    it('should treat added tones as extensions', () => {
+      const tones = getChordToneFunctions('G', 'add9');
+      expect(tones.find(t => t.note === 'A')?.function).toBe('extension');
+    });
+  });
+
+  describe('getScaleDegreeNumber', () => {
+    it('should return the position of the note in the scale', () => {
+      expect(getScaleDegreeNumber('C', 'C', [0, 2, 4, 5, 7, 9, 11])).toBe(1);
+      expect(getScaleDegreeNumber('C', 'G', [0, 2, 4, 5, 7, 9, 11])).toBe(5);
+      expect(getScaleDegreeNumber('A', 'E', [0, 3, 5, 7, 10])).toBe(4);
+    });
+
+    it('should return null for notes outside the scale', () => {
+      expect(getScaleDegreeNumber('C', 'F#', [0, 2, 4, 5, 7, 9, 11])).toBeNull();
+    });
+  });
+
   describe('normalizeNote', () => {
     it('should simplify note names consistently', () => {
       // Tonal.js simplify() may keep flats or convert to sharps
@@ -0,0 +1,152 @@
+/**
+ * Tests for position-locked progression voicing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  fitsNeckWindow,
+  voiceChordInPosition,
+  voiceProgressionInPosition,
+  NECK_WINDOWS
+} from '../utils/positionVoicing';
+import { generateValidatedAlphaTeX } from '../utils/alphaTabChordGenerator';
+import { analyzeChordVoicing, fretsToNotes, getChordNotes } from '../utils/musicTheory';
+import { TUNING_PRESETS } from '../utils/tunings';
+
+// I - vi - IV - V in C
+const POP_PROGRESSION = [
+  { note: 'C', quality: '' },
+  { note: 'A', quality: 'm' },
+  { note: 'F', quality: '' },
+  { note: 'G', quality: '' }
+];
+
+describe('Position-Locked Voicing', () => {
+  describe('Neck window', () => {
+    it('should check every played string', () => {
+      expect(fitsNeckWindow([-1, 3, 5, 5, 5, 3], { minFret: 2, maxFret: 5 })).toBe(true);
+      expect(fitsNeckWindow([-1, 3, 2, 0, 1, 0], { minFret: 2, maxFret: 5 })).toBe(false);
+      expect(fitsNeckWindow([-1, 3, 2, 0, 1, 0], { minFret: 0, maxFret: 3 })).toBe(true);
+      expect(fitsNeckWindow([-1, -1, -1, -1, -1, -1], { minFret: 0, maxFret: 3 })).toBe(false);
+    });
+  });
+
+  describe('Single chords', () => {
+    it('should voice a chord inside the window', () => {
+      const voiced = voiceChordInPosition('G', '', { minFret: 5, maxFret: 8 });
+
+      expect(voiced.inWindow).toBe(true);
+      expect(fitsNeckWindow(voiced.frets!, { minFret: 5, maxFret: 8 })).toBe(true);
+      expect(voiced.cagedShape).toBe('D');
+    });
+
+    it('should use CAGED shapes an octave up', () => {
+      // Open C shape moved up an octave
+      const voiced = voiceChordInPosition('C', '', { minFret: 12, maxFret: 15 });
+
+      expect(voiced.inWindow).toBe(true);
+      expect(voiced.frets).toEqual([-1, 15, 14, 12, 13, 12]);
+      expect(voiced.cagedShape).toBe('C');
+    });
+
+    it('should fall back to the nearest CAGED shape and flag it', () => {
+      const window = { minFret: 2, maxFret: 5 };
+      const voiced = voiceChordInPosition('F', '', window);
+
+      expect(voiced.inWindow).toBe(false);
+      expect(voiced.cagedShape).toBe('D');
+      expect(voiced.frets).toEqual([-1, -1, 3, 5, 6, 5]);
+    });
+
+    it('should return no voicing for unknown chords', () => {
+      const voiced = voiceChordInPosition('H', '', { minFret: 5, maxFret: 8 });
+
+      expect(voiced.frets).toBeNull();
+      expect(voiced.cagedShape).toBeNull();
+      expect(voiced.inWindow).toBe(false);
+    });
+  });
+
+  describe('Progressions', () => {
+    it.each(NECK_WINDOWS)('should voice I-vi-IV-V around frets $minFret-$maxFret', window => {
+      const voiced = voiceProgressionInPosition(POP_PROGRESSION, window);
+
+      expect(voiced).toHaveLength(4);
+      voiced.forEach((chord, i) => {
+        const analysis = analyzeChordVoicing(chord.frets!, getChordNotes(chord.note, chord.quality));
+
+        expect(chord.note).toBe(POP_PROGRESSION[i].note);
+        expect(analysis.isValid).toBe(true);
+        expect(['C', 'A', 'G', 'E', 'D']).toContain(chord.cagedShape);
+        if (chord.inWindow) {
+          expect(fitsNeckWindow(chord.frets!, window)).toBe(true);
+        }
+      });
+    });
+
+    it('should keep the whole progression in position 5-8', () => {
+      const voiced = voiceProgressionInPosition(POP_PROGRESSION, { minFret: 5, maxFret: 8 });
+
+      expect(voiced.every(chord => chord.inWindow)).toBe(true);
+      expect(voiced.map(chord => chord.cagedShape)).toEqual(['G', 'E', 'C', 'D']);
+    });
+
+    it('should play slash chords with the bass lowest', () => {
+      const voiced = voiceProgressionInPosition(
+        [{ note: 'C', quality: '' }, { note: 'G', quality: '/B' }],
+        { minFret: 0, maxFret: 3 }
+      );
+
+      expect(fretsToNotes(voiced[1].frets!)[0]).toBe('B');
+    });
+
+    it('should voice slash chords inside a high window', () => {
+      const window = { minFret: 7, maxFret: 10 };
+      // I - V/3 - vi - I/5 - IV
+      const voiced = voiceProgressionInPosition(
+        [
+          { note: 'C', quality: '' },
+          { note: 'G', quality: '/B' },
+          { note: 'A', quality: 'm' },
+          { note: 'C', quality: '/G' },
+          { note: 'F', quality: '' }
+        ],
+        window
+      );
+
+      voiced.forEach(chord => {
+        expect(chord.inWindow).toBe(true);
+        expect(fitsNeckWindow(chord.frets!, window)).toBe(true);
+      });
+      expect(fretsToNotes(voiced[1].frets!)[0]).toBe('B');
+      expect(fretsToNotes(voiced[3].frets!)[0]).toBe('G');
+    });
+
+    it('should voice chords in other tunings', () => {
+      const tuning = TUNING_PRESETS.dropD.notes;
+      const voiced = voiceProgressionInPosition(
+        [{ note: 'D', quality: '' }, { note: 'G', quality: '' }],
+        { minFret: 5, maxFret: 8 },
+        { tuning }
+      );
+
+      voiced.forEach(chord => {
+        expect(analyzeChordVoicing(chord.frets!, getChordNotes(chord.note, chord.quality), tuning).isValid).toBe(true);
+      });
+    });
+  });
+
+  describe('AlphaTeX', () => {
+    it('should voice the AlphaTeX progression inside the window', () => {
+      const window = { minFret: 5, maxFret: 8 };
+      const alphaTex = generateValidatedAlphaTeX(POP_PROGRESSION, { neckWindow: window });
+      const frets = [...alphaTex.matchAll(/(\d+)\.\d/g)].map(match => Number(match[1]));
+
+      expect(frets.length).toBeGreaterThan(0);
+      frets.forEach(fret => {
+        expect(fret).toBeGreaterThanOrEqual(5);
+        expect(fret).toBeLessThanOrEqual(8);
+      });
+    });
+  });
+});
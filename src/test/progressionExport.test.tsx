@@ -0,0 +1,262 @@
+/**
+ * Tests for the MusicXML and Guitar Pro export of chord progressions
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { importer, Settings } from '@coderline/alphatab';
+import { exportProgressionToMusicXml, exportProgressionToGuitarPro } from '../utils/progressionExport';
+import { getProgressionFrets } from '../utils/alphaTabChordGenerator';
+import { getStrumPattern, DEFAULT_RHYTHM } from '../utils/strumming';
+import { getPickingPattern } from '../utils/fingerpicking';
+import { voiceProgression } from '../utils/voiceLeading';
+import { voiceProgressionInPosition } from '../utils/positionVoicing';
+import { getTuning } from '../utils/tunings';
+import { AlphaTabPlayer } from '../components/AlphaTabPlayer';
+
+const PROGRESSION = [
+  { note: 'C', quality: '' },
+  { note: 'A', quality: 'm7' },
+  { note: 'D', quality: '/F#' },
+  { note: 'G', quality: '7' }
+];
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const text = (element: Element, selector: string) => element.querySelector(selector)?.textContent ?? null;
+
+// Notes of a measure on one staff: [string, fret] pairs in document order
+const tabNotes = (measure: Element, staff: number) =>
+  [...measure.querySelectorAll('note')]
+    .filter(note => text(note, 'staff') === String(staff) && !note.querySelector('rest'))
+    .map(note => [Number(text(note, 'technical string')), Number(text(note, 'technical fret'))]);
+
+// jsdom's Blob has no text()
+const readBlob = (blob: Blob) =>
+  new Promise<string>(resolve => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.readAsText(blob);
+  });
+
+describe('Progression export', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('Voicings', () => {
+    it('should give the frets of every chord as written in the tablature', () => {
+      expect(getProgressionFrets([{ note: 'C', quality: '' }, { note: 'G', quality: '' }])).toEqual([
+        [-1, 3, 2, 0, 1, 0],
+        [3, 2, 0, 0, 0, 3]
+      ]);
+    });
+
+    it('should give capo shapes with a capo', () => {
+      // C with capo 3 is played as an A shape
+      expect(getProgressionFrets([{ note: 'C', quality: '' }], { capo: 3 })).toEqual([[-1, 0, 2, 2, 2, 0]]);
+    });
+
+    it('should voice the chords in the tuning', () => {
+      const tuning = getTuning('dropD').notes;
+
+      // G with the root on the low D string
+      expect(getProgressionFrets([{ note: 'G', quality: '' }], { tuning })).toEqual([[5, 2, 0, 0, 0, 3]]);
+      // Same voicings as the progression card
+      expect(getProgressionFrets(PROGRESSION, { tuning, voiceLeading: true }))
+        .toEqual(voiceProgression(PROGRESSION, { tuning }).map(voicing => voicing.frets));
+    });
+
+    it('should voice the chords in the neck window in the tuning', () => {
+      const tuning = getTuning('openG').notes;
+      const neckWindow = { minFret: 5, maxFret: 8 };
+
+      expect(getProgressionFrets(PROGRESSION, { tuning, neckWindow }))
+        .toEqual(voiceProgressionInPosition(PROGRESSION, neckWindow, { tuning }).map(voicing => voicing.frets));
+      expect(getProgressionFrets(PROGRESSION, { tuning, neckWindow }))
+        .not.toEqual(getProgressionFrets(PROGRESSION, { neckWindow }));
+    });
+  });
+
+  describe('MusicXML', () => {
+    it('should write a guitar part with a notation staff and a TAB staff', async () => {
+      const doc = parseXml(await exportProgressionToMusicXml(PROGRESSION, { title: 'Exercise 1', tempo: 96 }));
+
+      expect(doc.querySelector('parsererror')).toBeNull();
+      expect(text(doc.documentElement, 'work-title')).toBe('Exercise 1');
+      expect(doc.querySelectorAll('measure')).toHaveLength(4);
+
+      const attributes = doc.querySelector('measure attributes')!;
+      expect(text(attributes, 'staves')).toBe('2');
+      expect(text(attributes, 'clef[number="1"] clef-octave-change')).toBe('-1');
+      expect(text(attributes, 'clef[number="2"] sign')).toBe('TAB');
+      expect([...attributes.querySelectorAll('staff-tuning')].map(t => `${text(t, 'tuning-step')}${text(t, 'tuning-octave')}`))
+        .toEqual(['E2', 'A2', 'D3', 'G3', 'B3', 'E4']);
+      expect(doc.querySelector('sound')?.getAttribute('tempo')).toBe('96');
+    });
+
+    it('should write the staff tuning of an alternate tuning', async () => {
+      const doc = parseXml(await exportProgressionToMusicXml([{ note: 'G', quality: '' }], { tuning: getTuning('dropD').notes }));
+
+      expect([...doc.querySelectorAll('staff-tuning')].slice(0, 6).map(t => `${text(t, 'tuning-step')}${text(t, 'tuning-octave')}`))
+        .toEqual(['D2', 'A2', 'D3', 'G3', 'B3', 'E4']);
+      // Low D string at fret 5 sounds G2
+      expect(tabNotes(doc.querySelector('measure')!, 2)[0]).toEqual([6, 5]);
+      expect(text(doc.documentElement, 'note pitch step')).toBe('G');
+      expect(text(doc.documentElement, 'note pitch octave')).toBe('2');
+    });
+
+    it('should write string and fret technicals of the voicing on both staves', async () => {
+      const doc = parseXml(await exportProgressionToMusicXml([{ note: 'C', quality: '' }]));
+      const measure = doc.querySelector('measure')!;
+
+      // C major x-3-2-0-1-0: MusicXML string 1 = high E
+      const expected = [[5, 3], [4, 2], [3, 0], [2, 1], [1, 0]];
+      expect(tabNotes(measure, 1)).toEqual(expected);
+      expect(tabNotes(measure, 2)).toEqual(expected);
+
+      const pitches = [...measure.querySelectorAll('note')].slice(0, 5).map(note =>
+        `${text(note, 'step')}${text(note, 'alter') ? '#' : ''}${text(note, 'octave')}`
+      );
+      expect(pitches).toEqual(['C3', 'E3', 'G3', 'C4', 'E4']);
+    });
+
+    it('should add a chord symbol and diagram to every bar', async () => {
+      const doc = parseXml(await exportProgressionToMusicXml(PROGRESSION));
+      const harmonies = [...doc.querySelectorAll('harmony')];
+
+      expect(harmonies.map(h => `${text(h, 'root-step')}${text(h, 'root-alter') === '1' ? '#' : ''}`))
+        .toEqual(['C', 'A', 'D', 'G']);
+      expect(harmonies.map(h => text(h, 'kind'))).toEqual(['major', 'minor-seventh', 'major', 'dominant']);
+      expect(text(harmonies[2], 'bass-step')).toBe('F');
+      expect(text(harmonies[2], 'bass-alter')).toBe('1');
+
+      // Diagram of the voicing in the tablature
+      getProgressionFrets(PROGRESSION).forEach((frets, index) => {
+        const diagram = [...harmonies[index].querySelectorAll('frame-note')]
+          .map(note => [Number(text(note, 'string')), Number(text(note, 'fret'))]);
+        const expected = frets.flatMap((fret, stringIndex) => (fret >= 0 ? [[6 - stringIndex, fret]] : []));
+
+        expect(diagram.sort()).toEqual(expected.sort());
+      });
+    });
+
+    it('should fill every bar of the strumming pattern in the time signature', async () => {
+      const timeSignature = { numerator: 3, denominator: 4 };
+      const doc = parseXml(await exportProgressionToMusicXml(PROGRESSION, {
+        strumPattern: getStrumPattern('folk'),
+        timeSignature
+      }));
+
+      expect(text(doc.documentElement, 'time beats')).toBe('3');
+      expect(text(doc.documentElement, 'time beat-type')).toBe('4');
+
+      doc.querySelectorAll('measure').forEach(measure => {
+        [1, 2].forEach(staff => {
+          const length = [...measure.querySelectorAll('note')]
+            .filter(note => text(note, 'staff') === String(staff) && !note.querySelector('chord'))
+            .reduce((sum, note) => sum + Number(text(note, 'duration')), 0);
+          expect(length).toBe(3 * 960);
+        });
+      });
+      expect(doc.querySelector('technical down-bow')).not.toBeNull();
+      expect(doc.querySelector('articulations accent')).not.toBeNull();
+    });
+
+    it('should write right-hand fingers of picked notes', async () => {
+      const doc = parseXml(await exportProgressionToMusicXml([{ note: 'C', quality: '' }], {
+        pickingPattern: getPickingPattern('pima')
+      }));
+      const plucks = [...doc.querySelectorAll('note')]
+        .filter(note => text(note, 'staff') === '2')
+        .map(note => text(note, 'pluck'));
+
+      expect(plucks.slice(0, 4)).toEqual(['p', 'i', 'm', 'a']);
+    });
+
+    it('should write the capo on the TAB staff', async () => {
+      const doc = parseXml(await exportProgressionToMusicXml([{ note: 'C', quality: '' }], { capo: 3 }));
+
+      expect(text(doc.documentElement, 'staff-details capo')).toBe('3');
+      // A shape behind the capo: tab numbers relative to the capo, sounding C major
+      expect(tabNotes(doc.querySelector('measure')!, 2)).toEqual([[5, 0], [4, 2], [3, 2], [2, 2], [1, 0]]);
+      expect(text(doc.documentElement, 'note pitch step')).toBe('C');
+    });
+  });
+
+  describe('Guitar Pro', () => {
+    const readGuitarPro = (data: Uint8Array) => {
+      const score = importer.ScoreLoader.loadScoreFromBytes(data, new Settings());
+      return { score, staff: score.tracks[0].staves[0] };
+    };
+
+    it('should write a GP file that alphaTab reads back', async () => {
+      const { score, staff } = readGuitarPro(await exportProgressionToGuitarPro(PROGRESSION, { title: 'Exercise 1', tempo: 96, capo: 2 }));
+
+      expect(score.title).toBe('Exercise 1');
+      expect(score.tempo).toBe(96);
+      expect(staff.capo).toBe(2);
+      expect(staff.bars).toHaveLength(4);
+    });
+
+    it('should include chord symbols and diagrams', async () => {
+      const { staff } = readGuitarPro(await exportProgressionToGuitarPro(PROGRESSION));
+      const frets = getProgressionFrets(PROGRESSION);
+
+      staff.bars.forEach((bar, index) => {
+        const chord = bar.voices[0].beats[0].chord!;
+        expect(chord.name).toBe(`${PROGRESSION[index].note}${PROGRESSION[index].quality}`);
+        expect(chord.strings).toEqual([...frets[index]].reverse());
+        expect(chord.showDiagram).toBe(true);
+      });
+    });
+
+    it('should keep the picking pattern and right-hand fingers', async () => {
+      const { staff } = readGuitarPro(await exportProgressionToGuitarPro([{ note: 'C', quality: '' }], {
+        pickingPattern: getPickingPattern('travis')
+      }));
+      const beats = staff.bars[0].voices[0].beats;
+
+      expect(beats).toHaveLength(8);
+      expect(beats.map(beat => beat.notes[0].rightHandFinger)).toEqual([0, 2, 0, 1, 0, 2, 0, 1]);
+    });
+  });
+
+  describe('Player', () => {
+    it('should download the progression as MusicXML and Guitar Pro', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 404 }));
+      const createObjectURL = vi.fn((_blob: Blob) => 'blob:export');
+      vi.stubGlobal('URL', { createObjectURL, revokeObjectURL: vi.fn() });
+      const downloads: string[] = [];
+      vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+        downloads.push(this.download);
+      });
+
+      render(
+        <AlphaTabPlayer
+          chordProgression={PROGRESSION}
+          onClose={() => {}}
+          rhythm={{ ...DEFAULT_RHYTHM, strumPattern: getStrumPattern('folk') }}
+        />
+      );
+      await screen.findByTestId('alphatab-missing-assets');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export MusicXML' }));
+      await waitFor(() => expect(downloads).toEqual(['chord-progression.musicxml']));
+
+      const musicXml = await readBlob(createObjectURL.mock.calls[0][0]);
+      expect(musicXml).toContain('<work-title>C - Am7 - D/F# - G7</work-title>');
+      expect(musicXml).toContain('<down-bow/>');
+
+      fireEvent.click(screen.getByRole('button', { name: 'Export Guitar Pro' }));
+      await waitFor(() => expect(downloads).toEqual(['chord-progression.musicxml', 'chord-progression.gp']));
+      expect(createObjectURL.mock.calls[1][0].size).toBeGreaterThan(0);
+    });
+  });
+});
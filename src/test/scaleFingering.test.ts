@@ -0,0 +1,79 @@
+/**
+ * Tests for the scale fingering engine (finger numbers, stretches, shifts)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getScaleFingering, ScaleNotePosition } from '../utils/scaleFingering';
+import { generate3NPSPattern } from '../utils/threeNotesPerString';
+import { MODE_PATTERNS } from '../utils/modes';
+
+// A minor pentatonic, box 1 (5th position)
+const A_MINOR_PENTATONIC_BOX_1: ScaleNotePosition[] = [
+  { stringIndex: 0, fret: 5 }, { stringIndex: 0, fret: 8 },
+  { stringIndex: 1, fret: 5 }, { stringIndex: 1, fret: 7 },
+  { stringIndex: 2, fret: 5 }, { stringIndex: 2, fret: 7 },
+  { stringIndex: 3, fret: 5 }, { stringIndex: 3, fret: 7 },
+  { stringIndex: 4, fret: 5 }, { stringIndex: 4, fret: 8 },
+  { stringIndex: 5, fret: 5 }, { stringIndex: 5, fret: 8 }
+];
+
+describe('Scale Fingering Engine', () => {
+  it('should use one finger per fret inside the position', () => {
+    const fingering = getScaleFingering(A_MINOR_PENTATONIC_BOX_1, 5, 8);
+
+    expect(fingering).toHaveLength(12);
+    fingering.forEach(n => {
+      expect(n.finger).toBe(n.fret - 4);
+      expect(n.isShift).toBe(false);
+      expect(n.isStretch).toBe(false);
+    });
+  });
+
+  it('should only finger notes inside the window', () => {
+    const notes = [...A_MINOR_PENTATONIC_BOX_1, { stringIndex: 0, fret: 10 }, { stringIndex: 5, fret: 3 }];
+    const fingering = getScaleFingering(notes, 5, 8);
+    expect(fingering).toHaveLength(12);
+  });
+
+  it('should return notes in playing order', () => {
+    const shuffled = [...A_MINOR_PENTATONIC_BOX_1].reverse();
+    const fingering = getScaleFingering(shuffled, 5, 8);
+    expect(fingering[0]).toMatchObject({ stringIndex: 0, fret: 5, finger: 1 });
+    expect(fingering[11]).toMatchObject({ stringIndex: 5, fret: 8, finger: 4 });
+  });
+
+  it('should mark pinky and index stretches', () => {
+    const fingering = getScaleFingering(
+      [{ stringIndex: 0, fret: 5 }, { stringIndex: 0, fret: 9 }, { stringIndex: 1, fret: 4 }],
+      4,
+      9
+    );
+    // Position starts at fret 4, so fret 9 is out of reach
+    expect(fingering[0]).toMatchObject({ fret: 5, finger: 2, isStretch: false });
+    expect(fingering[1].isShift).toBe(true);
+
+    const stretched = getScaleFingering(
+      [{ stringIndex: 0, fret: 5 }, { stringIndex: 0, fret: 9 }, { stringIndex: 1, fret: 4 }],
+      5,
+      9
+    );
+    expect(stretched[1]).toMatchObject({ fret: 9, finger: 4, isStretch: true });
+  });
+
+  it('should finger open strings with 0 in open position', () => {
+    const fingering = getScaleFingering([{ stringIndex: 0, fret: 0 }, { stringIndex: 0, fret: 3 }], 0, 4);
+    expect(fingering[0]).toMatchObject({ fret: 0, finger: 0 });
+    expect(fingering[1]).toMatchObject({ fret: 3, finger: 3 });
+  });
+
+  it('should shift positions through a 3NPS pattern', () => {
+    const pattern = generate3NPSPattern('G', MODE_PATTERNS.ionian, 1);
+    const frets = pattern.map(n => n.fret);
+    const fingering = getScaleFingering(pattern, Math.min(...frets), Math.max(...frets));
+
+    expect(fingering).toHaveLength(18);
+    fingering.forEach(n => expect(n.finger).toBeGreaterThanOrEqual(1));
+    // B string pattern moves up a fret: 5-7-8 needs a shift or stretch from position 3
+    expect(fingering.some(n => n.isShift || n.isStretch)).toBe(true);
+  });
+});
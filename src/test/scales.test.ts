@@ -0,0 +1,89 @@
+/**
+ * Tests for harmonic minor, melodic minor and their modes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  EXTENDED_SCALE_TYPES,
+  isExtendedScaleType,
+  getScaleIntervals,
+  getScaleNotes,
+  getScaleDiatonicChords,
+  getSeventhRomanNumeral
+} from '../utils/scales';
+import { getChordNotes } from '../utils/musicTheory';
+import { getChordVoicingsFromDB } from '../utils/chordDatabase';
+
+describe('Extended Scales', () => {
+  describe('Scale intervals from Tonal', () => {
+    it('should provide 7-note patterns for all scale types', () => {
+      EXTENDED_SCALE_TYPES.forEach(type => {
+        expect(getScaleIntervals(type)).toHaveLength(7);
+      });
+    });
+
+    it('should have the correct interval patterns', () => {
+      expect(getScaleIntervals('harmonicMinor')).toEqual([0, 2, 3, 5, 7, 8, 11]);
+      expect(getScaleIntervals('melodicMinor')).toEqual([0, 2, 3, 5, 7, 9, 11]);
+      expect(getScaleIntervals('phrygianDominant')).toEqual([0, 1, 4, 5, 7, 8, 10]);
+      expect(getScaleIntervals('altered')).toEqual([0, 1, 3, 4, 6, 8, 10]);
+      expect(getScaleIntervals('lydianDominant')).toEqual([0, 2, 4, 6, 7, 9, 10]);
+    });
+
+    it('should spell scale notes without double accidentals', () => {
+      expect(getScaleNotes('A', 'harmonicMinor')).toEqual(['A', 'B', 'C', 'D', 'E', 'F', 'G#']);
+      expect(getScaleNotes('G#', 'harmonicMinor')).toContain('G');
+    });
+
+    it('should recognize extended scale types', () => {
+      expect(isExtendedScaleType('harmonicMinor')).toBe(true);
+      expect(isExtendedScaleType('pentatonic')).toBe(false);
+      expect(isExtendedScaleType('modal')).toBe(false);
+    });
+  });
+
+  describe('Diatonic chords', () => {
+    it('should build harmonic minor triads and sevenths', () => {
+      const chords = getScaleDiatonicChords('A', 'harmonicMinor');
+      expect(chords.map(c => c.quality)).toEqual(['m', 'dim', 'aug', 'm', '', '', 'dim']);
+      expect(chords.map(c => c.seventhQuality)).toEqual(['mMaj7', 'm7b5', 'maj7#5', 'm7', '7', 'maj7', 'dim7']);
+      expect(chords.map(c => c.roman)).toEqual(['i', 'ii°', 'III+', 'iv', 'V', 'VI', 'vii°']);
+      expect(chords[4].note).toBe('E');
+    });
+
+    it('should build melodic minor sevenths', () => {
+      const chords = getScaleDiatonicChords('C', 'melodicMinor');
+      expect(chords.map(c => c.seventhQuality)).toEqual(['mMaj7', 'm7', 'maj7#5', '7', '7', 'm7b5', 'm7b5']);
+    });
+
+    it('should build Phrygian dominant chords on a major tonic', () => {
+      const chords = getScaleDiatonicChords('E', 'phrygianDominant');
+      expect(chords[0].quality).toBe('');
+      expect(chords[0].seventhQuality).toBe('7');
+      expect(chords[1]).toMatchObject({ note: 'F', seventhQuality: 'maj7' });
+    });
+
+    it('should produce chords that Tonal and chords-db know', () => {
+      EXTENDED_SCALE_TYPES.forEach(type => {
+        getScaleDiatonicChords('A', type).forEach(chord => {
+          expect(getChordNotes(chord.note, chord.quality).length).toBeGreaterThanOrEqual(3);
+          expect(getChordNotes(chord.note, chord.seventhQuality)).toHaveLength(4);
+        });
+      });
+
+      expect(getChordVoicingsFromDB('A', 'mMaj7').length).toBeGreaterThan(0);
+      expect(getChordVoicingsFromDB('C', 'maj7#5').length).toBeGreaterThan(0);
+      expect(getChordVoicingsFromDB('C', 'aug').length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('Seventh roman numerals', () => {
+    it('should format seventh chord numerals', () => {
+      expect(getSeventhRomanNumeral('ii°', 'm7b5')).toBe('iiø7');
+      expect(getSeventhRomanNumeral('vii°', 'dim7')).toBe('vii°7');
+      expect(getSeventhRomanNumeral('i', 'mMaj7')).toBe('i(maj7)');
+      expect(getSeventhRomanNumeral('III+', 'maj7#5')).toBe('III+maj7');
+      expect(getSeventhRomanNumeral('V', '7')).toBe('V7');
+    });
+  });
+});
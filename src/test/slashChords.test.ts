@@ -0,0 +1,217 @@
+/**
+ * Tests for slash chords and inversions
+ * (quality parser, chords-db lookup, bass note validation, inversion filter)
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseSlashQuality,
+  getChordNotes,
+  fretsToNotes,
+  validateChordVoicing,
+  getInversion,
+  getVoicingInversion,
+  getInversionQuality,
+  STANDARD_TUNING
+} from '../utils/musicTheory';
+import {
+  mapQualityToSuffix,
+  getChordVoicingsFromDB,
+  filterVoicingsByInversion,
+  toAbsoluteFrets
+} from '../utils/chordDatabase';
+import { getValidatedCAGEDVoicings, validateCustomVoicing } from '../utils/cagedSystemEnhanced';
+import { generateVoicings } from '../utils/voicingGenerator';
+import { getShapeQuality, getCapoChordLabel } from '../utils/capo';
+import { getValidatedChordForAlphaTab } from '../utils/alphaTabChordGenerator';
+
+const absolute = (voicing: { frets: number[]; baseFret: number }) =>
+  toAbsoluteFrets({ frets: voicing.frets, baseFret: voicing.baseFret, fingers: [], barres: [], midi: [] });
+
+describe('Slash Chords and Inversions', () => {
+  describe('Quality parser', () => {
+    it('should split quality and bass note', () => {
+      expect(parseSlashQuality('/E')).toEqual({ quality: '', bass: 'E' });
+      expect(parseSlashQuality('m/B')).toEqual({ quality: 'm', bass: 'B' });
+      expect(parseSlashQuality('m7/G')).toEqual({ quality: 'm7', bass: 'G' });
+      expect(parseSlashQuality('major/F#')).toEqual({ quality: 'major', bass: 'F#' });
+    });
+
+    it('should not treat other slashes as bass notes', () => {
+      expect(parseSlashQuality('6/9')).toEqual({ quality: '6/9', bass: null });
+      expect(parseSlashQuality('maj7')).toEqual({ quality: 'maj7', bass: null });
+    });
+
+    it('should list the bass note first', () => {
+      expect(getChordNotes('C', '/E')).toEqual(['E', 'G', 'C']);
+      expect(getChordNotes('D', '/F#')).toEqual(['F#', 'A', 'D']);
+      expect(getChordNotes('G', 'major/B')).toEqual(['B', 'D', 'G']);
+      expect(getChordNotes('A', 'm7/G')).toEqual(['G', 'A', 'C', 'E']);
+    });
+
+    it('should add a bass note that is not a chord tone', () => {
+      expect(getChordNotes('C', '/D')).toEqual(['D', 'C', 'E', 'G']);
+    });
+  });
+
+  describe('Inversions', () => {
+    it('should name the inversion by the bass interval', () => {
+      expect(getInversion('C', 'C')).toBe(0);
+      expect(getInversion('C', 'E')).toBe(1);
+      expect(getInversion('C', 'G')).toBe(2);
+      expect(getInversion('G', 'F')).toBe(3);
+      expect(getInversion('C', 'D')).toBeNull();
+    });
+
+    it('should build slash qualities for inversions', () => {
+      expect(getInversionQuality('G', '', 1)).toBe('/B');
+      expect(getInversionQuality('C', '', 2)).toBe('/G');
+      expect(getInversionQuality('A', 'm7', 3)).toBe('m7/G');
+      expect(getInversionQuality('C', 'maj7', 0)).toBe('maj7');
+    });
+
+    it('should leave the quality unchanged if the chord has no such tone', () => {
+      expect(getInversionQuality('C', '', 3)).toBe('');
+    });
+
+    it('should detect the inversion of a voicing regardless of spelling', () => {
+      expect(getVoicingInversion([-1, 3, 2, 0, 1, 0], 'C', 'major')).toBe(0);
+      expect(getVoicingInversion([0, 3, 2, 0, 1, 0], 'C', 'major')).toBe(1);
+      expect(getVoicingInversion([3, 3, 2, 0, 1, 0], 'C', 'major')).toBe(2);
+      // Eb on the A string (fret 6) is the minor 3rd of C minor
+      expect(getVoicingInversion([-1, 6, 5, 5, 4, -1], 'C', 'm')).toBe(1);
+      expect(getVoicingInversion([-1, -1, -1, -1, -1, -1], 'C', 'major')).toBeNull();
+    });
+  });
+
+  describe('Bass note validation', () => {
+    it('should require the bass note as lowest note', () => {
+      const cMajor = ['C', 'E', 'G'];
+      expect(validateChordVoicing([-1, 3, 2, 0, 1, 0], cMajor)).toBe(true);
+      expect(validateChordVoicing([-1, 3, 2, 0, 1, 0], cMajor, STANDARD_TUNING, 'E')).toBe(false);
+      expect(validateChordVoicing([0, 3, 2, 0, 1, 0], cMajor, STANDARD_TUNING, 'E')).toBe(true);
+    });
+
+    it('should report a wrong bass note for custom slash chord voicings', () => {
+      const wrongBass = validateCustomVoicing([-1, 3, 2, 0, 1, 0], 'C', '/E');
+      expect(wrongBass.isValid).toBe(false);
+      expect(wrongBass.message).toContain('E in the bass');
+
+      expect(validateCustomVoicing([0, 3, 2, 0, 1, 0], 'C', '/E').isValid).toBe(true);
+    });
+  });
+
+  describe('chords-db lookup', () => {
+    it('should map slash qualities to chords-db suffixes', () => {
+      expect(mapQualityToSuffix('/E')).toBe('/E');
+      expect(mapQualityToSuffix('major/F#')).toBe('/F#');
+      expect(mapQualityToSuffix('m/C')).toBe('m/C');
+      expect(mapQualityToSuffix('minor/Db')).toBe('m/C#');
+      expect(mapQualityToSuffix('/A#')).toBe('/Bb');
+    });
+
+    it('should find slash chords in chords-db', () => {
+      ['C/E', 'D/F#', 'G/B'].forEach(name => {
+        const [root, bass] = name.split('/');
+        const voicings = getChordVoicingsFromDB(root, `/${bass}`);
+        expect(voicings.length).toBeGreaterThan(0);
+      });
+    });
+
+    it('should filter chords-db voicings by inversion', () => {
+      const voicings = getChordVoicingsFromDB('C', '/E');
+      const firstInversion = filterVoicingsByInversion(voicings, 'C', 'major', 1);
+
+      expect(firstInversion.length).toBeGreaterThan(0);
+      firstInversion.forEach(v => {
+        expect(fretsToNotes(toAbsoluteFrets(v))[0]).toBe('E');
+      });
+      expect(filterVoicingsByInversion(voicings, 'C', 'major', 2)).toEqual([]);
+    });
+  });
+
+  describe('Validated voicings', () => {
+    it.each([
+      ['C', '/E', 'E'],
+      ['D', '/F#', 'F#'],
+      ['G', '/B', 'B'],
+      ['C', '/G', 'G'],
+      ['A', 'm7/G', 'G'],
+      ['Eb', '/G', 'G']
+    ])('%s%s voicings should have %s in the bass', (root, quality, bass) => {
+      const voicings = getValidatedCAGEDVoicings(root, quality, { maxVoicings: 5 });
+
+      expect(voicings.length).toBeGreaterThan(0);
+      voicings.forEach(v => {
+        const lowest = fretsToNotes(absolute(v))[0];
+        expect(lowest).toBe(bass);
+        expect(v.validated).toBe(true);
+      });
+    });
+
+    it('should rank the open G/B first', () => {
+      expect(getValidatedCAGEDVoicings('G', '/B')[0].frets).toEqual([-1, 2, 0, 0, 3, 3]);
+    });
+
+    it('should find slash chord voicings in a fret range up the neck', () => {
+      const voicings = getValidatedCAGEDVoicings('G', '/B', { minFret: 7, maxFret: 10, maxVoicings: 20 });
+
+      expect(voicings.map(absolute)).toContainEqual([7, 10, 9, 7, 8, 7]);
+      voicings.forEach(v => {
+        absolute(v).filter(fret => fret > 0).forEach(fret => {
+          expect(fret).toBeGreaterThanOrEqual(7);
+          expect(fret).toBeLessThanOrEqual(10);
+        });
+      });
+    });
+
+    it('should return inversions as slash chord voicings', () => {
+      const firstInversion = getValidatedCAGEDVoicings('C', 'major', { inversion: 1, maxVoicings: 5 });
+
+      expect(firstInversion.length).toBeGreaterThan(0);
+      firstInversion.forEach(v => {
+        expect(v.inversion).toBe(1);
+        expect(fretsToNotes(absolute(v))[0]).toBe('E');
+      });
+    });
+
+    it('should filter root position voicings', () => {
+      const rootPosition = getValidatedCAGEDVoicings('C', 'major', { inversion: 0 });
+
+      expect(rootPosition.length).toBeGreaterThan(0);
+      rootPosition.forEach(v => expect(v.inversion).toBe(0));
+    });
+
+    it('should return no voicings for a 3rd inversion of a triad', () => {
+      expect(getValidatedCAGEDVoicings('C', 'major', { inversion: 3 })).toEqual([]);
+    });
+
+    it('should find 3rd inversion seventh chords', () => {
+      const voicings = getValidatedCAGEDVoicings('G', '7', { inversion: 3, maxVoicings: 3 });
+
+      expect(voicings.length).toBeGreaterThan(0);
+      voicings.forEach(v => expect(fretsToNotes(absolute(v))[0]).toBe('F'));
+    });
+
+    it('should generate slash chords with the bass as lowest note', () => {
+      const voicings = generateVoicings('C', '/D', { maxResults: 5 });
+
+      expect(voicings.length).toBeGreaterThan(0);
+      voicings.forEach(v => expect(v.bassNote).toBe('D'));
+    });
+  });
+
+  describe('Capo and AlphaTab', () => {
+    it('should move the bass note with the capo', () => {
+      expect(getShapeQuality('/B', 2)).toBe('/A');
+      expect(getShapeQuality('m7/G', 0)).toBe('m7/G');
+      expect(getShapeQuality('m7', 2)).toBe('m7');
+      expect(getCapoChordLabel('G', '/B', 2)).toBe('G/B shape, sounds as A/C# with capo 2');
+    });
+
+    it('should play slash chords with the bass note lowest in AlphaTeX', () => {
+      // G/B: lowest note is B (A string, fret 2)
+      expect(getValidatedChordForAlphaTab('G', '/B')).toMatch(/^\(2\.5 /);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for stacking chord tones on string sets (shared by triads and jazz voicings)
+ */
+
+import { describe, it, expect } from 'vitest';
+import { stackVoicesOnStrings } from '../utils/stringSetVoicings';
+import { getOpenStringMidi, TUNING_PRESETS } from '../utils/tunings';
+import { STANDARD_TUNING } from '../utils/musicTheory';
+
+describe('String set voicings', () => {
+  it('should give the open string pitches of a tuning', () => {
+    expect(getOpenStringMidi(STANDARD_TUNING)).toEqual([40, 45, 50, 55, 59, 64]);
+    expect(getOpenStringMidi(TUNING_PRESETS.dropD.notes)).toEqual([38, 45, 50, 55, 59, 64]);
+  });
+
+  it('should stack the voices in order on the string set', () => {
+    expect(stackVoicesOnStrings([3, 2, 1], ['E', 'G', 'C'])).toEqual([[-1, -1, -1, 9, 8, 8]]);
+    expect(stackVoicesOnStrings([3, 2, 1], ['C', 'E', 'G'])).toEqual([[-1, -1, -1, 5, 5, 3]]);
+  });
+
+  it('should find every position up the neck in the fret range', () => {
+    expect(stackVoicesOnStrings([3, 2, 1], ['G', 'C', 'E'])).toEqual([
+      [-1, -1, -1, 0, 1, 0],
+      [-1, -1, -1, 12, 13, 12]
+    ]);
+    expect(stackVoicesOnStrings([3, 2, 1], ['G', 'C', 'E'], { minFret: 1 })).toEqual([[-1, -1, -1, 12, 13, 12]]);
+  });
+
+  it('should respect the fret span', () => {
+    // Cmaj7 B-E-G-C on strings 4-1 covers frets 8-9
+    expect(stackVoicesOnStrings([4, 3, 2, 1], ['B', 'E', 'G', 'C'])).toEqual([[-1, -1, 9, 9, 8, 8]]);
+    expect(stackVoicesOnStrings([4, 3, 2, 1], ['B', 'E', 'G', 'C'], { maxFretSpan: 1 })).toEqual([]);
+  });
+
+  it('should stack the same pitches in another tuning', () => {
+    // Drop D: the low string needs two frets more for the same note
+    expect(stackVoicesOnStrings([6, 5, 4], ['G', 'D', 'G'], { tuning: TUNING_PRESETS.dropD.notes })).toEqual([[5, 5, 5, -1, -1, -1]]);
+    expect(stackVoicesOnStrings([6, 5, 4], ['G', 'D', 'G'])).toEqual([[3, 5, 5, -1, -1, -1]]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for strumming patterns in generated AlphaTeX
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseStrumPattern,
+  strumChordToAlphaTeX,
+  getStrumPattern,
+  STRUM_PATTERNS,
+  TIME_SIGNATURES,
+  StrumPattern
+} from '../utils/strumming';
+import { generateValidatedAlphaTeX } from '../utils/alphaTabChordGenerator';
+
+const C_MAJOR = [-1, 3, 2, 0, 1, 0];
+const C_NOTES = '3.5 2.4 0.3 1.2 0.1';
+
+// Length of an AlphaTeX bar in whole notes
+const barLength = (bar: string) =>
+  [...bar.matchAll(/(?:\)|\br)\.(\d+)(\{[^}]*\})?/g)].reduce((sum, [, value, effects]) => {
+    const dotted = effects?.replace(/[{}]/g, '').split(' ').includes('d');
+    return sum + (dotted ? 1.5 : 1) / Number(value);
+  }, 0);
+
+describe('Strumming Patterns', () => {
+  describe('Pattern text', () => {
+    it('should parse strokes, holds, rests, mutes and accents', () => {
+      expect(parseStrumPattern('>D-u R x A')).toEqual([
+        { stroke: 'down', accent: true },
+        { stroke: 'hold', accent: false },
+        { stroke: 'up', accent: false },
+        { stroke: 'rest', accent: false },
+        { stroke: 'mute', accent: false },
+        { stroke: 'arpeggio', accent: false }
+      ]);
+    });
+
+    it('should reject unknown symbols', () => {
+      expect(() => parseStrumPattern('D-Q')).toThrow('Unknown strumming symbol: Q');
+    });
+
+    it('should have one 4/4 bar per preset', () => {
+      STRUM_PATTERNS.forEach(pattern => {
+        expect(pattern.steps).toHaveLength(pattern.subdivision === 8 ? 8 : 16);
+      });
+      expect(getStrumPattern('folk')?.name).toBe('Folk D-DU-UDU');
+      expect(getStrumPattern('unknown')).toBeNull();
+    });
+  });
+
+  describe('Bars', () => {
+    it('should keep a block chord as a whole note in 4/4', () => {
+      expect(strumChordToAlphaTeX(C_MAJOR, null)).toBe(`(${C_NOTES}).1`);
+    });
+
+    it('should fill 3/4 and 6/8 bars with a dotted half block chord', () => {
+      expect(strumChordToAlphaTeX(C_MAJOR, null, { numerator: 3, denominator: 4 })).toBe(`(${C_NOTES}).2{d}`);
+      expect(strumChordToAlphaTeX(C_MAJOR, null, { numerator: 6, denominator: 8 })).toBe(`(${C_NOTES}).2{d}`);
+    });
+
+    it('should render the folk pattern as brush strokes', () => {
+      const bar = strumChordToAlphaTeX(C_MAJOR, getStrumPattern('folk'));
+
+      expect(bar).toBe([
+        '(3.5{ac} 2.4{ac} 0.3{ac} 1.2{ac} 0.1{ac}).4{bd}',
+        `(${C_NOTES}).8{bd}`,
+        `(${C_NOTES}).4{bu}`,
+        `(${C_NOTES}).8{bu}`,
+        `(${C_NOTES}).8{bd}`,
+        `(${C_NOTES}).8{bu}`
+      ].join(' '));
+    });
+
+    it('should play the reggae upstrokes on the offbeats', () => {
+      const bar = strumChordToAlphaTeX(C_MAJOR, getStrumPattern('reggae'));
+
+      expect(bar.startsWith(`r.8 (${C_NOTES}).8{bu} r.8 `)).toBe(true);
+      expect(bar.match(/\{bu\}/g)).toHaveLength(4);
+      expect(bar.match(/r\.8/g)).toHaveLength(4);
+    });
+
+    it('should roll the ballad chords and mute the funk chucks', () => {
+      expect(strumChordToAlphaTeX(C_MAJOR, getStrumPattern('ballad'))).toContain(`(${C_NOTES}).4{ad}`);
+      expect(strumChordToAlphaTeX(C_MAJOR, getStrumPattern('funk'))).toContain('(x.5 x.4 x.3 x.2 x.1).16{bd}');
+    });
+
+    it.each(STRUM_PATTERNS.flatMap(pattern => TIME_SIGNATURES.map(ts => [pattern.id, ts] as const)))(
+      'should fill the bar with %s in %o',
+      (id, timeSignature) => {
+        const bar = strumChordToAlphaTeX(C_MAJOR, getStrumPattern(id), timeSignature);
+        expect(barLength(bar)).toBeCloseTo(timeSignature.numerator / timeSignature.denominator);
+      }
+    );
+
+    it('should rest where a hold has no stroke before it', () => {
+      const pattern: StrumPattern = { id: 'late', name: 'Late', subdivision: 8, steps: parseStrumPattern('--D-----') };
+
+      expect(strumChordToAlphaTeX(C_MAJOR, pattern)).toBe(`r.4 (${C_NOTES}).2{d bd}`);
+    });
+  });
+
+  describe('AlphaTeX', () => {
+    const progression = [{ note: 'C', quality: '' }, { note: 'G', quality: '' }];
+
+    it('should keep block chords at 80 BPM by default', () => {
+      const alphaTex = generateValidatedAlphaTeX(progression);
+
+      expect(alphaTex).toContain('\\tempo 80');
+      expect(alphaTex).not.toContain('\\ts');
+      expect(alphaTex).toContain(`(${C_NOTES}).1 | `);
+    });
+
+    it('should use the pattern, tempo and time signature of the progression', () => {
+      const alphaTex = generateValidatedAlphaTeX(progression, {
+        strumPattern: getStrumPattern('folk'),
+        tempo: 96,
+        timeSignature: { numerator: 3, denominator: 4 }
+      });
+      const bars = alphaTex.split('\\ts 3 4 ')[1].split(' | ');
+
+      expect(alphaTex).toContain('\\tempo 96');
+      expect(bars).toHaveLength(2);
+      bars.forEach(bar => {
+        expect(bar).toContain('{bd}');
+        expect(barLength(bar)).toBeCloseTo(0.75);
+      });
+    });
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for the three-notes-per-string (3NPS) pattern generator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Note } from 'tonal';
+import { generate3NPSPattern, generateAll3NPSPatterns } from '../utils/threeNotesPerString';
+import { STANDARD_TUNING, fretsToNotes } from '../utils/musicTheory';
+import { MODE_PATTERNS } from '../utils/modes';
+import { getScaleIntervals } from '../utils/scales';
+
+const MAJOR = MODE_PATTERNS.ionian;
+
+// Frets of one string in a pattern
+function fretsOnString(pattern: ReturnType<typeof generate3NPSPattern>, stringIndex: number): number[] {
+  return pattern.filter(n => n.stringIndex === stringIndex).map(n => n.fret);
+}
+
+describe('3NPS Pattern Generator', () => {
+  it('should generate G major pattern 1 with the B string shift', () => {
+    const pattern = generate3NPSPattern('G', MAJOR, 1);
+
+    expect(fretsOnString(pattern, 0)).toEqual([3, 5, 7]);
+    expect(fretsOnString(pattern, 1)).toEqual([3, 5, 7]);
+    expect(fretsOnString(pattern, 2)).toEqual([4, 5, 7]);
+    expect(fretsOnString(pattern, 3)).toEqual([4, 5, 7]);
+    // B string: shifted up one fret because G-B is a major third
+    expect(fretsOnString(pattern, 4)).toEqual([5, 7, 8]);
+    expect(fretsOnString(pattern, 5)).toEqual([5, 7, 8]);
+  });
+
+  it('should put exactly three notes on every string', () => {
+    generateAll3NPSPatterns('A', MAJOR).forEach(pattern => {
+      expect(pattern).toHaveLength(18);
+      for (let s = 0; s < 6; s++) {
+        expect(fretsOnString(pattern, s)).toHaveLength(3);
+      }
+    });
+  });
+
+  it('should start each pattern on its scale degree', () => {
+    generateAll3NPSPatterns('C', MAJOR).forEach((pattern, i) => {
+      expect(pattern[0].degree).toBe(i + 1);
+    });
+  });
+
+  it('should only contain notes of the scale', () => {
+    const intervals = getScaleIntervals('harmonicMinor');
+    const scaleChromas = intervals.map(i => (Note.chroma('E')! + i) % 12);
+
+    generateAll3NPSPatterns('E', intervals).forEach(pattern => {
+      pattern.forEach(({ stringIndex, fret }) => {
+        const frets = Array(6).fill(-1);
+        frets[stringIndex] = fret;
+        const [note] = fretsToNotes(frets, STANDARD_TUNING);
+        expect(scaleChromas).toContain(Note.chroma(note));
+      });
+    });
+  });
+
+  it('should ascend in pitch through the pattern', () => {
+    const openMidi = STANDARD_TUNING.map((note, i) => Note.midi(`${note}${[2, 2, 3, 3, 3, 4][i]}`)!);
+    const pattern = generate3NPSPattern('D', MODE_PATTERNS.dorian, 4);
+    const pitches = pattern.map(n => openMidi[n.stringIndex] + n.fret);
+
+    pitches.slice(1).forEach((pitch, i) => expect(pitch).toBeGreaterThan(pitches[i]));
+  });
+
+  it('should follow non-standard tunings', () => {
+    const dropD = ['D', 'A', 'D', 'G', 'B', 'E'];
+    const pattern = generate3NPSPattern('G', MAJOR, 1, dropD);
+    expect(fretsOnString(pattern, 0)).toEqual([5, 7, 9]);
+    expect(fretsOnString(pattern, 1)).toEqual([3, 5, 7]);
+  });
+
+  it('should reject scales without seven notes', () => {
+    expect(() => generate3NPSPattern('C', [0, 2, 4, 7, 9], 1)).toThrow();
+    expect(() => generate3NPSPattern('C', MAJOR, 8)).toThrow();
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Tests for the triad explorer (triads on adjacent string sets, CAGED links, diagrams)
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import {
+  generateTriads,
+  getTriadCAGEDShape,
+  toTriadQuality,
+  TRIAD_QUALITIES,
+  TRIAD_STRING_SETS
+} from '../utils/triads';
+import { TriadExplorer } from '../components/TriadExplorer';
+import { toAbsoluteFrets } from '../utils/chordDatabase';
+import { getChordNotes, getVoicingInversion } from '../utils/musicTheory';
+import { transposeShape } from '../utils/cagedShapes';
+import { TUNING_PRESETS } from '../utils/tunings';
+
+const CHORD_QUALITY = { major: '', minor: 'm', dim: 'dim', aug: 'aug' };
+
+describe('Triad Explorer', () => {
+  describe('Triad generation', () => {
+    it('should build the C major triads on strings 1-3 up the neck', () => {
+      const triads = generateTriads('C', 'major', { stringSets: ['1-3'] });
+
+      expect(triads.map(t => t.absoluteFrets.slice(3))).toEqual([
+        [0, 1, 0],
+        [5, 5, 3],
+        [9, 8, 8],
+        [12, 13, 12]
+      ]);
+      expect(triads.map(t => t.inversion)).toEqual([2, 0, 1, 2]);
+      expect(triads[1].voiceOrder).toEqual(['R', '3', '5']);
+      expect(triads.slice(0, 3).map(t => t.cagedShape)).toEqual(['C', 'A', 'E']);
+      expect(triads[0].name).toBe('C triad (second inversion, strings 1-3)');
+    });
+
+    it.each(TRIAD_QUALITIES)('should cover all three inversions on every string set (D %s)', quality => {
+      const triads = generateTriads('D', quality);
+
+      Object.keys(TRIAD_STRING_SETS).forEach(stringSet => {
+        const inversions = new Set(triads.filter(t => t.stringSet === stringSet).map(t => t.inversion));
+        expect([...inversions].sort()).toEqual([0, 1, 2]);
+      });
+    });
+
+    it.each(TRIAD_QUALITIES)('should only contain valid close-position E %s triads', quality => {
+      generateTriads('E', quality).forEach(triad => {
+        const played = triad.absoluteFrets.map((f, i) => (f === -1 ? -1 : i)).filter(i => i !== -1);
+
+        expect(played).toHaveLength(3);
+        expect(played[2] - played[0]).toBe(2);
+        expect(triad.validated).toBe(true);
+        expect(triad.theoreticalNotes).toEqual(getChordNotes('E', CHORD_QUALITY[quality]));
+        expect(getVoicingInversion(triad.absoluteFrets, 'E', CHORD_QUALITY[quality])).toBe(triad.inversion);
+      });
+    });
+
+    it('should move up the neck within each string set', () => {
+      const triads = generateTriads('G', 'minor', { stringSets: ['2-4'] });
+      const lowestFrets = triads.map(t => Math.min(...t.absoluteFrets.filter(f => f >= 0)));
+
+      expect(lowestFrets).toEqual([...lowestFrets].sort((a, b) => a - b));
+    });
+
+    it('should keep the diagram frets relative to the base fret', () => {
+      generateTriads('A', 'major').forEach(triad => {
+        expect(toAbsoluteFrets({ frets: triad.frets, baseFret: triad.baseFret, fingers: [], barres: [], midi: [] }))
+          .toEqual(triad.absoluteFrets);
+      });
+    });
+
+    it('should stay in the fret range', () => {
+      generateTriads('F', 'aug', { minFret: 3, maxFret: 10 }).forEach(triad => {
+        triad.absoluteFrets.filter(f => f !== -1).forEach(fret => {
+          expect(fret).toBeGreaterThanOrEqual(3);
+          expect(fret).toBeLessThanOrEqual(10);
+        });
+      });
+    });
+
+    it('should sound the same pitches in another tuning', () => {
+      const standard = generateTriads('C', 'major', { stringSets: ['2-4'] });
+      const halfStepDown = generateTriads('C', 'major', {
+        stringSets: ['2-4'],
+        tuning: TUNING_PRESETS.halfStepDown.notes
+      });
+
+      // Open C shape triad (E G C) moves up one fret
+      expect(halfStepDown[0].absoluteFrets).toEqual([-1, -1, 3, 1, 2, -1]);
+      expect(halfStepDown.slice(0, standard.length).map(t => t.absoluteFrets))
+        .toEqual(standard.map(t => t.absoluteFrets.map(f => (f === -1 ? -1 : f + 1))));
+    });
+
+    it('should map app chord qualities to triad qualities', () => {
+      expect(toTriadQuality('')).toBe('major');
+      expect(toTriadQuality('m')).toBe('minor');
+      expect(toTriadQuality('dim')).toBe('dim');
+      expect(toTriadQuality('7')).toBeNull();
+    });
+  });
+
+  describe('CAGED shapes', () => {
+    it('should link triads to the CAGED shape they are part of', () => {
+      expect(getTriadCAGEDShape('C', 'major', [-1, -1, -1, 5, 5, 3])).toEqual({ shape: 'A', inShape: true });
+      expect(getTriadCAGEDShape('C', 'major', [-1, -1, -1, 9, 8, 8])).toEqual({ shape: 'E', inShape: true });
+      expect(getTriadCAGEDShape('C', 'major', [-1, -1, -1, 0, 1, 0])).toEqual({ shape: 'C', inShape: true });
+    });
+
+    it('should find triads an octave above the shape', () => {
+      expect(getTriadCAGEDShape('C', 'major', [-1, -1, -1, 12, 13, 12])).toEqual({ shape: 'C', inShape: true });
+    });
+
+    it('should use the notes of the transposed CAGED shape', () => {
+      generateTriads('Bb', 'major').filter(t => t.inCAGEDShape).forEach(triad => {
+        const shapeFrets = transposeShape('Bb', triad.cagedShape, 'major', { validate: false });
+
+        triad.absoluteFrets.forEach((fret, stringIndex) => {
+          if (fret === -1) return;
+          expect((fret - shapeFrets[stringIndex]) % 12).toBe(0);
+        });
+      });
+    });
+
+    it('should give every triad a CAGED shape', () => {
+      TRIAD_QUALITIES.forEach(quality => {
+        generateTriads('F#', quality).forEach(triad => {
+          expect(['C', 'A', 'G', 'E', 'D']).toContain(triad.cagedShape);
+        });
+      });
+    });
+
+    it('should find most major and minor triads inside a CAGED shape', () => {
+      (['major', 'minor'] as const).forEach(quality => {
+        const triads = generateTriads('G', quality);
+        const inShape = triads.filter(t => t.inCAGEDShape);
+        expect(inShape.length / triads.length).toBeGreaterThan(0.75);
+      });
+    });
+  });
+
+  describe('TriadExplorer component', () => {
+    it('should group the diagrams by string set', () => {
+      render(<TriadExplorer triads={generateTriads('C', 'major')} />);
+
+      Object.keys(TRIAD_STRING_SETS).forEach(stringSet => {
+        expect(screen.getByTestId(`triad-group-${stringSet}`)).toBeInTheDocument();
+      });
+      expect(screen.getAllByText('A shape').length).toBeGreaterThan(0);
+    });
+
+    it('should select and clear a triad', () => {
+      const triads = generateTriads('C', 'major', { stringSets: ['1-3'] });
+      const onSelect = vi.fn();
+      const { rerender } = render(<TriadExplorer triads={triads} onSelect={onSelect} />);
+
+      const buttons = screen.getAllByRole('button');
+      fireEvent.click(buttons[1]);
+      expect(onSelect).toHaveBeenCalledWith(triads[1]);
+
+      rerender(<TriadExplorer triads={triads} selectedFrets={triads[1].absoluteFrets} onSelect={onSelect} />);
+      expect(screen.getAllByRole('button')[1]).toHaveAttribute('aria-pressed', 'true');
+
+      fireEvent.click(screen.getAllByRole('button')[1]);
+      expect(onSelect).toHaveBeenLastCalledWith(null);
+    });
+
+    it('should show a message when there are no triads', () => {
+      render(<TriadExplorer triads={[]} />);
+      expect(screen.getByText('No triads in this fret range')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Tests for the Tuning Registry and tuning-aware voicing generation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TUNING_PRESETS,
+  getTuning,
+  getAvailableTunings,
+  registerCustomTuning,
+  isStandardTuning,
+  getTuningOffsets,
+  retuneFrets,
+  toStandardTuningFrets
+} from '../utils/tunings';
+import { transposeShape } from '../utils/cagedShapes';
+import { getChordVoicingsFromDB, toAbsoluteFrets } from '../utils/chordDatabase';
+import { getValidatedCAGEDVoicings, validateCustomVoicing } from '../utils/cagedSystemEnhanced';
+import { fretsToNotes, getChordNotes, validateChordVoicing } from '../utils/musicTheory';
+
+const DROP_D = TUNING_PRESETS.dropD.notes;
+const OPEN_G = TUNING_PRESETS.openG.notes;
+const HALF_STEP_DOWN = TUNING_PRESETS.halfStepDown.notes;
+const OPEN_E = ['E', 'B', 'E', 'G#', 'B', 'E']; // A, D and G strings tuned up
+
+describe('Tuning Registry', () => {
+  describe('Presets', () => {
+    it('should provide the common alternate tunings', () => {
+      expect(TUNING_PRESETS.standard.notes).toEqual(['E', 'A', 'D', 'G', 'B', 'E']);
+      expect(DROP_D).toEqual(['D', 'A', 'D', 'G', 'B', 'E']);
+      expect(TUNING_PRESETS.dadgad.notes).toEqual(['D', 'A', 'D', 'G', 'A', 'D']);
+      expect(OPEN_G).toEqual(['D', 'G', 'D', 'G', 'B', 'D']);
+      expect(HALF_STEP_DOWN).toEqual(['Eb', 'Ab', 'Db', 'Gb', 'Bb', 'Eb']);
+    });
+
+    it('should look up tunings by id and fall back to standard', () => {
+      expect(getTuning('dropD')).toBe(TUNING_PRESETS.dropD);
+      expect(getTuning('unknown')).toBe(TUNING_PRESETS.standard);
+    });
+  });
+
+  describe('Custom tunings', () => {
+    it('should register and find a custom tuning', () => {
+      const openD = registerCustomTuning('Open D', ['D', 'A', 'D', 'F#', 'A', 'D']);
+
+      expect(openD.id).toBe('custom-open-d');
+      expect(getTuning('custom-open-d').notes).toEqual(['D', 'A', 'D', 'F#', 'A', 'D']);
+      expect(getAvailableTunings()).toContainEqual(openD);
+    });
+
+    it('should reject tunings with the wrong string count', () => {
+      expect(() => registerCustomTuning('Short', ['E', 'A', 'D'])).toThrow(/6 strings/);
+    });
+
+    it('should reject invalid notes', () => {
+      expect(() => registerCustomTuning('Bad', ['E', 'A', 'X', 'G', 'B', 'E'])).toThrow(/Invalid note/);
+    });
+  });
+
+  describe('Offsets and retuning', () => {
+    it('should detect standard tuning (chromatic comparison)', () => {
+      expect(isStandardTuning(TUNING_PRESETS.standard.notes)).toBe(true);
+      expect(isStandardTuning(['Fb', 'A', 'D', 'G', 'B', 'E'])).toBe(true);
+      expect(isStandardTuning(DROP_D)).toBe(false);
+    });
+
+    it('should calculate fret offsets per string', () => {
+      expect(getTuningOffsets(DROP_D)).toEqual([2, 0, 0, 0, 0, 0]);
+      expect(getTuningOffsets(OPEN_G)).toEqual([2, 2, 0, 0, 0, 2]);
+      expect(getTuningOffsets(HALF_STEP_DOWN)).toEqual([1, 1, 1, 1, 1, 1]);
+    });
+
+    it('should keep the same pitches when retuning and converting back', () => {
+      const eMajor = [0, 2, 2, 1, 0, 0];
+      const dropDFrets = retuneFrets(eMajor, DROP_D);
+
+      expect(dropDFrets).toEqual([2, 2, 2, 1, 0, 0]);
+      expect(fretsToNotes(dropDFrets, DROP_D)).toEqual(fretsToNotes(eMajor));
+      expect(toStandardTuningFrets(dropDFrets, DROP_D)).toEqual(eMajor);
+    });
+
+    it('should play a shape an octave higher when a string tuned up would be below the nut', () => {
+      const aMajor = [-1, 0, 2, 2, 2, 0];
+      const openEFrets = retuneFrets(aMajor, OPEN_E);
+
+      expect(openEFrets).toEqual([-1, 10, 12, 13, 14, 12]);
+      expect(fretsToNotes(openEFrets, OPEN_E)).toEqual(fretsToNotes(aMajor));
+    });
+  });
+});
+
+describe('Tuning-aware voicing generation', () => {
+  it('should transpose CAGED shapes for Drop D', () => {
+    expect(transposeShape('E', 'E', 'major', { tuning: DROP_D })).toEqual([2, 2, 2, 1, 0, 0]);
+  });
+
+  it('should produce valid G major shapes in Open G', () => {
+    const gNotes = getChordNotes('G', 'major');
+
+    (['C', 'A', 'G', 'E', 'D'] as const).forEach(shape => {
+      const frets = transposeShape('G', shape, 'major', { tuning: OPEN_G });
+      fretsToNotes(frets, OPEN_G).forEach(note => {
+        expect(gNotes).toContain(note);
+      });
+    });
+  });
+
+  it('should keep every string of CAGED shapes in a tuning with strings tuned up', () => {
+    // A shape of A: root on the A string (tuned up to B)
+    expect(transposeShape('A', 'A', 'major', { tuning: OPEN_E, validate: false })).toEqual([-1, 10, 12, 13, 14, 12]);
+    // C shape of C: the G string (tuned up to G#) keeps its G
+    const cShape = transposeShape('C', 'C', 'major', { tuning: OPEN_E });
+    expect(cShape).toEqual([-1, 13, 12, 11, 13, 12]);
+    expect(validateChordVoicing(cShape, getChordNotes('C', 'major'), OPEN_E)).toBe(true);
+
+    const aShape = getValidatedCAGEDVoicings('A', 'major', { tuning: OPEN_E }).find(v => v.cagedShape === 'A')!;
+    expect(toAbsoluteFrets({ frets: aShape.frets, baseFret: aShape.baseFret, fingers: [], barres: [], midi: [] })).toEqual([-1, 10, 12, 13, 14, 12]);
+  });
+
+  it('should retune chords-db voicings so they sound the same', () => {
+    const standardVoicings = getChordVoicingsFromDB('D', 'major');
+    const dropDVoicings = getChordVoicingsFromDB('D', 'major', DROP_D);
+    const dNotes = getChordNotes('D', 'major');
+
+    expect(dropDVoicings.length).toBeGreaterThan(0);
+    expect(dropDVoicings.length).toBeLessThanOrEqual(standardVoicings.length);
+
+    dropDVoicings.forEach(position => {
+      expect(validateChordVoicing(toAbsoluteFrets(position), dNotes, DROP_D)).toBe(true);
+    });
+  });
+
+  it('should return validated CAGED voicings for half-step down tuning', () => {
+    const voicings = getValidatedCAGEDVoicings('C', 'major', { tuning: HALF_STEP_DOWN });
+
+    expect(voicings.length).toBeGreaterThan(0);
+    voicings.forEach(voicing => {
+      expect(voicing.validated).toBe(true);
+    });
+  });
+
+  it('should detect the same CAGED shapes as in standard tuning', () => {
+    const standardShapes = getValidatedCAGEDVoicings('A', 'major').map(v => v.cagedShape).sort();
+    const dropDShapes = getValidatedCAGEDVoicings('A', 'major', { tuning: DROP_D }).map(v => v.cagedShape).sort();
+
+    expect(dropDShapes).toEqual(standardShapes);
+  });
+
+  it('should validate custom voicings against the given tuning', () => {
+    // Open strings form a G major chord in Open G, but E minor 11 (E G B D A) in standard tuning
+    expect(validateCustomVoicing([0, 0, 0, 0, 0, 0], 'G', 'major', OPEN_G).isValid).toBe(true);
+    expect(validateCustomVoicing([0, 0, 0, 0, 0, 0], 'E', 'minor', OPEN_G).isValid).toBe(false);
+    expect(validateCustomVoicing([0, 0, 0, 0, 0, 0], 'E', 'm11').isValid).toBe(true);
+    // A and D are not part of E minor
+    expect(validateCustomVoicing([0, 0, 0, 0, 0, 0], 'E', 'minor').isValid).toBe(false);
+  });
+});
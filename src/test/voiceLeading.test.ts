@@ -0,0 +1,172 @@
+/**
+ * Tests for the voice leading optimizer
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getVoicingCandidates, measureVoiceLeading, voiceProgression } from '../utils/voiceLeading';
+import { generateValidatedAlphaTeX } from '../utils/alphaTabChordGenerator';
+import { toAbsoluteFrets } from '../utils/chordDatabase';
+import { analyzeChordVoicing, fretsToNotes, getChordNotes } from '../utils/musicTheory';
+import { TUNING_PRESETS } from '../utils/tunings';
+
+const totalMovement = (chords: ReturnType<typeof voiceProgression>) =>
+  chords.reduce((sum, chord) => sum + chord.movement, 0);
+
+describe('Voice Leading Optimizer', () => {
+  describe('Candidates', () => {
+    it('should combine chords-db and CAGED voicings', () => {
+      const candidates = getVoicingCandidates('C', '');
+      const sources = new Set(candidates.map(c => c.source));
+
+      expect(sources).toContain('chords-db');
+      expect(sources).toContain('caged');
+      expect(candidates[0].frets).toEqual([-1, 3, 2, 0, 1, 0]);
+    });
+
+    it('should only return valid, unique voicings', () => {
+      const candidates = getVoicingCandidates('E', 'm7');
+      const keys = candidates.map(c => c.frets.join(','));
+
+      expect(new Set(keys).size).toBe(keys.length);
+      candidates.forEach(candidate => {
+        const analysis = analyzeChordVoicing(candidate.frets, getChordNotes('E', 'm7'), undefined, {
+          optionalNotes: ['B']
+        });
+        expect(analysis.isValid).toBe(true);
+        expect(toAbsoluteFrets(candidate.position)).toEqual(candidate.frets);
+      });
+    });
+
+    it('should keep the slash bass lowest', () => {
+      getVoicingCandidates('D', '/F#').forEach(candidate => {
+        expect(fretsToNotes(candidate.frets)[0]).toBe('F#');
+      });
+    });
+
+    it('should limit the number of candidates', () => {
+      expect(getVoicingCandidates('G', '', { maxCandidates: 3 })).toHaveLength(3);
+    });
+
+    it('should return no candidates for unknown chords', () => {
+      expect(getVoicingCandidates('H', '')).toEqual([]);
+    });
+  });
+
+  describe('Voice leading measure', () => {
+    it('should count common tones as shared pitches', () => {
+      // C to Am: E3, C4 and E4 stay
+      expect(measureVoiceLeading([-1, 3, 2, 0, 1, 0], [-1, 0, 2, 2, 1, 0])).toEqual({ movement: 0, commonTones: 3 });
+    });
+
+    it('should count finger movement and position shifts', () => {
+      // A shape barre from fret 5 (D) to fret 7 (E): 2 frets on each of 5 strings + hand shift
+      const { movement, commonTones } = measureVoiceLeading([-1, 5, 7, 7, 7, 5], [-1, 7, 9, 9, 9, 7]);
+      expect(movement).toBe(10 + 2 * 2);
+      expect(commonTones).toBe(0);
+    });
+  });
+
+  describe('Progression voicing', () => {
+    it('should return one voicing per chord', () => {
+      const chords = [
+        { note: 'C', quality: '' },
+        { note: 'A', quality: 'm' },
+        { note: 'F', quality: '' },
+        { note: 'G', quality: '' }
+      ];
+      const voiced = voiceProgression(chords);
+
+      expect(voiced).toHaveLength(4);
+      voiced.forEach((chord, i) => {
+        expect(chord.note).toBe(chords[i].note);
+        expect(chord.frets).not.toBeNull();
+      });
+      expect(voiced[0].movement).toBe(0);
+      expect(voiced[1].frets).toEqual([-1, 0, 2, 2, 1, 0]);
+    });
+
+    it('should move less than picking each chord on its own', () => {
+      const chords = [
+        { note: 'Bb', quality: '' },
+        { note: 'Eb', quality: '' },
+        { note: 'F', quality: '7' },
+        { note: 'C', quality: 'm' }
+      ];
+      const voiced = voiceProgression(chords);
+
+      // Easiest voicing of each chord, ignoring its neighbours
+      const independent = chords.map(chord => getVoicingCandidates(chord.note, chord.quality)[0].frets);
+      const independentMovement = independent.slice(1).reduce(
+        (sum, frets, i) => sum + measureVoiceLeading(independent[i], frets).movement,
+        0
+      );
+
+      expect(totalMovement(voiced)).toBeLessThanOrEqual(independentMovement);
+    });
+
+    it('should keep common tones in a ii-V-I', () => {
+      const voiced = voiceProgression([
+        { note: 'D', quality: 'm7' },
+        { note: 'G', quality: '7' },
+        { note: 'C', quality: 'maj7' }
+      ]);
+
+      expect(voiced[1].commonTones).toBeGreaterThan(0);
+      expect(voiced[2].commonTones).toBeGreaterThan(0);
+    });
+
+    it('should leave chords without voicings empty and keep the rest', () => {
+      const voiced = voiceProgression([
+        { note: 'C', quality: '' },
+        { note: 'H', quality: '' },
+        { note: 'G', quality: '' }
+      ]);
+
+      expect(voiced[0].frets).not.toBeNull();
+      expect(voiced[1].frets).toBeNull();
+      expect(voiced[2].frets).not.toBeNull();
+      expect(voiced[2].movement).toBe(0);
+    });
+
+    it('should voice progressions in other tunings', () => {
+      const voiced = voiceProgression(
+        [{ note: 'D', quality: '' }, { note: 'G', quality: '' }],
+        { tuning: TUNING_PRESETS.dropD.notes }
+      );
+
+      voiced.forEach(chord => {
+        const notes = fretsToNotes(chord.frets!, TUNING_PRESETS.dropD.notes);
+        expect(new Set(notes.map(n => n.replace(/\d/, '')))).toEqual(new Set(getChordNotes(chord.note, chord.quality)));
+      });
+    });
+  });
+
+  describe('AlphaTeX', () => {
+    it('should use the voice-led voicings in AlphaTeX', () => {
+      const chords = [
+        { note: 'D', quality: 'm7' },
+        { note: 'G', quality: '7' },
+        { note: 'C', quality: 'maj7' }
+      ];
+      const alphaTex = generateValidatedAlphaTeX(chords, { voiceLeading: true });
+      const expected = voiceProgression(chords).map(chord =>
+        `(${chord.frets!.flatMap((fret, i) => (fret >= 0 ? [`${fret}.${6 - i}`] : [])).join(' ')}).1`
+      );
+
+      expect(alphaTex).toContain(expected.join(' | '));
+    });
+
+    it('should voice the capo shapes', () => {
+      const alphaTex = generateValidatedAlphaTeX(
+        [{ note: 'A', quality: '' }, { note: 'D', quality: '' }],
+        { capo: 2, voiceLeading: true }
+      );
+      const expected = voiceProgression([{ note: 'G', quality: '' }, { note: 'C', quality: '' }]).map(chord =>
+        `(${chord.frets!.flatMap((fret, i) => (fret >= 0 ? [`${fret}.${6 - i}`] : [])).join(' ')}).1`
+      );
+
+      expect(alphaTex).toContain('\\capo 2');
+      expect(alphaTex).toContain(expected.join(' | '));
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Tests for the search-based chord voicing generator
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Note } from 'tonal';
+import { generateVoicings, getRequiredTones, voicingToChordPosition } from '../utils/voicingGenerator';
+import { getChordNotes, fretsToNotes } from '../utils/musicTheory';
+import { getChordVoicingsFromDB, toAbsoluteFrets } from '../utils/chordDatabase';
+import { getValidatedCAGEDVoicings } from '../utils/cagedSystemEnhanced';
+
+// Pitch classes sounding in a voicing
+function soundingChromas(frets: number[], tuning?: string[]): number[] {
+  return fretsToNotes(frets, tuning).map(note => Note.chroma(note)!);
+}
+
+describe('Voicing Generator', () => {
+  describe('getRequiredTones', () => {
+    it('should make the perfect 5th optional', () => {
+      expect(getRequiredTones('C', ['C', 'E', 'G', 'Bb'])).toEqual(['C', 'E', 'Bb']);
+      expect(getRequiredTones('C', ['C', 'E', 'G', 'Bb'], false)).toEqual(['C', 'E', 'G', 'Bb']);
+    });
+
+    it('should keep altered 5ths and make the natural 9th optional in 13th chords', () => {
+      expect(getRequiredTones('C', ['C', 'E', 'G#', 'Bb'])).toContain('G#');
+      expect(getRequiredTones('C', getChordNotes('C', '13'))).toEqual(['C', 'E', 'Bb', 'A']);
+      expect(getRequiredTones('C', getChordNotes('C', '13b9'))).toContain('Db');
+    });
+  });
+
+  describe('generateVoicings', () => {
+    it('should find the open C major chord first', () => {
+      const [easiest] = generateVoicings('C', 'major');
+      expect(easiest.frets).toEqual([-1, 3, 2, 0, 1, 0]);
+      expect(easiest.bassNote).toBe('C');
+    });
+
+    it('should rank a complete C13 with open strings first', () => {
+      const [easiest] = generateVoicings('C', '13', { maxResults: 3 });
+      expect(easiest.frets).toEqual([8, 0, 8, 7, 8, 0]);
+      expect(easiest.notes).toEqual(['C', 'A', 'Bb', 'D', 'G', 'E']);
+      expect(easiest.omittedTones).toEqual([]);
+    });
+
+    it('should only play chord tones and contain all required tones', () => {
+      ['13', '7#9', 'm11', '13b9', '7#11', '7b13'].forEach(quality => {
+        const chordNotes = getChordNotes('G', quality);
+        const chordChromas = chordNotes.map(n => Note.chroma(n));
+        const required = getRequiredTones('G', chordNotes).map(n => Note.chroma(n));
+
+        const voicings = generateVoicings('G', quality);
+        expect(voicings.length).toBeGreaterThan(0);
+
+        voicings.forEach(v => {
+          const chromas = soundingChromas(v.frets);
+          chromas.forEach(c => expect(chordChromas).toContain(c));
+          required.forEach(c => expect(chromas).toContain(c));
+          expect(chromas[0]).toBe(Note.chroma('G'));
+        });
+      });
+    });
+
+    it('should respect the maximum fret span', () => {
+      generateVoicings('D', '9', { maxFretSpan: 3 }).forEach(v => {
+        const fretted = v.frets.filter(f => f > 0);
+        expect(Math.max(...fretted) - Math.min(...fretted) + 1).toBeLessThanOrEqual(3);
+        expect(v.fretSpan).toBeLessThanOrEqual(3);
+      });
+    });
+
+    it('should support a different bass note or any bass', () => {
+      generateVoicings('C', 'major', { bassNote: 'E' }).forEach(v => {
+        expect(v.bassNote).toBe('E');
+      });
+      const anyBass = generateVoicings('C', 'major', { bassNote: null, maxResults: 100 });
+      expect(new Set(anyBass.map(v => v.bassNote)).size).toBe(3);
+    });
+
+    it('should require the 5th when omitting it is not allowed', () => {
+      generateVoicings('A', '7', { allowOmit5th: false }).forEach(v => {
+        expect(v.omittedTones).not.toContain('E');
+      });
+    });
+
+    it('should be sorted by difficulty', () => {
+      const voicings = generateVoicings('E', '7#9');
+      voicings.slice(1).forEach((v, i) => expect(v.difficulty).toBeGreaterThanOrEqual(voicings[i].difficulty));
+    });
+
+    it('should work in other tunings', () => {
+      const dropD = ['D', 'A', 'D', 'G', 'B', 'E'];
+      generateVoicings('D', '13', { tuning: dropD }).forEach(v => {
+        expect(soundingChromas(v.frets, dropD)[0]).toBe(Note.chroma('D'));
+      });
+    });
+  });
+
+  describe('voicingToChordPosition', () => {
+    it('should convert high voicings to relative frets with baseFret', () => {
+      const position = voicingToChordPosition([-1, 8, 7, 8, 8, 10]);
+      expect(position.baseFret).toBe(7);
+      expect(position.frets).toEqual([-1, 2, 1, 2, 2, 4]);
+      expect(toAbsoluteFrets(position)).toEqual([-1, 8, 7, 8, 8, 10]);
+    });
+
+    it('should keep open position frets absolute', () => {
+      expect(voicingToChordPosition([-1, 3, 2, 0, 1, 0]).baseFret).toBe(1);
+    });
+  });
+
+  describe('Integration with getValidatedCAGEDVoicings', () => {
+    it('should provide validated voicings for chords missing in chords-db', () => {
+      expect(getChordVoicingsFromDB('C', '13b9')).toHaveLength(0);
+
+      const voicings = getValidatedCAGEDVoicings('C', '13b9');
+      expect(voicings.length).toBeGreaterThan(0);
+      voicings.forEach(v => expect(v.validated).toBe(true));
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * AlphaTab Asset Locations
+ *
+ * The music font (Bravura) and the soundfont (sonivox.sf2) are served from local
+ * assets instead of a CDN, so playback works offline and always matches the
+ * installed @coderline/alphatab version:
+ * - vite.config.ts serves node_modules/@coderline/alphatab/dist/{font,soundfont}
+ *   at ALPHATAB_ASSET_PATH during development and copies them into the build
+ * - AlphaTabPlayer checks that the assets are reachable before it starts
+ */
+
+/**
+ * Default URL path of the alphaTab assets (vite.config.ts serves them at the same path)
+ */
+export const ALPHATAB_ASSET_PATH = '/alphatab/';
+
+/**
+ * Asset files relative to the asset path (same layout as alphaTab's dist folder)
+ */
+export const ALPHATAB_ASSET_FILES = {
+  fontDirectory: 'font/',
+  font: 'font/Bravura.woff2',
+  soundFont: 'soundfont/sonivox.sf2'
+};
+
+/**
+ * Builds the alphaTab asset URLs for an asset path
+ *
+ * @param assetPath Base path or URL of the assets (trailing slash optional)
+ * @returns Font directory, font file and soundfont URLs
+ *
+ * @example
+ * getAlphaTabAssetUrls('/static/alphatab')
+ * // => { fontDirectory: '/static/alphatab/font/', font: '/static/alphatab/font/Bravura.woff2',
+ * //      soundFont: '/static/alphatab/soundfont/sonivox.sf2' }
+ */
+export function getAlphaTabAssetUrls(assetPath: string = ALPHATAB_ASSET_PATH): {
+  fontDirectory: string;
+  font: string;
+  soundFont: string;
+} {
+  const base = assetPath.endsWith('/') ? assetPath : `${assetPath}/`;
+
+  return {
+    fontDirectory: base + ALPHATAB_ASSET_FILES.fontDirectory,
+    font: base + ALPHATAB_ASSET_FILES.font,
+    soundFont: base + ALPHATAB_ASSET_FILES.soundFont
+  };
+}
+
+/**
+ * Checks which alphaTab assets cannot be loaded
+ * A HEAD request per file; files that fail or return an error status are missing.
+ *
+ * @param assetPath Base path or URL of the assets
+ * @param fetchFn Fetch implementation (default: window fetch)
+ * @returns URLs of the missing files (empty if everything is there)
+ *
+ * @example
+ * await findMissingAlphaTabAssets('/alphatab/')
+ * // => [] or ['/alphatab/soundfont/sonivox.sf2']
+ */
+export async function findMissingAlphaTabAssets(
+  assetPath: string = ALPHATAB_ASSET_PATH,
+  fetchFn: typeof fetch = fetch
+): Promise<string[]> {
+  const { font, soundFont } = getAlphaTabAssetUrls(assetPath);
+
+  const results = await Promise.all(
+    [font, soundFont].map(async url => {
+      try {
+        const response = await fetchFn(url, { method: 'HEAD' });
+        return response.ok ? null : url;
+      } catch {
+        return url;
+      }
+    })
+  );
+
+  return results.filter((url): url is string => url !== null);
+}
@@ -4,10 +4,23 @@
  * Generates correct chord voicings for AlphaTab using:
  * - chords-db for accurate fret positions
  * - Tonal.js for music theory validation
+ * - The voicing generator for slash chords missing in chords-db
+ * - The voice leading optimizer for smooth progressions (optional)
+ * - Position-locked voicing in one neck region (optional)
+ * - Alternate tunings (the staff is written in the tuning)
+ * - Strumming or fingerpicking patterns, tempo and time signature (optional)
  */
 
 import { getChordVoicingsFromDB, ChordPosition, toAbsoluteFrets } from './chordDatabase';
-import { getChordNotes, validateChordVoicing } from './musicTheory';
+import { Note } from 'tonal';
+import { getChordNotes, analyzeChordVoicing, parseSlashQuality, STANDARD_TUNING } from './musicTheory';
+import { getShapeNote, getShapeQuality } from './capo';
+import { generateVoicings, voicingToChordPosition, getOptionalTones } from './voicingGenerator';
+import { voiceProgression } from './voiceLeading';
+import { voiceProgressionInPosition, NeckWindow } from './positionVoicing';
+import { strumChordToAlphaTeX, StrumPattern, TimeSignature, DEFAULT_RHYTHM } from './strumming';
+import { pickChordToAlphaTeX, PickingPattern } from './fingerpicking';
+import { getOpenStringMidi, isStandardTuning } from './tunings';
 
 /**
  * Converts fret array to AlphaTeX notation
@@ -45,43 +58,63 @@ function fretsToAlphaTeX(frets: number[]): string {
  * @returns AlphaTeX notation string
  */
 export function getValidatedChordForAlphaTab(note: string, quality: string): string {
+  return fretsToAlphaTeX(getValidatedChordFrets(note, quality));
+}
+
+/**
+ * Absolute frets of the best chords-db voicing (open E shape as fallback)
+ */
+function getValidatedChordFrets(note: string, quality: string, tuning: string[] = STANDARD_TUNING): number[] {
+  const fallback = [0, 0, 0, 0, 0, 0]; // Open E major shape
+
   // 1. Get theoretical notes from Tonal.js
   const theoreticalNotes = getChordNotes(note, quality);
 
   if (theoreticalNotes.length === 0) {
     console.warn(`⚠️ Unknown chord: ${note}${quality} - using fallback`);
-    return '(0.6 0.5 0.4 0.3 0.2 0.1).1'; // Open E major fallback
+    return fallback;
   }
 
-  // 2. Get all voicings from chords-db
-  const voicings = getChordVoicingsFromDB(note, quality);
+  // 2. Get all voicings from chords-db (slash chords: generated if chords-db has none)
+  const { bass } = parseSlashQuality(quality);
+  let voicings = getChordVoicingsFromDB(note, quality, tuning);
+  if (voicings.length === 0 && bass) {
+    voicings = generateVoicings(note, quality, { tuning, maxResults: 10 }).map(v => voicingToChordPosition(v.frets));
+  }
 
   if (voicings.length === 0) {
     console.warn(`⚠️ No voicings found for ${note}${quality} in database - using fallback`);
-    return '(0.6 0.5 0.4 0.3 0.2 0.1).1';
+    return fallback;
   }
 
   // 3. Find the best voicing (validated + easy to play)
-  const validatedVoicing = findBestVoicing(voicings, theoreticalNotes);
+  const validatedVoicing = findBestVoicing(voicings, theoreticalNotes, {
+    tuning,
+    optionalNotes: getOptionalTones(note, theoreticalNotes),
+    bassNote: bass ?? undefined
+  });
 
   if (!validatedVoicing) {
     console.warn(`⚠️ No valid voicing found for ${note}${quality} - using first available`);
-    const absoluteFrets = toAbsoluteFrets(voicings[0]);
-    return fretsToAlphaTeX(absoluteFrets);
+    return toAbsoluteFrets(voicings[0]);
   }
 
-  // 4. Convert to AlphaTeX using absolute frets
-  const absoluteFrets = toAbsoluteFrets(validatedVoicing);
-  return fretsToAlphaTeX(absoluteFrets);
+  // 4. Absolute frets for AlphaTeX
+  return toAbsoluteFrets(validatedVoicing);
 }
 
 /**
  * Finds the best voicing based on validation and playability
+ * Voicings with wrong extra notes, missing tones or a wrong slash bass are rejected,
+ * voicings that leave out an optional tone (e.g. the 5th) are ranked lower.
  */
 function findBestVoicing(
   voicings: ChordPosition[],
-  expectedNotes: string[]
+  expectedNotes: string[],
+  options: { tuning?: string[]; optionalNotes?: string[]; bassNote?: string } = {}
 ): ChordPosition | null {
+  const { tuning = STANDARD_TUNING, ...analysisOptions } = options;
+
   // Score each voicing
   const scoredVoicings = voicings.map(voicing => {
     let score = 0;
@@ -90,13 +123,16 @@ function findBestVoicing(
     const absoluteFrets = toAbsoluteFrets(voicing);
 
     // CRITICAL: Validate against music theory (+1000 points)
-    const isValid = validateChordVoicing(absoluteFrets, expectedNotes);
-    if (isValid) {
+    const analysis = analyzeChordVoicing(absoluteFrets, expectedNotes, tuning, analysisOptions);
+    if (analysis.isValid) {
       score += 1000;
     } else {
       return { voicing, score: -1 }; // Invalid voicings get -1
     }
 
+    // Penalty for omitted optional tones (-30 points per tone)
+    score -= analysis.omittedNotes.length * 30;
+
     // Prefer open positions (+100 points)
     const hasOpenStrings = absoluteFrets.some(f => f === 0);
     if (hasOpenStrings) {
@@ -122,22 +158,108 @@ function findBestVoicing(
   return best ? best.voicing : null;
 }
 
+/**
+ * Absolute frets of every chord of a progression, as written in the tablature
+ * With a capo the frets are those of the capo shapes (relative to the capo),
+ * in another tuning the frets played in that tuning.
+ *
+ * @param chords Array of chords with note and quality (sounding chords)
+ * @param options Optional settings: capo fret (default: 0), voiceLeading (default: false), neckWindow (default: none),
+ *   tuning (open string notes, low to high; default: standard)
+ * @returns One fret array per chord (low E to high E, -1 = muted)
+ *
+ * @example
+ * getProgressionFrets([{ note: 'C', quality: '' }, { note: 'G', quality: '' }])
+ * // => [[-1, 3, 2, 0, 1, 0], [3, 2, 0, 0, 0, 3]]
+ */
+export function getProgressionFrets(
+  chords: Array<{ note: string; quality: string }>,
+  options: { capo?: number; voiceLeading?: boolean; neckWindow?: NeckWindow | null; tuning?: string[] } = {}
+): number[][] {
+  const { capo = 0, voiceLeading = false, neckWindow = null, tuning = STANDARD_TUNING } = options;
+
+  const shapeChords = chords.map(chord => ({
+    note: getShapeNote(chord.note, capo),
+    quality: getShapeQuality(chord.quality, capo)
+  }));
+  const voicedChords = neckWindow
+    ? voiceProgressionInPosition(shapeChords, neckWindow, { tuning })
+    : voiceLeading
+      ? voiceProgression(shapeChords, { tuning })
+      : null;
+
+  return shapeChords.map((shapeChord, index) =>
+    voicedChords?.[index].frets ?? getValidatedChordFrets(shapeChord.note, shapeChord.quality, tuning)
+  );
+}
+
 /**
  * Generates complete AlphaTeX notation for a chord progression
  * with validated voicings
  *
- * @param chords Array of chords with note and quality
+ * With a capo, each chord is voiced as its capo shape and the staff gets a
+ * \capo directive, so tab numbers are relative to the capo and playback
+ * still sounds the requested chords. In an alternate tuning the chords are
+ * voiced in that tuning and the staff gets a \tuning directive.
+ *
+ * With voiceLeading, the voicings are chosen together (voiceProgression) so the
+ * hand stays in one area of the neck, instead of the best voicing of each chord.
+ * With a neckWindow, every chord is voiced inside that fret region (voiceProgressionInPosition);
+ * this takes precedence over voiceLeading.
+ *
+ * Each chord gets one bar: a block chord by default, or the strumPattern
+ * (see strumming.ts) filled into the time signature. A pickingPattern
+ * (see fingerpicking.ts) plays the voicing as picked single notes instead.
+ *
+ * @param chords Array of chords with note and quality (sounding chords)
+ * @param options Optional settings: capo fret (default: 0), voiceLeading (default: false), neckWindow (default: none),
+ *   tuning (default: standard), strumPattern (default: none), pickingPattern (default: none), tempo (default: 80), timeSignature (default: 4/4),
+ *   progressionFrets (frets from getProgressionFrets with the same options, to skip voicing the chords again)
  * @returns Complete AlphaTeX notation
  */
 export function generateValidatedAlphaTeX(
-  chords: Array<{ note: string; quality: string }>
+  chords: Array<{ note: string; quality: string }>,
+  options: {
+    capo?: number;
+    voiceLeading?: boolean;
+    neckWindow?: NeckWindow | null;
+    tuning?: string[];
+    strumPattern?: StrumPattern | null;
+    pickingPattern?: PickingPattern | null;
+    tempo?: number;
+    timeSignature?: TimeSignature;
+    progressionFrets?: number[][];
+  } = {}
 ): string {
+  const {
+    capo = 0,
+    voiceLeading = false,
+    neckWindow = null,
+    tuning = STANDARD_TUNING,
+    strumPattern = DEFAULT_RHYTHM.strumPattern,
+    pickingPattern = DEFAULT_RHYTHM.pickingPattern,
+    tempo = DEFAULT_RHYTHM.tempo,
+    timeSignature = DEFAULT_RHYTHM.timeSignature,
+    progressionFrets = getProgressionFrets(chords, { capo, voiceLeading, neckWindow, tuning })
+  } = options;
+
   let alphaTex = '\\title "Chord Progression"\n';
-  alphaTex += '\\tempo 80\n';
+  alphaTex += `\\tempo ${tempo}\n`;
   alphaTex += '.\n'; // Guitar track
 
-  const chordNotations = chords.map(chord => {
-    const notation = getValidatedChordForAlphaTab(chord.note, chord.quality);
+  if (!isStandardTuning(tuning)) {
+    alphaTex += `${tuningToAlphaTeX(tuning)}\n`;
+  }
+
+  if (capo > 0) {
+    alphaTex += `\\capo ${capo}\n`;
+  }
+
+  const chordNotations = chords.map((chord, index) => {
+    const frets = progressionFrets[index];
+    const notation = pickingPattern
+      ? pickChordToAlphaTeX(frets, pickingPattern, timeSignature)
+      : strumChordToAlphaTeX(frets, strumPattern, timeSignature);
 
     // Log for debugging
     const theoreticalNotes = getChordNotes(chord.note, chord.quality);
@@ -146,11 +268,63 @@ export function generateValidatedAlphaTeX(
     return notation;
   });
 
+  // Time signature on the first bar (4/4 is AlphaTab's default)
+  if (timeSignature.numerator !== 4 || timeSignature.denominator !== 4) {
+    alphaTex += `\\ts ${timeSignature.numerator} ${timeSignature.denominator} `;
+  }
+
   alphaTex += chordNotations.join(' | ');
 
   return alphaTex;
 }
 
+/**
+ * AlphaTeX \tuning directive of a tuning (string pitches, high to low)
+ */
+function tuningToAlphaTeX(tuning: string[]): string {
+  const pitches = getOpenStringMidi(tuning).map(midi => Note.fromMidiSharps(midi)).reverse();
+  return `\\tuning (${pitches.join(' ')})`;
+}
+
+/**
+ * Generates AlphaTeX notation for an arpeggio as sequential single notes
+ * The arpeggio is played ascending and then descending back to the first note.
+ *
+ * @param notes Arpeggio notes in playing order (e.g. from generateArpeggioShape)
+ * @param options Optional settings: title, tempo (default: 100), duration (default: 8 = eighth notes)
+ * @returns Complete AlphaTeX notation
+ *
+ * @example
+ * generateArpeggioAlphaTeX([{ stringIndex: 1, fret: 3 }, { stringIndex: 2, fret: 2 }], { title: 'C arpeggio' })
+ * // => '\title "C arpeggio"\n\tempo 100\n.\n:8 3.5 2.4 3.5'
+ */
+export function generateArpeggioAlphaTeX(
+  notes: Array<{ stringIndex: number; fret: number }>,
+  options: { title?: string; tempo?: number; duration?: number } = {}
+): string {
+  const { title = 'Arpeggio', tempo = 100, duration = 8 } = options;
+
+  // Ascending, then descending without repeating the top note
+  const sequence = [...notes, ...notes.slice(0, -1).reverse()];
+
+  // String numbering in AlphaTeX: 1 = high E, 6 = low E
+  const beats = sequence.map(n => `${n.fret}.${6 - n.stringIndex}`);
+
+  // Group into bars of 4/4
+  const beatsPerBar = duration;
+  const bars: string[] = [];
+  for (let i = 0; i < beats.length; i += beatsPerBar) {
+    bars.push(beats.slice(i, i + beatsPerBar).join(' '));
+  }
+
+  let alphaTex = `\\title "${title}"\n`;
+  alphaTex += `\\tempo ${tempo}\n`;
+  alphaTex += '.\n';
+  alphaTex += `:${duration} ${bars.join(' | ')}`;
+
+  return alphaTex;
+}
+
 /**
  * Validates and fixes a chord voicing
  * Returns a corrected version if possible
@@ -166,7 +340,10 @@ export function validateAndFixVoicing(
   message: string;
 } {
   const theoreticalNotes = getChordNotes(note, quality);
-  const isValid = validateChordVoicing(frets, theoreticalNotes);
+  const optionalNotes = getOptionalTones(note, theoreticalNotes);
+  const { bass } = parseSlashQuality(quality);
+  const analysisOptions = { optionalNotes, bassNote: bass ?? undefined };
+  const isValid = analyzeChordVoicing(frets, theoreticalNotes, undefined, analysisOptions).isValid;
 
   if (isValid) {
     return {
@@ -178,7 +355,7 @@ export function validateAndFixVoicing(
 
   // Try to find a correct voicing from database
   const voicings = getChordVoicingsFromDB(note, quality);
-  const validVoicing = findBestVoicing(voicings, theoreticalNotes);
+  const validVoicing = findBestVoicing(voicings, theoreticalNotes, analysisOptions);
 
   if (validVoicing) {
     const absoluteFrets = toAbsoluteFrets(validVoicing);
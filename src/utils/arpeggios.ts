@@ -0,0 +1,155 @@
+/**
+ * CAGED Arpeggio Shapes
+ *
+ * Generates arpeggio fingerings for each CAGED position:
+ * - Position window from the CAGED chord shape (CAGED_SHAPES + transposeShape)
+ * - One or two chord tones per string inside that window
+ * - Major, minor, dominant 7, maj7, m7 and m7b5 arpeggios
+ *
+ * The notes are ordered low string to high string, so they can be
+ * played (and exported to AlphaTeX) as an ascending arpeggio.
+ */
+
+import { Note } from 'tonal';
+import { STANDARD_TUNING, getChordToneFunctions, ChordToneFunction } from './musicTheory';
+import { CAGEDShapeName, CAGED_ORDER, getCAGEDPosition, getCAGEDPositionNotes } from './cagedPositions';
+
+export type ArpeggioQuality = 'major' | 'minor' | '7' | 'maj7' | 'm7' | 'm7b5';
+
+export const ARPEGGIO_QUALITIES: ArpeggioQuality[] = ['major', 'minor', '7', 'maj7', 'm7', 'm7b5'];
+
+/**
+ * A single note of an arpeggio shape
+ */
+export interface ArpeggioNote {
+  stringIndex: number; // 0 = Low E, 5 = High E
+  fret: number;
+  note: string;
+  label: string;       // Interval label (e.g. '1', 'b3', 'b7')
+  function: ChordToneFunction;
+}
+
+// Chord quality passed to getChordNotes for each arpeggio quality
+const CHORD_QUALITY: Record<ArpeggioQuality, string> = {
+  major: '',
+  minor: 'm',
+  '7': '7',
+  maj7: 'maj7',
+  m7: 'm7',
+  m7b5: 'm7b5'
+};
+
+// Maximum number of arpeggio notes per string
+const MAX_NOTES_PER_STRING = 2;
+
+/**
+ * Maps an app chord quality to an arpeggio quality
+ *
+ * @param quality Chord quality (app convention, e.g. '', 'm', 'min7')
+ * @returns Arpeggio quality or null if there is no arpeggio shape for it
+ *
+ * @example
+ * toArpeggioQuality('') => 'major'
+ * toArpeggioQuality('min7') => 'm7'
+ * toArpeggioQuality('sus4') => null
+ */
+export function toArpeggioQuality(quality: string): ArpeggioQuality | null {
+  const mapping: Record<string, ArpeggioQuality> = {
+    '': 'major',
+    'major': 'major',
+    'm': 'minor',
+    'minor': 'minor',
+    '7': '7',
+    'maj7': 'maj7',
+    'm7': 'm7',
+    'min7': 'm7',
+    'm7b5': 'm7b5'
+  };
+
+  return mapping[quality] ?? null;
+}
+
+/**
+ * Generates the arpeggio shape of a chord in one CAGED position
+ *
+ * The CAGED chord shape (major shape for major/7/maj7, minor shape for
+ * minor/m7/m7b5) defines the fret window. On every string the chord tones
+ * closest to the chord shape are kept (at most two per string).
+ *
+ * @param root Root note of the chord
+ * @param shape CAGED shape
+ * @param quality Arpeggio quality
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Arpeggio notes, low string first, ascending fret per string
+ *
+ * @example
+ * generateArpeggioShape('C', 'A', 'major')
+ * // => Low E: 3 (G) | A: 3 (C) | D: 2 (E), 5 (G) | G: 5 (C) | B: 5 (E) | High E: 3 (G)
+ */
+export function generateArpeggioShape(
+  root: string,
+  shape: CAGEDShapeName,
+  quality: ArpeggioQuality,
+  tuning: string[] = STANDARD_TUNING
+): ArpeggioNote[] {
+  const isMajorFamily = quality === 'major' || quality === '7' || quality === 'maj7';
+  const position = getCAGEDPosition(root, shape, isMajorFamily ? 'major' : 'minor', tuning);
+
+  // Chord tones by semitones from the root (keeps the correct spelling, e.g. Bb not A#)
+  const rootChroma = Note.chroma(root) ?? 0;
+  const tones = new Map(
+    getChordToneFunctions(root, CHORD_QUALITY[quality]).map(tone => [
+      ((Note.chroma(tone.note) ?? 0) - rootChroma + 12) % 12,
+      tone
+    ])
+  );
+
+  const candidates = getCAGEDPositionNotes(position, root, [...tones.keys()], tuning);
+  const windowCenter = (position.minFret + position.maxFret) / 2;
+
+  const notes: ArpeggioNote[] = [];
+
+  for (let stringIndex = 0; stringIndex < tuning.length; stringIndex++) {
+    const chordFret = position.chordFrets[stringIndex];
+    const anchor = chordFret >= 0 ? chordFret : windowCenter;
+
+    candidates
+      .filter(c => c.stringIndex === stringIndex)
+      .sort((a, b) => Math.abs(a.fret - anchor) - Math.abs(b.fret - anchor))
+      .slice(0, MAX_NOTES_PER_STRING)
+      .sort((a, b) => a.fret - b.fret)
+      .forEach(c => {
+        const semitones = ((Note.chroma(c.note) ?? 0) - rootChroma + 12) % 12;
+        const tone = tones.get(semitones)!;
+        notes.push({
+          stringIndex,
+          fret: c.fret,
+          note: tone.note,
+          label: tone.label,
+          function: tone.function
+        });
+      });
+  }
+
+  return notes;
+}
+
+/**
+ * Generates arpeggio shapes for all five CAGED positions
+ *
+ * @param root Root note of the chord
+ * @param quality Arpeggio quality
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Arpeggio notes grouped by CAGED shape
+ */
+export function generateArpeggioShapes(
+  root: string,
+  quality: ArpeggioQuality,
+  tuning: string[] = STANDARD_TUNING
+): Record<CAGEDShapeName, ArpeggioNote[]> {
+  const shapes = {} as Record<CAGEDShapeName, ArpeggioNote[]>;
+  CAGED_ORDER.forEach(shape => {
+    shapes[shape] = generateArpeggioShape(root, shape, quality, tuning);
+  });
+  return shapes;
+}
@@ -0,0 +1,142 @@
+/**
+ * CAGED Scale Positions
+ *
+ * Connects CAGED chord shapes to scale boxes on the fretboard:
+ * - Fret window of a CAGED shape (from transposeShape)
+ * - Scale notes (pentatonic or major/minor) inside that window
+ * - Chord tones of the shape, so the chord can be seen inside the scale
+ */
+
+import { Note, Interval } from 'tonal';
+import { STANDARD_TUNING } from './musicTheory';
+import { transposeShape } from './cagedShapes';
+
+export type CAGEDShapeName = 'C' | 'A' | 'G' | 'E' | 'D';
+
+/**
+ * CAGED shapes in the order they follow each other up the neck
+ */
+export const CAGED_ORDER: CAGEDShapeName[] = ['C', 'A', 'G', 'E', 'D'];
+
+/**
+ * Scale box intervals (semitones from root) shown around a CAGED shape
+ */
+export const CAGED_BOX_INTERVALS: Record<'pentatonic' | 'diatonic', Record<'major' | 'minor', number[]>> = {
+  pentatonic: {
+    major: [0, 2, 4, 7, 9],
+    minor: [0, 3, 5, 7, 10]
+  },
+  diatonic: {
+    major: [0, 2, 4, 5, 7, 9, 11],
+    minor: [0, 2, 3, 5, 7, 8, 10]
+  }
+};
+
+/**
+ * A CAGED shape placed on the neck
+ */
+export interface CAGEDPosition {
+  shape: CAGEDShapeName;
+  chordFrets: number[]; // Absolute frets of the chord shape [Low E ... High E]
+  minFret: number;      // First fret of the window
+  maxFret: number;      // Last fret of the window
+}
+
+/**
+ * A single fretboard position inside a CAGED window
+ */
+export interface CAGEDPositionNote {
+  stringIndex: number; // 0 = Low E, 5 = High E
+  fret: number;
+  note: string;
+  isChordTone: boolean; // Part of the fingered chord shape
+  isRoot: boolean;
+}
+
+/**
+ * Places a CAGED shape on the neck and calculates its fret window
+ * The window covers the chord shape plus one fret on each side, which is
+ * where the surrounding scale box lies.
+ *
+ * @param root Root note of the chord
+ * @param shape CAGED shape
+ * @param quality 'major' or 'minor'
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Position with chord frets and window
+ *
+ * @example
+ * getCAGEDPosition('C', 'E', 'major')
+ * // => { shape: 'E', chordFrets: [8, 10, 10, 9, 8, 8], minFret: 7, maxFret: 11 }
+ */
+export function getCAGEDPosition(
+  root: string,
+  shape: CAGEDShapeName,
+  quality: 'major' | 'minor',
+  tuning: string[] = STANDARD_TUNING
+): CAGEDPosition {
+  const chordFrets = transposeShape(root, shape, quality, { tuning });
+  const playedFrets = chordFrets.filter(fret => fret >= 0);
+
+  const lowest = playedFrets.length > 0 ? Math.min(...playedFrets) : 0;
+  const highest = playedFrets.length > 0 ? Math.max(...playedFrets) : 0;
+
+  return {
+    shape,
+    chordFrets,
+    minFret: Math.max(0, lowest - 1),
+    maxFret: highest + 1
+  };
+}
+
+/**
+ * Checks whether a fret lies inside the window of a CAGED position
+ *
+ * @param position CAGED position
+ * @param fret Fret number
+ * @returns true if the fret is inside the window
+ */
+export function isInCAGEDWindow(position: CAGEDPosition, fret: number): boolean {
+  return fret >= position.minFret && fret <= position.maxFret;
+}
+
+/**
+ * Gets all scale notes inside the window of a CAGED position
+ *
+ * @param position CAGED position
+ * @param root Root note of the scale (same as the chord root)
+ * @param intervals Scale intervals in semitones (e.g. CAGED_BOX_INTERVALS.pentatonic.major)
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Scale notes in the window, chord tones flagged
+ *
+ * @example
+ * getCAGEDPositionNotes(getCAGEDPosition('C', 'A', 'major'), 'C', CAGED_BOX_INTERVALS.pentatonic.major)
+ * // => [{ stringIndex: 0, fret: 3, note: 'G', isChordTone: false, isRoot: false }, ...]
+ */
+export function getCAGEDPositionNotes(
+  position: CAGEDPosition,
+  root: string,
+  intervals: number[],
+  tuning: string[] = STANDARD_TUNING
+): CAGEDPositionNote[] {
+  const rootChroma = Note.chroma(root) ?? 0;
+  const notes: CAGEDPositionNote[] = [];
+
+  tuning.forEach((openNote, stringIndex) => {
+    const openChroma = Note.chroma(openNote) ?? 0;
+
+    for (let fret = position.minFret; fret <= position.maxFret; fret++) {
+      const interval = (openChroma + fret - rootChroma + 120) % 12;
+      if (!intervals.includes(interval)) continue;
+
+      notes.push({
+        stringIndex,
+        fret,
+        note: Note.simplify(Note.transpose(root, Interval.fromSemitones(interval))),
+        isChordTone: position.chordFrets[stringIndex] === fret,
+        isRoot: interval === 0
+      });
+    }
+  });
+
+  return notes;
+}
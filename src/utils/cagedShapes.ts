@@ -1,11 +1,14 @@
 /**
- * CAGED Shape Templates für Dur und Moll Akkorde
+ * CAGED Shape Templates für alle Akkord-Qualitäten
  *
  * Diese Templates definieren die Grundformen der 5 CAGED-Positionen
- * als relative Fret-Offsets zum Root-Ton.
+ * als relative Fret-Offsets zum Root-Ton - für Dur, Moll und alle
+ * weiteren Qualitäten, die mapQualityToSuffix kennt (7, maj7, sus4, add9, ...).
  */
 
-import { getChordNotes, fretsToNotes } from './musicTheory';
+import { getChordNotes, fretsToNotes, STANDARD_TUNING } from './musicTheory';
+import { mapQualityToSuffix } from './chordDatabase';
+import { retuneFrets } from './tunings';
 import { Note } from 'tonal';
 
 export interface CAGEDShapeTemplate {
@@ -19,15 +22,52 @@ export interface CAGEDShapeTemplate {
   fingers?: number[];
 }
 
+/**
+ * Akkord-Qualitäten mit CAGED Templates (chords-db Suffixe, siehe mapQualityToSuffix)
+ */
+export type CAGEDQuality =
+  | 'major' | 'minor'
+  | '7' | 'maj7' | 'm7' | 'mmaj7' | 'm7b5' | 'dim7' | 'maj7#5' | 'aug7'
+  | 'sus2' | 'sus4' | 'dim' | 'aug'
+  | '6' | 'm6' | 'add9' | '9' | '11' | '13';
+
+export const CAGED_QUALITIES: CAGEDQuality[] = [
+  'major', 'minor',
+  '7', 'maj7', 'm7', 'mmaj7', 'm7b5', 'dim7', 'maj7#5', 'aug7',
+  'sus2', 'sus4', 'dim', 'aug',
+  '6', 'm6', 'add9', '9', '11', '13'
+];
+
+/**
+ * Ordnet eine App-Akkord-Qualität dem passenden CAGED Template zu
+ *
+ * @param quality - Akkord-Qualität (App-Konvention, z.B. '', 'm', 'min7', 'maj7')
+ * @returns CAGED-Qualität oder null, wenn es keine Templates dafür gibt
+ *
+ * @example
+ * toCAGEDQuality('') => 'major'
+ * toCAGEDQuality('min7') => 'm7'
+ * toCAGEDQuality('7#9') => null
+ */
+export function toCAGEDQuality(quality: string): CAGEDQuality | null {
+  const suffix = mapQualityToSuffix(quality);
+  return (CAGED_QUALITIES as string[]).includes(suffix) ? (suffix as CAGEDQuality) : null;
+}
+
 /**
  * CAGED Shape Templates für alle 5 Positionen
  *
  * Format: CAGED_SHAPES[shapeType][quality]
- * Shapes basieren auf den offenen Grundformen (E, A, D, G, C)
+ * Shapes basieren auf den offenen Grundformen (E, A, D, G, C).
+ *
+ * Erweiterte Akkorde bleiben in der Griffform des Dur- bzw. Moll-Shapes
+ * (Root auf derselben Saite) und sind verschiebbar: Leersaiten werden beim
+ * Transponieren zum Barré. Bei Akkorden mit mehr als drei Tönen darf die
+ * reine Quinte fehlen (siehe getRequiredTones).
  */
 export const CAGED_SHAPES: Record<
   'E' | 'A' | 'D' | 'G' | 'C',
-  Record<'major' | 'minor', CAGEDShapeTemplate>
+  Record<CAGEDQuality, CAGEDShapeTemplate>
 > = {
   E: {
     major: {
@@ -41,7 +81,28 @@ export const CAGED_SHAPES: Record<
       rootString: 0,
       rootFret: 0,
       fingers: [0, 2, 3, 0, 0, 0]
-    }
+    },
+    // Septakkorde
+    '7': { frets: [0, 2, 0, 1, 0, 0], rootString: 0, rootFret: 0 },
+    maj7: { frets: [0, 2, 1, 1, 0, 0], rootString: 0, rootFret: 0 },
+    m7: { frets: [0, 2, 0, 0, 0, 0], rootString: 0, rootFret: 0 },
+    mmaj7: { frets: [0, 2, 1, 0, 0, 0], rootString: 0, rootFret: 0 },
+    m7b5: { frets: [0, 1, 2, 0, 3, 0], rootString: 0, rootFret: 0 },
+    dim7: { frets: [0, 1, 2, 0, 2, 0], rootString: 0, rootFret: 0 },
+    'maj7#5': { frets: [0, 3, 1, 1, 1, 0], rootString: 0, rootFret: 0 },
+    aug7: { frets: [0, 3, 0, 1, 1, 0], rootString: 0, rootFret: 0 },
+    // Sus, vermindert, übermäßig
+    sus2: { frets: [0, 2, 2, -1, 0, 2], rootString: 0, rootFret: 0 },
+    sus4: { frets: [0, 2, 2, 2, 0, 0], rootString: 0, rootFret: 0 },
+    dim: { frets: [0, 1, 2, 0, -1, 0], rootString: 0, rootFret: 0 },
+    aug: { frets: [0, 3, 2, 1, 1, 0], rootString: 0, rootFret: 0 },
+    // Sexten und Optionen
+    '6': { frets: [0, 2, 2, 1, 2, 0], rootString: 0, rootFret: 0 },
+    m6: { frets: [0, 2, 2, 0, 2, 0], rootString: 0, rootFret: 0 },
+    add9: { frets: [0, 2, 2, 1, 0, 2], rootString: 0, rootFret: 0 },
+    '9': { frets: [0, 2, 0, 1, 0, 2], rootString: 0, rootFret: 0 },
+    '11': { frets: [0, 2, 0, 2, 0, 0], rootString: 0, rootFret: 0 },
+    '13': { frets: [0, 2, 0, 1, 2, 2], rootString: 0, rootFret: 0 }
   },
   A: {
     major: {
@@ -55,7 +116,28 @@ export const CAGED_SHAPES: Record<
       rootString: 1,
       rootFret: 0,
       fingers: [0, 0, 2, 3, 1, 0]
-    }
+    },
+    // Septakkorde
+    '7': { frets: [-1, 0, 2, 0, 2, 0], rootString: 1, rootFret: 0 },
+    maj7: { frets: [-1, 0, 2, 1, 2, 0], rootString: 1, rootFret: 0 },
+    m7: { frets: [-1, 0, 2, 0, 1, 0], rootString: 1, rootFret: 0 },
+    mmaj7: { frets: [-1, 0, 2, 1, 1, 0], rootString: 1, rootFret: 0 },
+    m7b5: { frets: [-1, 0, 1, 0, 1, -1], rootString: 1, rootFret: 0 },
+    dim7: { frets: [-1, 0, 1, -1, 1, 2], rootString: 1, rootFret: 0 },
+    'maj7#5': { frets: [-1, 0, 3, 1, 2, -1], rootString: 1, rootFret: 0 },
+    aug7: { frets: [-1, 0, 3, 0, 2, 1], rootString: 1, rootFret: 0 },
+    // Sus, vermindert, übermäßig
+    sus2: { frets: [-1, 0, 2, 2, 0, 0], rootString: 1, rootFret: 0 },
+    sus4: { frets: [-1, 0, 2, 2, 3, 0], rootString: 1, rootFret: 0 },
+    dim: { frets: [-1, 0, 1, 2, 1, -1], rootString: 1, rootFret: 0 },
+    aug: { frets: [-1, 0, 3, 2, 2, 1], rootString: 1, rootFret: 0 },
+    // Sexten und Optionen
+    '6': { frets: [-1, 0, 2, 2, 2, 2], rootString: 1, rootFret: 0 },
+    m6: { frets: [-1, 0, 2, 2, 1, 2], rootString: 1, rootFret: 0 },
+    add9: { frets: [-1, 0, 2, 4, 2, 0], rootString: 1, rootFret: 0 },
+    '9': { frets: [-1, 0, -1, 4, 2, 3], rootString: 1, rootFret: 0 },
+    '11': { frets: [-1, 0, 0, 0, 0, 0], rootString: 1, rootFret: 0 },
+    '13': { frets: [-1, 0, 2, 0, 2, 2], rootString: 1, rootFret: 0 }
   },
   D: {
     major: {
@@ -69,7 +151,28 @@ export const CAGED_SHAPES: Record<
       rootString: 2,
       rootFret: 0,
       fingers: [0, 0, 0, 2, 3, 1]
-    }
+    },
+    // Septakkorde
+    '7': { frets: [-1, -1, 0, 2, 1, 2], rootString: 2, rootFret: 0 },
+    maj7: { frets: [-1, -1, 0, 2, 2, 2], rootString: 2, rootFret: 0 },
+    m7: { frets: [-1, -1, 0, 2, 1, 1], rootString: 2, rootFret: 0 },
+    mmaj7: { frets: [-1, -1, 0, 2, 2, 1], rootString: 2, rootFret: 0 },
+    m7b5: { frets: [-1, -1, 0, 1, 1, 1], rootString: 2, rootFret: 0 },
+    dim7: { frets: [-1, -1, 0, 1, 0, 1], rootString: 2, rootFret: 0 },
+    'maj7#5': { frets: [-1, -1, 0, 3, 2, 2], rootString: 2, rootFret: 0 },
+    aug7: { frets: [-1, -1, 0, 3, 1, 2], rootString: 2, rootFret: 0 },
+    // Sus, vermindert, übermäßig
+    sus2: { frets: [-1, -1, 0, 2, 3, 0], rootString: 2, rootFret: 0 },
+    sus4: { frets: [-1, -1, 0, 2, 3, 3], rootString: 2, rootFret: 0 },
+    dim: { frets: [-1, -1, 0, 1, 3, 1], rootString: 2, rootFret: 0 },
+    aug: { frets: [-1, -1, 0, 3, 3, 2], rootString: 2, rootFret: 0 },
+    // Sexten und Optionen
+    '6': { frets: [-1, -1, 0, 2, 0, 2], rootString: 2, rootFret: 0 },
+    m6: { frets: [-1, -1, 0, 2, 0, 1], rootString: 2, rootFret: 0 },
+    add9: { frets: [-1, -1, 0, 2, 5, 2], rootString: 2, rootFret: 0 },
+    '9': { frets: [-1, -1, 0, 5, 5, 2], rootString: 2, rootFret: 0 },
+    '11': { frets: [-1, -1, 0, 2, 1, 3], rootString: 2, rootFret: 0 },
+    '13': { frets: [-1, -1, 0, 4, 1, 2], rootString: 2, rootFret: 0 }
   },
   G: {
     major: {
@@ -83,7 +186,28 @@ export const CAGED_SHAPES: Record<
       rootString: 0,
       rootFret: 3,
       fingers: [3, 1, 0, 0, 4, 4]
-    }
+    },
+    // Septakkorde
+    '7': { frets: [3, 2, 0, 0, 0, 1], rootString: 0, rootFret: 3 },
+    maj7: { frets: [3, 2, 0, 0, 0, 2], rootString: 0, rootFret: 3 },
+    m7: { frets: [3, 1, 0, 0, -1, 1], rootString: 0, rootFret: 3 },
+    mmaj7: { frets: [3, 1, 0, 0, -1, 2], rootString: 0, rootFret: 3 },
+    m7b5: { frets: [3, 1, 3, 3, 2, 1], rootString: 0, rootFret: 3 },
+    dim7: { frets: [3, 1, -1, 0, 2, 0], rootString: 0, rootFret: 3 },
+    'maj7#5': { frets: [3, -1, 1, 0, 0, 2], rootString: 0, rootFret: 3 },
+    aug7: { frets: [3, -1, 1, 0, 0, 1], rootString: 0, rootFret: 3 },
+    // Sus, vermindert, übermäßig
+    sus2: { frets: [3, 0, 0, 0, 3, 3], rootString: 0, rootFret: 3 },
+    sus4: { frets: [3, 3, 0, 0, 1, 3], rootString: 0, rootFret: 3 },
+    dim: { frets: [3, 1, -1, 0, 2, -1], rootString: 0, rootFret: 3 },
+    aug: { frets: [3, 2, 1, 0, 0, -1], rootString: 0, rootFret: 3 },
+    // Sexten und Optionen
+    '6': { frets: [3, 2, 0, 0, 0, 0], rootString: 0, rootFret: 3 },
+    m6: { frets: [3, 1, 0, 0, 3, 0], rootString: 0, rootFret: 3 },
+    add9: { frets: [3, 0, 0, 0, 0, 3], rootString: 0, rootFret: 3 },
+    '9': { frets: [3, 0, 0, 0, 0, 1], rootString: 0, rootFret: 3 },
+    '11': { frets: [3, 0, 0, 0, 1, 1], rootString: 0, rootFret: 3 },
+    '13': { frets: [3, 2, 2, 0, 0, 1], rootString: 0, rootFret: 3 }
   },
   C: {
     major: {
@@ -97,7 +221,28 @@ export const CAGED_SHAPES: Record<
       rootString: 1,
       rootFret: 3,
       fingers: [0, 4, 2, 0, 1, 3]
-    }
+    },
+    // Septakkorde
+    '7': { frets: [-1, 3, 2, 3, 1, -1], rootString: 1, rootFret: 3 },
+    maj7: { frets: [-1, 3, 2, 0, 0, 0], rootString: 1, rootFret: 3 },
+    m7: { frets: [-1, 3, 1, 3, 1, 3], rootString: 1, rootFret: 3 },
+    mmaj7: { frets: [-1, 3, 1, 0, 0, 3], rootString: 1, rootFret: 3 },
+    m7b5: { frets: [-1, 3, 1, 3, 1, 2], rootString: 1, rootFret: 3 },
+    dim7: { frets: [-1, 3, 1, 2, 1, 2], rootString: 1, rootFret: 3 },
+    'maj7#5': { frets: [-1, 3, 2, 1, 0, 0], rootString: 1, rootFret: 3 },
+    aug7: { frets: [-1, 3, 2, 3, -1, 4], rootString: 1, rootFret: 3 },
+    // Sus, vermindert, übermäßig
+    sus2: { frets: [-1, 3, 0, 0, 1, -1], rootString: 1, rootFret: 3 },
+    sus4: { frets: [-1, 3, 3, 0, 1, 1], rootString: 1, rootFret: 3 },
+    dim: { frets: [-1, 3, 1, -1, 1, 2], rootString: 1, rootFret: 3 },
+    aug: { frets: [-1, 3, 2, 1, 1, 0], rootString: 1, rootFret: 3 },
+    // Sexten und Optionen
+    '6': { frets: [-1, 3, 2, 2, 1, 0], rootString: 1, rootFret: 3 },
+    m6: { frets: [-1, 3, 1, 2, 1, 3], rootString: 1, rootFret: 3 },
+    add9: { frets: [-1, 3, 2, 0, 3, 0], rootString: 1, rootFret: 3 },
+    '9': { frets: [-1, 3, 2, 3, 3, 3], rootString: 1, rootFret: 3 },
+    '11': { frets: [-1, 3, 3, 3, 3, 3], rootString: 1, rootFret: 3 },
+    '13': { frets: [-1, 3, 2, 3, 3, 5], rootString: 1, rootFret: 3 }
   }
 };
 
@@ -107,8 +252,9 @@ export const CAGED_SHAPES: Record<
  *
  * @param rootNote - Root-Note des Zielakkords (z.B. 'C', 'G', 'F#', 'Bb')
  * @param shapeType - CAGED Shape Type ('E', 'A', 'D', 'G', 'C')
- * @param quality - Akkord-Qualität ('major' oder 'minor')
- * @param options - Optional: { validate: boolean } (default: true)
+ * @param quality - Akkord-Qualität ('major', 'minor', '7', 'maj7', ... - siehe CAGEDQuality)
+ * @param options - Optional: { validate: boolean } (default: true),
+ *                  { tuning: string[] } (default: Standard-Stimmung, tief nach hoch)
  * @returns Absolute Fret-Positionen als Array [Low E, A, D, G, B, High E]
  *
  * @example
@@ -120,14 +266,28 @@ export const CAGED_SHAPES: Record<
  * transposeShape('G', 'E', 'major')
  * // Erwartet: [3, 5, 5, 4, 3, 3]
  * // G-Dur mit E-Shape: Root G auf Low E (Bund 3)
+ *
+ * @example
+ * transposeShape('A', 'C', 'major')
+ * // Erwartet: [-1, 12, 11, 9, 10, 9]
+ * // A-Dur mit C-Shape: Root A auf A-String (Bund 12), da Bund 0 unter den Sattel führt
+ *
+ * @example
+ * transposeShape('D', 'E', 'maj7')
+ * // Erwartet: [10, 12, 11, 11, 10, 10]
+ *
+ * @example
+ * transposeShape('E', 'E', 'major', { tuning: ['D', 'A', 'D', 'G', 'B', 'E'] })
+ * // Erwartet: [2, 2, 2, 1, 0, 0]
+ * // Drop D: Die tiefe Saite braucht Bund 2, um E zu klingen
  */
 export function transposeShape(
   rootNote: string,
   shapeType: 'E' | 'A' | 'D' | 'G' | 'C',
-  quality: 'major' | 'minor',
-  options: { validate?: boolean } = {}
+  quality: CAGEDQuality,
+  options: { validate?: boolean; tuning?: string[] } = {}
 ): number[] {
-  const { validate = true } = options;
+  const { validate = true, tuning = STANDARD_TUNING } = options;
 
   // 1. Hole das Template für den gewünschten Shape
   const template = CAGED_SHAPES[shapeType][quality];
@@ -136,14 +296,23 @@ export function transposeShape(
   const targetRootFret = getNoteOnString(rootNote, template.rootString);
 
   // 3. Berechne den Transpositions-Offset
-  const offset = targetRootFret - template.rootFret;
+  //    C- und G-Shape (Root im 3. Bund) würden für tiefe Roots unter den Sattel rutschen:
+  //    dann eine Oktave höher greifen
+  let offset = targetRootFret - template.rootFret;
+  const lowestTemplateFret = Math.min(...template.frets.filter(fret => fret >= 0));
+  if (lowestTemplateFret + offset < 0) {
+    offset += 12;
+  }
 
   // 4. Transponiere alle Frets um den Offset
-  const transposed = template.frets.map(fret => {
+  const transposedStandard = template.frets.map(fret => {
     if (fret === -1) return -1; // Muted strings bleiben muted
     return fret + offset;
   });
 
+  // 4b. Passe die Frets an die gewählte Stimmung an (gleiche Tonhöhen)
+  const transposed = retuneFrets(transposedStandard, tuning);
+
   // 5. ✅ TONAL.JS VALIDIERUNG: Prüfe, ob alle Noten zum Akkord gehören
   if (validate) {
     // Hole theoretisch korrekte Noten für diesen Akkord
@@ -154,9 +323,6 @@ export function transposeShape(
       return transposed; // Gebe unvalidiertes Ergebnis zurück
     }
 
-    // Standard guitar tuning
-    const STANDARD_TUNING = ['E', 'A', 'D', 'G', 'B', 'E'];
-
     // Validiere jede einzelne Saite
     const validated = transposed.map((fret, stringIndex) => {
       if (fret === -1) return -1; // Muted strings bleiben muted
@@ -166,7 +332,7 @@ export function transposeShape(
       // Erstelle ein Array mit nur diesem einen Fret für fretsToNotes
       const singleStringFrets = Array(6).fill(-1);
       singleStringFrets[stringIndex] = fret;
-      const notes = fretsToNotes(singleStringFrets, STANDARD_TUNING);
+      const notes = fretsToNotes(singleStringFrets, tuning);
 
       if (notes.length === 0) return -1; // Fehler beim Berechnen der Note
 
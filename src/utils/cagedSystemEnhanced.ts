@@ -4,11 +4,21 @@
  * Integrates:
  * - Tonal.js for music theory validation
  * - chords-db for comprehensive voicing database
+ * - Search-based voicing generator for chords missing in chords-db
+ * - Slash chords (C/E, D/F#) and inversion filtering
  * - Original CAGED logic for shape determination
  */
 
 import { ChordVoicing } from './cagedSystem';
-import { getChordNotes, validateChordVoicing as validateVoicing } from './musicTheory';
+import {
+  analyzeChordVoicing,
+  getChordNotes,
+  getInversionQuality,
+  getVoicingInversion,
+  parseSlashQuality,
+  VoicingAnalysis,
+  STANDARD_TUNING
+} from './musicTheory';
 import {
   getChordVoicingsFromDB,
   ChordPosition,
@@ -16,7 +26,9 @@ import {
   filterVoicingsByPosition,
   toAbsoluteFrets
 } from './chordDatabase';
-import { transposeShape, CAGED_SHAPES } from './cagedShapes';
+import { transposeShape, CAGED_SHAPES, CAGEDQuality, toCAGEDQuality } from './cagedShapes';
+import { isStandardTuning, toStandardTuningFrets } from './tunings';
+import { generateVoicings, voicingToChordPosition, getOptionalTones } from './voicingGenerator';
 
 /**
  * Enhanced chord voicing with validation and additional metadata
@@ -28,6 +40,8 @@ export interface EnhancedChordVoicing extends ChordVoicing {
   validated: boolean;      // Whether voicing is theoretically correct
   theoreticalNotes: string[]; // Expected notes from music theory
   actualNotes?: string[];  // Actual notes played (for debugging)
+  inversion?: number | null; // 0 = root position, 1-3 = inversion, null = bass is not a chord tone
+  analysis?: VoicingAnalysis; // Missing, omitted, extra and doubled notes
 }
 
 /**
@@ -42,15 +56,29 @@ export interface EnhancedChordVoicing extends ChordVoicing {
  * - D-shape: Root on 4th string (D), low E and A muted
  * - C-shape: Root on 5th string (A), low E muted, distinctive voicing
  * - G-shape: Root on 6th string (low E), uses all/most strings
+ *
+ * Shapes are defined in standard tuning, so voicings in other tunings are
+ * mapped back to their standard-tuning equivalent before analysis.
+ *
+ * @param frets Fret positions relative to baseFret (chords-db format)
+ * @param baseFret Base fret of the voicing (1 = frets are absolute)
+ * @param tuning Guitar tuning the frets are played in (default: standard)
+ * @returns CAGED shape of the voicing
+ *
+ * @example
+ * determineCAGEDShape([-1, 3, 2, 0, 1, 0], 1) => 'C'
+ * determineCAGEDShape([1, 3, 3, 2, 1, 1], 5) => 'E'
  */
-function determineCAGEDShape(
+export function determineCAGEDShape(
   frets: number[],
-  baseFret: number
+  baseFret: number,
+  tuning: string[] = STANDARD_TUNING
 ): 'C' | 'A' | 'G' | 'E' | 'D' {
   // Convert to absolute frets for structural analysis
-  const absoluteFrets = baseFret > 1
+  const playedFrets = baseFret > 1
     ? frets.map(f => f === -1 ? -1 : (f === 0 ? 0 : baseFret + f - 1))
     : frets;
+  const absoluteFrets = toStandardTuningFrets(playedFrets, tuning);
 
   // Find played strings (not muted)
   const playedStrings = absoluteFrets
@@ -125,8 +153,12 @@ function determineCAGEDShape(
 
 /**
  * Calculates difficulty level based on voicing characteristics
+ *
+ * @param position Chord position (relative frets, barres)
+ * @param baseFret Base fret of the voicing
+ * @returns Difficulty level
  */
-function calculateDifficulty(
+export function calculateDifficulty(
   position: ChordPosition,
   baseFret: number
 ): 'beginner' | 'intermediate' | 'advanced' {
@@ -153,12 +185,14 @@ function calculateDifficulty(
  * @param absoluteFrets Absolute fret positions [Low E, A, D, G, B, High E]
  * @param shape CAGED shape type
  * @param quality Chord quality
+ * @param tuning Guitar tuning the frets are played in (default: standard)
  * @returns ChordPosition object with relative frets and baseFret
  */
 function absoluteFretsToChordPosition(
   absoluteFrets: number[],
   shape: 'C' | 'A' | 'G' | 'E' | 'D',
-  quality: 'major' | 'minor'
+  quality: CAGEDQuality,
+  tuning: string[] = STANDARD_TUNING
 ): ChordPosition {
   // Calculate baseFret (smallest non-muted, non-open fret)
   const playedFrets = absoluteFrets.filter(f => f > 0);
@@ -188,9 +222,9 @@ function absoluteFretsToChordPosition(
     }
   });
 
-  // Get fingers from template
+  // Get fingers from template (template fingerings only fit standard tuning)
   const template = CAGED_SHAPES[shape][quality];
-  const fingers = template.fingers || [];
+  const fingers = isStandardTuning(tuning) ? template.fingers || [] : [];
 
   return {
     frets: relativeFrets,
@@ -206,12 +240,18 @@ function absoluteFretsToChordPosition(
  *
  * @param root Root note (e.g., 'C', 'F#')
  * @param quality Chord quality (e.g., 'major', 'minor', '7')
- * @param options Optional filtering options
+ * @param options Optional filtering options (tuning: open string notes, low to high;
+ *                inversion: 0 = root position, 1-3 = 3rd, 5th or 7th in the bass;
+ *                inversions are looked up as slash chords, e.g. C major 1st inversion = C/E)
  * @returns Array of enhanced chord voicings
  *
  * @example
  * const voicings = getValidatedCAGEDVoicings('C', 'major', { maxVoicings: 5 });
  * voicings.forEach(v => console.log(v.validated ? '✅' : '❌', v.name));
+ *
+ * @example
+ * // Slash chords must have the bass note as lowest note
+ * getValidatedCAGEDVoicings('G', '/B')[0].frets // => [-1, 2, 0, 0, 3, 3]
  */
 export function getValidatedCAGEDVoicings(
   root: string,
@@ -221,15 +261,26 @@ export function getValidatedCAGEDVoicings(
     minFret?: number;
     maxFret?: number;
     onlyValidated?: boolean;
+    tuning?: string[];
+    inversion?: number;
   } = {}
 ): EnhancedChordVoicing[] {
   const {
     maxVoicings = 10,
     minFret = 0,
     maxFret = 15,
-    onlyValidated = true
+    onlyValidated = true,
+    tuning = STANDARD_TUNING,
+    inversion
   } = options;
 
+  // Inversions of a chord are its slash chords (C major, 1st inversion = C/E)
+  if (inversion !== undefined && inversion > 0 && !parseSlashQuality(quality).bass) {
+    const slashQuality = getInversionQuality(root, quality, inversion);
+    if (slashQuality === quality) return []; // No such chord tone (e.g. 3rd inversion of a triad)
+    return getValidatedCAGEDVoicings(root, slashQuality, options);
+  }
+
   // 1. Get theoretically correct notes from Tonal.js
   const theoreticalNotes = getChordNotes(root, quality);
 
@@ -238,21 +289,28 @@ export function getValidatedCAGEDVoicings(
     return [];
   }
 
-  // 2. Determine if this is a major/minor chord (use templates) or extended chord (use chords-db)
-  const qualityMapped =
-    quality === '' || quality === 'major' ? 'major' :
-    quality === 'm' || quality === 'minor' ? 'minor' : null;
+  // Extended chords (more than three notes) may omit the perfect 5th
+  const optionalNotes = getOptionalTones(root, theoreticalNotes);
+
+  // Slash chords (C/E, D/F#): the bass note must be the lowest sounding note
+  const { bass: bassNote } = parseSlashQuality(quality);
+
+  // 2. Determine if there are CAGED templates for this quality or only chords-db voicings
+  const qualityMapped = toCAGEDQuality(quality);
 
   let dbVoicings: ChordPosition[] = [];
 
+  // CAGED shape of template voicings (known, not guessed by determineCAGEDShape)
+  const templateShapes = new Map<ChordPosition, 'C' | 'A' | 'G' | 'E' | 'D'>();
+
   if (qualityMapped) {
-    // ✅ PRIMARY SOURCE: Generate ALL 5 CAGED shapes using templates for major/minor chords
+    // ✅ PRIMARY SOURCE: Generate ALL 5 CAGED shapes using templates
     const allShapes: ('C' | 'A' | 'G' | 'E' | 'D')[] = ['C', 'A', 'G', 'E', 'D'];
 
     allShapes.forEach(shape => {
       try {
         // Generate voicing using template
-        const absoluteFrets = transposeShape(root, shape, qualityMapped);
+        const absoluteFrets = transposeShape(root, shape, qualityMapped, { tuning });
 
         // Validate: Check for invalid negative frets (negative frets other than -1)
         const hasInvalidFrets = absoluteFrets.some(fret => fret < -1);
@@ -262,7 +320,7 @@ export function getValidatedCAGEDVoicings(
         }
 
         // Convert absolute frets to ChordPosition format (relative frets + baseFret)
-        const chordPosition = absoluteFretsToChordPosition(absoluteFrets, shape, qualityMapped);
+        const chordPosition = absoluteFretsToChordPosition(absoluteFrets, shape, qualityMapped, tuning);
 
         // Validate converted position
         const hasInvalidRelativeFrets = chordPosition.frets.some(fret => fret < -1);
@@ -274,6 +332,7 @@ export function getValidatedCAGEDVoicings(
         // Add to dbVoicings if within fret range
         if (chordPosition.baseFret >= minFret && chordPosition.baseFret <= maxFret) {
           dbVoicings.push(chordPosition);
+          templateShapes.set(chordPosition, shape);
         }
       } catch (error) {
         // Template generation failed (e.g., invalid note)
@@ -281,13 +340,31 @@ export function getValidatedCAGEDVoicings(
       }
     });
 
+    // Seventh, sus, add9, ... chords: add the chords-db voicings not covered by a template
+    if (qualityMapped !== 'major' && qualityMapped !== 'minor') {
+      const templateFrets = new Set(dbVoicings.map(pos => toAbsoluteFrets(pos).join(',')));
+      const extraVoicings = filterVoicingsByPosition(getChordVoicingsFromDB(root, quality, tuning), minFret, maxFret)
+        .filter(pos => !templateFrets.has(toAbsoluteFrets(pos).join(',')));
+      dbVoicings.push(...sortByDifficulty(extraVoicings));
+    }
+
     if (dbVoicings.length === 0) {
       console.warn(`No valid CAGED voicings generated for ${root}${quality}`);
       return [];
     }
   } else {
     // ⚠️ FALLBACK: Use chords-db for extended chords (7, maj7, sus4, add9, etc.)
-    dbVoicings = getChordVoicingsFromDB(root, quality);
+    dbVoicings = getChordVoicingsFromDB(root, quality, tuning);
+
+    // Chords missing in chords-db (e.g. 13b9, 7#11): search the fretboard instead
+    // chords-db has only a few slash chords with three voicings each, so those are completed by the search too
+    if (dbVoicings.length === 0 || bassNote) {
+      const dbFrets = new Set(dbVoicings.map(pos => toAbsoluteFrets(pos).join(',')));
+      const generated = generateVoicings(root, quality, { tuning, minFret, maxFret })
+        .filter(voicing => !dbFrets.has(voicing.frets.join(',')))
+        .map(voicing => voicingToChordPosition(voicing.frets));
+      dbVoicings = [...dbVoicings, ...generated];
+    }
 
     if (dbVoicings.length === 0) {
       console.warn(`No voicings found in database for ${root}${quality}`);
@@ -306,11 +383,15 @@ export function getValidatedCAGEDVoicings(
     // Convert relative frets to absolute frets ONLY for validation
     const absoluteFrets = toAbsoluteFrets(pos);
 
-    const cagedShape = determineCAGEDShape(pos.frets, pos.baseFret);
+    const cagedShape = templateShapes.get(pos) ?? determineCAGEDShape(pos.frets, pos.baseFret, tuning);
     const difficulty = calculateDifficulty(pos, pos.baseFret);
 
     // Validate this voicing against music theory using absolute frets
-    const isValid = validateVoicing(absoluteFrets, theoreticalNotes);
+    // (wrong extra notes, missing required tones and a wrong slash bass make it invalid)
+    const analysis = analyzeChordVoicing(absoluteFrets, theoreticalNotes, tuning, {
+      optionalNotes,
+      bassNote: bassNote ?? undefined
+    });
 
     return {
       name: `${root}${quality} (${cagedShape} Shape)`,
@@ -322,8 +403,10 @@ export function getValidatedCAGEDVoicings(
       difficulty,
       barrePositions: pos.barres,
       midi: pos.midi,
-      validated: isValid,
-      theoreticalNotes
+      validated: analysis.isValid,
+      theoreticalNotes,
+      inversion: getVoicingInversion(absoluteFrets, root, quality, tuning),
+      analysis
     };
   });
 
@@ -344,7 +427,12 @@ export function getValidatedCAGEDVoicings(
     // 3. Fewer barres is easier (only matters if baseFret is the same)
     const aBarres = a.barrePositions?.length || 0;
     const bBarres = b.barrePositions?.length || 0;
-    return aBarres - bBarres;
+    if (aBarres !== bBarres) {
+      return aBarres - bBarres;
+    }
+
+    // 4. Complete voicings before voicings that omit an optional tone (e.g. the 5th)
+    return (a.analysis?.omittedNotes.length ?? 0) - (b.analysis?.omittedNotes.length ?? 0);
   });
 
   // 7. Filter: keep only validated voicings if requested
@@ -352,6 +440,10 @@ export function getValidatedCAGEDVoicings(
     ? sortedVoicings.filter(v => v.validated)
     : sortedVoicings;
 
+  if (inversion !== undefined) {
+    filteredVoicings = filteredVoicings.filter(v => v.inversion === inversion);
+  }
+
   // 8. Limit to maxVoicings
   return filteredVoicings.slice(0, maxVoicings);
 }
@@ -361,14 +453,17 @@ export function getValidatedCAGEDVoicings(
  *
  * @param root Root note
  * @param quality Chord quality
+ * @param tuning Guitar tuning, low to high (default: standard)
  * @returns Object with voicings grouped by CAGED shape
  */
 export function getVoicingsByShape(
   root: string,
-  quality: string
+  quality: string,
+  tuning: string[] = STANDARD_TUNING
 ): Record<'C' | 'A' | 'G' | 'E' | 'D', EnhancedChordVoicing[]> {
   const allVoicings = getValidatedCAGEDVoicings(root, quality, {
-    maxVoicings: 50 // Get more to ensure we have all shapes
+    maxVoicings: 50, // Get more to ensure we have all shapes
+    tuning
   });
 
   const grouped: Record<'C' | 'A' | 'G' | 'E' | 'D', EnhancedChordVoicing[]> = {
@@ -391,32 +486,43 @@ export function getVoicingsByShape(
  *
  * @param root Root note
  * @param quality Chord quality
+ * @param tuning Guitar tuning, low to high (default: standard)
  * @returns The easiest voicing or null
  */
 export function getCommonVoicing(
   root: string,
-  quality: string
+  quality: string,
+  tuning: string[] = STANDARD_TUNING
 ): EnhancedChordVoicing | null {
-  const voicings = getValidatedCAGEDVoicings(root, quality, { maxVoicings: 1 });
+  const voicings = getValidatedCAGEDVoicings(root, quality, { maxVoicings: 1, tuning });
   return voicings.length > 0 ? voicings[0] : null;
 }
 
 /**
  * Validates if a custom voicing is correct for a chord
+ * Wrong extra notes and missing chord tones are reported separately;
+ * chords with more than three notes may omit the perfect 5th.
  *
  * @param frets Fret positions
  * @param root Root note
  * @param quality Chord quality
- * @returns Validation result
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Validation result with the detailed analysis
+ *
+ * @example
+ * validateCustomVoicing([-1, 3, 3, 0, 1, 0], 'C', 'major').message
+ * // => '❌ Invalid Cmajor voicing. Non-chord tones: F'
  */
 export function validateCustomVoicing(
   frets: number[],
   root: string,
-  quality: string
+  quality: string,
+  tuning: string[] = STANDARD_TUNING
 ): {
   isValid: boolean;
   theoreticalNotes: string[];
   message: string;
+  analysis?: VoicingAnalysis;
 } {
   const theoreticalNotes = getChordNotes(root, quality);
 
@@ -428,13 +534,24 @@ export function validateCustomVoicing(
     };
   }
 
-  const isValid = validateVoicing(frets, theoreticalNotes);
+  const { bass } = parseSlashQuality(quality);
+  const analysis = analyzeChordVoicing(frets, theoreticalNotes, tuning, {
+    optionalNotes: getOptionalTones(root, theoreticalNotes),
+    bassNote: bass ?? undefined
+  });
+
+  const problems = [
+    analysis.missingNotes.length > 0 ? `Missing notes: ${analysis.missingNotes.join(', ')}` : null,
+    analysis.nonChordTones.length > 0 ? `Non-chord tones: ${analysis.nonChordTones.join(', ')}` : null,
+    analysis.isBassCorrect ? null : `Expected ${bass} in the bass`
+  ].filter((problem): problem is string => problem !== null);
 
   return {
-    isValid,
+    isValid: analysis.isValid,
     theoreticalNotes,
-    message: isValid
+    analysis,
+    message: analysis.isValid
       ? `✅ Valid ${root}${quality} voicing`
-      : `❌ Invalid ${root}${quality} voicing. Expected notes: ${theoreticalNotes.join(', ')}`
+      : `❌ Invalid ${root}${quality} voicing. ${problems.length > 0 ? problems.join('. ') : `Expected notes: ${theoreticalNotes.join(', ')}`}`
   };
 }
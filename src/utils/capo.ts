@@ -0,0 +1,172 @@
+/**
+ * Capo Utilities
+ *
+ * Provides functions for:
+ * - Converting between chord shapes and sounding chords with a capo
+ * - "Shape vs. sounding" chord labels
+ * - Suggesting the capo position that makes a song's chords easiest
+ *
+ * Fret numbers in chord diagrams and AlphaTeX are relative to the capo
+ * (the capo acts as the nut), the fretboard shows absolute neck frets.
+ */
+
+import { Note } from 'tonal';
+import { transposeNote, parseSlashQuality } from './musicTheory';
+import { getChordVoicingsFromDB, sortByDifficulty, getVoicingDifficulty } from './chordDatabase';
+
+// Highest capo position offered in the app
+export const MAX_CAPO = 9;
+
+/**
+ * Capo suggestion for a chord progression
+ */
+export interface CapoSuggestion {
+  capo: number;
+  shapeChords: Array<{ note: string; quality: string }>; // Chords to finger with this capo
+  difficulty: number;                                     // Total difficulty (lower is easier)
+}
+
+/**
+ * Gets the chord that sounds when a shape is played with a capo
+ *
+ * @param shapeNote Root note of the fingered shape
+ * @param capo Capo fret (0 = no capo)
+ * @returns Sounding root note
+ *
+ * @example
+ * getSoundingNote('G', 2) => 'A'
+ * getSoundingNote('C', 3) => 'Eb'
+ */
+export function getSoundingNote(shapeNote: string, capo: number): string {
+  if (capo === 0) return shapeNote;
+  return Note.simplify(transposeNote(shapeNote, capo));
+}
+
+/**
+ * Gets the shape to finger so that a chord sounds with a capo
+ *
+ * @param soundingNote Root note of the sounding chord
+ * @param capo Capo fret (0 = no capo)
+ * @returns Root note of the shape to finger
+ *
+ * @example
+ * getShapeNote('A', 2) => 'G'
+ * getShapeNote('F', 1) => 'E'
+ */
+export function getShapeNote(soundingNote: string, capo: number): string {
+  if (capo === 0) return soundingNote;
+  return Note.simplify(transposeNote(soundingNote, -capo));
+}
+
+/**
+ * Gets the quality of the fingered shape for a slash chord with a capo
+ * (the bass note moves with the root, other qualities are unchanged)
+ *
+ * @param soundingQuality Chord quality, optionally with bass note (e.g. '/B', 'm7/G')
+ * @param capo Capo fret (0 = no capo)
+ * @returns Quality of the shape to finger
+ *
+ * @example
+ * getShapeQuality('/B', 2) => '/A'
+ * getShapeQuality('m7', 2) => 'm7'
+ */
+export function getShapeQuality(soundingQuality: string, capo: number): string {
+  return transposeBass(soundingQuality, -capo);
+}
+
+/**
+ * Transposes the bass note of a slash-chord quality
+ */
+function transposeBass(quality: string, semitones: number): string {
+  const { quality: baseQuality, bass } = parseSlashQuality(quality);
+  if (!bass || semitones === 0) return quality;
+  return `${baseQuality}/${Note.simplify(transposeNote(bass, semitones))}`;
+}
+
+/**
+ * Builds a "shape vs. sounding" chord label
+ *
+ * @param shapeNote Root note of the fingered shape
+ * @param quality Chord quality (app convention, e.g. '', 'm', '7')
+ * @param capo Capo fret (0 = no capo)
+ * @returns Label text
+ *
+ * @example
+ * getCapoChordLabel('G', '', 2) => 'G shape, sounds as A with capo 2'
+ * getCapoChordLabel('Em', '', 0) => 'Em'
+ * getCapoChordLabel('G', '/B', 2) => 'G/B shape, sounds as A/C# with capo 2'
+ */
+export function getCapoChordLabel(shapeNote: string, quality: string, capo: number): string {
+  const shapeName = `${shapeNote}${quality}`;
+  if (capo === 0) return shapeName;
+
+  const soundingName = `${getSoundingNote(shapeNote, capo)}${transposeBass(quality, capo)}`;
+  return `${shapeName} shape, sounds as ${soundingName} with capo ${capo}`;
+}
+
+/**
+ * Converts frets relative to the capo into absolute neck frets
+ *
+ * @param frets Fret positions relative to the capo (-1 = muted, 0 = capo fret)
+ * @param capo Capo fret (0 = no capo)
+ * @returns Absolute fret positions on the neck
+ *
+ * @example
+ * applyCapo([3, 2, 0, 0, 0, 3], 2) => [5, 4, 2, 2, 2, 5]
+ */
+export function applyCapo(frets: number[], capo: number): number[] {
+  return frets.map(fret => (fret === -1 ? -1 : fret + capo));
+}
+
+/**
+ * Ranks all capo positions by how easy the resulting chord shapes are
+ *
+ * For every capo position, each sounding chord is mapped to its shape chord.
+ * The easiest voicing of that shape (first after sortByDifficulty) is scored with getVoicingDifficulty,
+ * and the scores are summed over the whole progression.
+ *
+ * @param chords Sounding chords of the song
+ * @param maxCapo Highest capo fret to consider (default: MAX_CAPO)
+ * @returns Suggestions sorted by difficulty (easiest first, lower capo wins ties)
+ *
+ * @example
+ * suggestCapoPositions([{ note: 'Bb', quality: '' }, { note: 'Eb', quality: '' }, { note: 'F', quality: '' }])[0]
+ * // => { capo: 1, shapeChords: [A, D, E], difficulty: 0 }
+ */
+export function suggestCapoPositions(
+  chords: Array<{ note: string; quality: string }>,
+  maxCapo: number = MAX_CAPO
+): CapoSuggestion[] {
+  const suggestions: CapoSuggestion[] = [];
+
+  for (let capo = 0; capo <= maxCapo; capo++) {
+    const shapeChords = chords.map(chord => ({
+      note: getShapeNote(chord.note, capo),
+      quality: getShapeQuality(chord.quality, capo)
+    }));
+
+    const difficulty = shapeChords.reduce((total, chord) => {
+      const [easiest] = sortByDifficulty(getChordVoicingsFromDB(chord.note, chord.quality));
+      // Chords without any voicing count as very hard
+      return total + (easiest ? getVoicingDifficulty(easiest) : 500);
+    }, 0);
+
+    suggestions.push({ capo, shapeChords, difficulty });
+  }
+
+  return suggestions.sort((a, b) => a.difficulty - b.difficulty || a.capo - b.capo);
+}
+
+/**
+ * Suggests the capo position that makes a song's chords easiest
+ *
+ * @param chords Sounding chords of the song
+ * @param maxCapo Highest capo fret to consider (default: MAX_CAPO)
+ * @returns The best suggestion
+ */
+export function suggestCapoPosition(
+  chords: Array<{ note: string; quality: string }>,
+  maxCapo: number = MAX_CAPO
+): CapoSuggestion {
+  return suggestCapoPositions(chords, maxCapo)[0];
+}
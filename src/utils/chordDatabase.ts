@@ -9,6 +9,9 @@
  */
 
 import guitar from '@tombatossals/chords-db/lib/guitar.json';
+import { Note } from 'tonal';
+import { STANDARD_TUNING, getVoicingInversion, parseSlashQuality } from './musicTheory';
+import { isStandardTuning, getTuningOffsets } from './tunings';
 
 /**
  * Chord position data from chords-db
@@ -41,8 +44,17 @@ export interface ChordData {
  * mapQualityToSuffix('major') => 'major'
  * mapQualityToSuffix('7') => '7'
  * mapQualityToSuffix('maj7') => 'maj7'
+ * mapQualityToSuffix('m/Db') => 'm/C#'
  */
 export function mapQualityToSuffix(quality: string): string {
+  // Slash chords: chords-db has major and minor only ('/E', 'm/C#'), bass spelled with sharps except Bb
+  const { quality: baseQuality, bass } = parseSlashQuality(quality);
+  if (bass) {
+    const baseSuffix = mapQualityToSuffix(baseQuality);
+    const prefix = baseSuffix === 'major' ? '' : baseSuffix === 'minor' ? 'm' : baseSuffix;
+    return `${prefix}/${normalizeBassForDB(bass)}`;
+  }
+
   const mapping: Record<string, string> = {
     '': 'major',        // Empty string maps to major (app convention)
     'major': 'major',
@@ -63,6 +75,10 @@ export function mapQualityToSuffix(quality: string): string {
     'm6': 'm6',
     'dim7': 'dim7',
     'm7b5': 'm7b5',
+    'mMaj7': 'mmaj7',  // Minor-major 7th (harmonic/melodic minor)
+    'mmaj7': 'mmaj7',
+    'maj7#5': 'maj7#5',
+    '7#5': 'aug7',
     '11': '11',
     '13': '13',
     'sus': 'sus4', // Default sus to sus4
@@ -75,8 +91,12 @@ export function mapQualityToSuffix(quality: string): string {
 /**
  * Gets all chord voicings from chords-db for a given chord
  *
+ * chords-db only contains standard tuning voicings. For other tunings the
+ * positions are shifted so they sound the same pitches (see retunePosition).
+ *
  * @param note Root note (e.g., 'C', 'F#', 'Bb')
  * @param quality Chord quality
+ * @param tuning Guitar tuning, low to high (default: standard)
  * @returns Array of chord positions
  *
  * @example
@@ -85,7 +105,8 @@ export function mapQualityToSuffix(quality: string): string {
  */
 export function getChordVoicingsFromDB(
   note: string,
-  quality: string
+  quality: string,
+  tuning: string[] = STANDARD_TUNING
 ): ChordPosition[] {
   const suffix = mapQualityToSuffix(quality);
 
@@ -109,7 +130,69 @@ export function getChordVoicingsFromDB(
     return [];
   }
 
-  return chord.positions || [];
+  const positions: ChordPosition[] = chord.positions || [];
+
+  if (isStandardTuning(tuning)) {
+    return positions;
+  }
+
+  return positions
+    .map(position => retunePosition(position, tuning))
+    .filter((position): position is ChordPosition => position !== null);
+}
+
+/**
+ * Shifts a standard tuning chord position so it sounds the same in another tuning
+ *
+ * @param position ChordPosition from chords-db (standard tuning)
+ * @param tuning Target tuning, low to high
+ * @returns Retuned position, or null if a string would need a negative fret
+ *
+ * @example
+ * // Open E major [0, 2, 2, 1, 0, 0] in Drop D
+ * // => frets [2, 2, 2, 1, 0, 0], baseFret 1
+ */
+export function retunePosition(
+  position: ChordPosition,
+  tuning: string[]
+): ChordPosition | null {
+  const offsets = getTuningOffsets(tuning);
+  const absoluteFrets = toAbsoluteFrets(position).map((fret, i) =>
+    fret === -1 ? -1 : fret + offsets[i]
+  );
+
+  // A fretted or open string that would need a negative fret cannot be played
+  if (absoluteFrets.some((fret, i) => position.frets[i] !== -1 && fret < 0)) {
+    return null;
+  }
+
+  // Keep chords-db convention: frets are absolute when they fit in the first 4 frets
+  const playedFrets = absoluteFrets.filter(f => f > 0);
+  const maxFret = playedFrets.length > 0 ? Math.max(...playedFrets) : 0;
+  const baseFret = maxFret > 4 ? Math.min(...playedFrets) : 1;
+
+  const frets = absoluteFrets.map(fret => {
+    if (fret <= 0 || baseFret === 1) return fret;
+    return fret - baseFret + 1;
+  });
+
+  // A barre survives only if all of its strings are still on the same fret
+  const barres = position.barres
+    .map(barre => {
+      const barreFrets = frets.filter((_, i) => position.frets[i] === barre);
+      const [first] = barreFrets;
+      return barreFrets.length > 1 && barreFrets.every(f => f === first) ? first : null;
+    })
+    .filter((barre): barre is number => barre !== null);
+
+  // Finger and MIDI data from chords-db no longer match the shifted frets
+  return {
+    frets,
+    fingers: [],
+    barres,
+    baseFret,
+    midi: []
+  };
 }
 
 /**
@@ -210,7 +293,10 @@ function normalizeNoteForDB(note: string): string {
     'Eb': 'Eb',  // chords-db uses Eb
     'Gb': 'F#',
     'Ab': 'Ab',  // chords-db uses Ab
-    'Bb': 'Bb'   // chords-db uses Bb
+    'Bb': 'Bb',  // chords-db uses Bb
+    'D#': 'Eb',  // Sharps without own key in chords-db
+    'G#': 'Ab',
+    'A#': 'Bb'
   };
 
   const normalized = flatToSharp[note] || note;
@@ -235,8 +321,21 @@ function normalizeNoteForDB(note: string): string {
   return noteToKeyName[normalized] || normalized;
 }
 
+/**
+ * Spells a slash-chord bass note the way chords-db suffixes do
+ *
+ * @param note Bass note
+ * @returns Bass note with sharps (Bb stays Bb)
+ */
+function normalizeBassForDB(note: string): string {
+  const simplified = Note.simplify(note);
+  if (simplified === 'A#') return 'Bb';
+  return simplified.includes('b') && simplified !== 'Bb' ? Note.enharmonic(simplified) : simplified;
+}
+
 /**
  * Filters voicings by position range on the fretboard
+ * The range is compared with the absolute frets (baseFret applied).
  *
  * @param voicings Array of chord positions
  * @param minFret Minimum fret position
@@ -249,7 +348,7 @@ export function filterVoicingsByPosition(
   maxFret: number = 12
 ): ChordPosition[] {
   return voicings.filter(v => {
-    const activeFrets = v.frets.filter(f => f > 0);
+    const activeFrets = toAbsoluteFrets(v).filter(f => f > 0);
     if (activeFrets.length === 0) return true; // Open chords
 
     const maxFretInVoicing = Math.max(...activeFrets);
@@ -257,6 +356,30 @@ export function filterVoicingsByPosition(
   });
 }
 
+/**
+ * Filters voicings by inversion (which chord tone is the lowest sounding note)
+ *
+ * @param voicings Array of chord positions
+ * @param root Chord root
+ * @param quality Chord quality
+ * @param inversion 0 = root position, 1 = 3rd, 2 = 5th, 3 = 7th in the bass
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Voicings in the requested inversion
+ *
+ * @example
+ * // First inversion C major voicings (E in the bass)
+ * filterVoicingsByInversion(getChordVoicingsFromDB('C', 'major'), 'C', 'major', 1)
+ */
+export function filterVoicingsByInversion(
+  voicings: ChordPosition[],
+  root: string,
+  quality: string,
+  inversion: number,
+  tuning: string[] = STANDARD_TUNING
+): ChordPosition[] {
+  return voicings.filter(v => getVoicingInversion(toAbsoluteFrets(v), root, quality, tuning) === inversion);
+}
+
 /**
  * Filters voicings by number of barres
  *
@@ -291,29 +414,32 @@ export function getBarreVoicings(voicings: ChordPosition[]): ChordPosition[] {
   return voicings.filter(v => v.barres.length > 0);
 }
 
+/**
+ * Scores how hard a voicing is to play (lower is easier)
+ * Open strings first, then fewer barres, then a lower fret position:
+ * the weights keep that order for any voicing up to fret 20 with up to 4 barres.
+ *
+ * @param voicing Chord position
+ * @returns Difficulty score (0 = open chord without barre in the first position)
+ *
+ * @example
+ * getVoicingDifficulty({ frets: [-1, 3, 2, 0, 1, 0], barres: [], baseFret: 1, ... }) => 0
+ * getVoicingDifficulty({ frets: [1, 3, 3, 2, 1, 1], barres: [1], baseFret: 1, ... }) => 120
+ */
+export function getVoicingDifficulty(voicing: ChordPosition): number {
+  const hasOpenStrings = voicing.frets.some(f => f === 0);
+  return (hasOpenStrings ? 0 : 100) + voicing.barres.length * 20 + (voicing.baseFret - 1);
+}
+
 /**
  * Sorts voicings by difficulty (easier first)
- * Based on: open strings, fret position, number of barres
+ * Based on: open strings, fret position, number of barres (see getVoicingDifficulty)
  *
  * @param voicings Array of chord positions
  * @returns Sorted voicings
  */
 export function sortByDifficulty(voicings: ChordPosition[]): ChordPosition[] {
-  return [...voicings].sort((a, b) => {
-    // Open chords are easiest
-    const aHasOpen = a.frets.some(f => f === 0);
-    const bHasOpen = b.frets.some(f => f === 0);
-    if (aHasOpen && !bHasOpen) return -1;
-    if (!aHasOpen && bHasOpen) return 1;
-
-    // Fewer barres is easier
-    if (a.barres.length !== b.barres.length) {
-      return a.barres.length - b.barres.length;
-    }
-
-    // Lower fret position is easier
-    return a.baseFret - b.baseFret;
-  });
+  return [...voicings].sort((a, b) => getVoicingDifficulty(a) - getVoicingDifficulty(b));
 }
 
 /**
@@ -0,0 +1,238 @@
+/**
+ * Chord Identification (Reverse Chord Finder)
+ *
+ * Answers "what chord is this?" for any fret input:
+ * - Chord names from Tonal.js Chord.detect, ranked by how likely they are
+ * - Slash chords and inversions (bass note other than the root)
+ * - Voicings without the 5th (e.g. x3x45x = Cmaj7)
+ * - Rootless interpretations (e.g. E-G-Bb-D = C9 without root)
+ * - CAGED shape of the voicing (determineCAGEDShape)
+ * - Custom voicings from fret input, usable wherever a ChordVoicing is accepted
+ */
+
+import { Chord, Note } from 'tonal';
+import {
+  analyzeChordVoicing,
+  fretsToNotes,
+  getChordNotes,
+  getInversion,
+  getVoicingInversion,
+  parseSlashQuality,
+  INVERSION_NAMES,
+  STANDARD_TUNING
+} from './musicTheory';
+import { determineCAGEDShape, calculateDifficulty, EnhancedChordVoicing } from './cagedSystemEnhanced';
+import { voicingToChordPosition, getOptionalTones } from './voicingGenerator';
+
+/**
+ * A chord name for a voicing
+ */
+export interface IdentifiedChord {
+  name: string;            // Display name (e.g. 'C', 'C/E', 'Am7', 'C9')
+  root: string;
+  quality: string;         // App convention: '' = major, 'm', '7', 'maj7', ...
+  bassNote: string;        // Lowest sounding note
+  notes: string[];         // Sounding pitch classes, bass first
+  isSlash: boolean;        // Bass note is not the root
+  isRootless: boolean;     // Root is implied, not played
+  omitsFifth: boolean;
+  inversion: number | null; // 0 = root position, 1 = 3rd, 2 = 5th, 3 = 7th in the bass, null = other bass
+  inversionName: string;
+  cagedShape: 'C' | 'A' | 'G' | 'E' | 'D';
+  score: number;           // Lower is more likely
+}
+
+/**
+ * A voicing built by the user (e.g. in the chord builder)
+ */
+export interface CustomChordVoicing extends EnhancedChordVoicing {
+  root: string;    // '' if the chord could not be identified
+  quality: string;
+}
+
+// Chord types students meet in songs (app quality convention)
+const COMMON_QUALITIES = [
+  '', 'm', '5', '7', 'maj7', 'm7', 'sus2', 'sus4', '7sus4', 'dim', 'dim7', 'm7b5', 'aug',
+  '6', 'm6', '69', 'add9', 'madd9', '9', 'maj9', 'm9', 'mMaj7', '11', 'm11', '13', '7b9', '7#9'
+];
+
+// Root candidates for rootless voicings
+const CHROMATIC_ROOTS = ['C', 'Db', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+
+/**
+ * Identifies the chord played by a fret combination
+ *
+ * @param frets Fret positions [Low E, A, D, G, B, High E], -1 = muted
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @param options maxResults (default: 10), includeRootless (default: true)
+ * @returns Chord names, most likely first (empty if fewer than two different notes sound)
+ *
+ * @example
+ * identifyChord([0, 3, 2, 0, 1, 0])
+ * // => [{ name: 'C/E', inversion: 1, inversionName: 'first inversion', cagedShape: 'C', ... }, ...]
+ *
+ * @example
+ * identifyChord([-1, -1, 2, 3, 3, 3]).find(c => c.isRootless)
+ * // => { name: 'C9', bassNote: 'E', isRootless: true, ... }
+ */
+export function identifyChord(
+  frets: number[],
+  tuning: string[] = STANDARD_TUNING,
+  options: { maxResults?: number; includeRootless?: boolean } = {}
+): IdentifiedChord[] {
+  const { maxResults = 10, includeRootless = true } = options;
+
+  // Pitch classes in playing order (bass first), without duplicates
+  const notes: string[] = [];
+  fretsToNotes(frets, tuning).forEach(note => {
+    const pitchClass = Note.simplify(Note.pitchClass(note));
+    if (!notes.some(n => Note.chroma(n) === Note.chroma(pitchClass))) notes.push(pitchClass);
+  });
+
+  if (notes.length < 2) return [];
+
+  const bassNote = notes[0];
+  const cagedShape = determineCAGEDShape(frets, 1, tuning);
+  const results = new Map<string, IdentifiedChord>();
+
+  const addCandidate = (detected: string, isRootless: boolean, omitsFifth: boolean) => {
+    const chord = Chord.get(detected);
+    if (chord.empty || !chord.tonic) return;
+
+    const root = chord.tonic;
+    const symbol = detected.slice(root.length).split('/')[0];
+    const fifthMissing = omitsFifth || symbol.endsWith('no5');
+    const quality = toAppQuality(symbol.replace(/no5$/, ''));
+    const isCommon = COMMON_QUALITIES.includes(quality);
+
+    const isSlash = Note.chroma(bassNote) !== Note.chroma(root);
+    const inversion = isSlash ? getInversion(root, bassNote) : 0;
+
+    const score =
+      (isCommon ? 0 : 3) +
+      (fifthMissing ? 0.5 : 0) +
+      (isSlash ? (inversion !== null ? 1 : 2) : 0) +
+      (isRootless ? 4 : 0);
+
+    // Rootless voicings are named after the implied chord (no slash)
+    const name = `${root}${quality}${isSlash && !isRootless ? `/${bassNote}` : ''}`;
+    const existing = results.get(name);
+    if (existing && existing.score <= score) return;
+
+    results.set(name, {
+      name,
+      root,
+      quality,
+      bassNote,
+      notes,
+      isSlash,
+      isRootless,
+      omitsFifth: fifthMissing,
+      inversion,
+      inversionName: inversion !== null ? INVERSION_NAMES[inversion] : 'slash chord',
+      cagedShape,
+      score
+    });
+  };
+
+  // 1. Complete chords (root position and inversions)
+  Chord.detect(notes).forEach(name => addCandidate(name, false, false));
+
+  // 2. Chords without their perfect 5th (very common on guitar)
+  notes.forEach(root => {
+    const fifth = Note.transpose(root, '5P');
+    if (notes.some(n => Note.chroma(n) === Note.chroma(fifth))) return;
+    Chord.detect([...notes, fifth])
+      .filter(name => Chord.get(name).tonic === root)
+      .forEach(name => addCandidate(name.split('/')[0], false, true));
+  });
+
+  // 3. Rootless voicings: an unplayed root completes a seventh chord or larger
+  if (includeRootless && notes.length >= 3) {
+    CHROMATIC_ROOTS
+      .filter(root => !notes.some(n => Note.chroma(n) === Note.chroma(root)))
+      .forEach(root => {
+        Chord.detect([root, ...notes])
+          .filter(name => {
+            const chord = Chord.get(name);
+            return chord.tonic === root && !chord.bass && chord.notes.length >= 4;
+          })
+          .forEach(name => {
+            const quality = toAppQuality(name.slice(root.length).replace(/no5$/, ''));
+            if (COMMON_QUALITIES.includes(quality)) addCandidate(name, true, false);
+          });
+      });
+  }
+
+  return [...results.values()]
+    .sort((a, b) => a.score - b.score)
+    .slice(0, maxResults);
+}
+
+/**
+ * Turns absolute fret input into a chord voicing (relative frets + baseFret,
+ * like chords-db), so it can be shown in ChordDiagram or used in progressions
+ *
+ * @param frets Absolute fret positions [Low E, A, D, G, B, High E], -1 = muted
+ * @param options root/quality (default: best identified chord), fingers (0 = none),
+ *                barreFret (absolute fret of a barre), tuning (default: standard)
+ * @returns Custom voicing, validated against the chord's notes
+ *
+ * @example
+ * createCustomVoicing([-1, 3, 5, 5, 5, 3], { fingers: [0, 1, 3, 3, 3, 1], barreFret: 3 })
+ * // => { name: 'C (Custom)', frets: [-1, 1, 3, 3, 3, 1], baseFret: 3, barrePositions: [1], validated: true, ... }
+ */
+export function createCustomVoicing(
+  frets: number[],
+  options: {
+    root?: string;
+    quality?: string;
+    fingers?: number[];
+    barreFret?: number | null;
+    tuning?: string[];
+  } = {}
+): CustomChordVoicing {
+  const { fingers = [], barreFret = null, tuning = STANDARD_TUNING } = options;
+
+  const [identified] = options.root === undefined ? identifyChord(frets, tuning, { maxResults: 1 }) : [];
+  const root = options.root ?? identified?.root ?? '';
+  const quality = options.quality ?? identified?.quality ?? '';
+  const chordName = options.root === undefined ? identified?.name ?? 'Unknown chord' : `${root}${quality}`;
+
+  const position = voicingToChordPosition(frets);
+  if (barreFret !== null) {
+    position.barres = [position.baseFret > 1 ? barreFret - position.baseFret + 1 : barreFret];
+  }
+
+  const theoreticalNotes = root ? getChordNotes(root, quality) : [];
+
+  return {
+    name: `${chordName} (Custom)`,
+    root,
+    quality,
+    frets: position.frets,
+    baseFret: position.baseFret,
+    fingers,
+    position: position.baseFret,
+    cagedShape: determineCAGEDShape(position.frets, position.baseFret, tuning),
+    difficulty: calculateDifficulty(position, position.baseFret),
+    barrePositions: position.barres,
+    midi: [],
+    validated: analyzeChordVoicing(frets, theoreticalNotes, tuning, {
+      optionalNotes: getOptionalTones(root, theoreticalNotes),
+      bassNote: parseSlashQuality(quality).bass ?? undefined
+    }).isValid,
+    theoreticalNotes,
+    actualNotes: fretsToNotes(frets, tuning),
+    inversion: root ? getVoicingInversion(frets, root, quality, tuning) : null
+  };
+}
+
+/**
+ * Converts a Tonal chord symbol to the app quality convention
+ * ('M' → '', 'Madd9' → 'add9')
+ */
+function toAppQuality(symbol: string): string {
+  if (symbol === 'M') return '';
+  return symbol.replace(/^Madd/, 'add');
+}
@@ -0,0 +1,331 @@
+/**
+ * ChordPro and Chords-Over-Lyrics Songs
+ *
+ * Parses songs pasted as ChordPro ("[Am]Lyrics") or as chord lines above lyric lines:
+ * - Chord symbols are resolved with getChordNotes (common spellings like "min7", "M7", "-7" are normalized)
+ * - Directives: {title:}, {artist:}/{subtitle:}, {comment:} and {define:} (other directives are kept)
+ * - {define:} fret positions are used as the song's voicings, other chords are voiced
+ *   with getValidatedCAGEDVoicings
+ * - Export back to ChordPro with {define:} for the chosen voicings (round-trips through parseSong)
+ */
+
+import { getChordNotes, analyzeChordVoicing, parseSlashQuality, STANDARD_TUNING } from './musicTheory';
+import { mapQualityToSuffix, toAbsoluteFrets } from './chordDatabase';
+import {
+  getValidatedCAGEDVoicings,
+  EnhancedChordVoicing,
+  determineCAGEDShape,
+  calculateDifficulty
+} from './cagedSystemEnhanced';
+import { voicingToChordPosition, getOptionalTones } from './voicingGenerator';
+
+/**
+ * A chord symbol of a song, resolved to the app's chord convention
+ */
+export interface SongChord {
+  symbol: string;   // As written in the song (e.g. 'F#min7')
+  note: string;     // Root note ('' if the symbol could not be read)
+  quality: string;  // App quality (e.g. 'm7', '/E')
+  suffix: string;   // chords-db suffix (mapQualityToSuffix)
+  notes: string[];  // Chord notes, empty if the chord is unknown
+}
+
+/**
+ * A line of the song: lyrics with chords (column positions in the lyrics), a comment or another directive
+ */
+export interface SongLine {
+  kind: 'lyrics' | 'comment' | 'directive';
+  text: string;
+  chords: Array<{ position: number; symbol: string }>;
+}
+
+export interface Song {
+  title: string | null;
+  artist: string | null;
+  lines: SongLine[];
+  definitions: Record<string, number[]>; // {define:} voicings, absolute frets by chord symbol
+}
+
+/**
+ * Chord symbol spellings and the app quality they stand for
+ */
+const QUALITY_ALIASES: Record<string, string> = {
+  maj: '',
+  M: '',
+  min: 'm',
+  mi: 'm',
+  '-': 'm',
+  min7: 'm7',
+  mi7: 'm7',
+  '-7': 'm7',
+  M7: 'maj7',
+  Maj7: 'maj7',
+  ma7: 'maj7',
+  'Δ': 'maj7',
+  'Δ7': 'maj7',
+  'o': 'dim',
+  '°': 'dim',
+  o7: 'dim7',
+  '°7': 'dim7',
+  'ø': 'm7b5',
+  'ø7': 'm7b5',
+  'm7-5': 'm7b5',
+  '+': 'aug',
+  sus: 'sus4',
+  mMaj7: 'mmaj7',
+  'm(maj7)': 'mmaj7',
+  dom7: '7'
+};
+
+/**
+ * Resolves a chord symbol
+ *
+ * @param symbol Chord symbol (e.g. 'Am', 'F#min7', 'D/F#', 'Bbmaj7')
+ * @returns The chord with root, app quality, chords-db suffix and notes (empty notes if unknown)
+ *
+ * @example
+ * parseChordSymbol('F#min7') => { symbol: 'F#min7', note: 'F#', quality: 'm7', suffix: 'm7', notes: ['F#', 'A', 'C#', 'E'] }
+ * parseChordSymbol('D/F#') => { symbol: 'D/F#', note: 'D', quality: '/F#', suffix: '/F#', notes: ['F#', 'D', 'A'] }
+ */
+export function parseChordSymbol(symbol: string): SongChord {
+  const match = symbol.trim().match(/^([A-G][#b]?)(.*)$/);
+  if (!match) {
+    return { symbol, note: '', quality: '', suffix: '', notes: [] };
+  }
+
+  const [, note, rest] = match;
+  const { quality: baseQuality, bass } = parseSlashQuality(rest);
+  const alias = QUALITY_ALIASES[baseQuality];
+  const quality = `${alias !== undefined ? alias : baseQuality}${bass ? `/${bass}` : ''}`;
+
+  return { symbol, note, quality, suffix: mapQualityToSuffix(quality), notes: getChordNotes(note, quality) };
+}
+
+/**
+ * Parses a song in ChordPro or chords-over-lyrics format
+ * A line where every word is a known chord symbol is a chord line; its chords
+ * belong to the lyric line below it (or stand alone before a blank line or directive).
+ *
+ * @param text Song text
+ * @returns Title, artist, lines and {define:} voicings
+ *
+ * @example
+ * parseSong('{title: Song}\n[Am]Hello [C]world').lines[0]
+ * // => { kind: 'lyrics', text: 'Hello world', chords: [{ position: 0, symbol: 'Am' }, { position: 6, symbol: 'C' }] }
+ * parseSong('Am    C\nHello world').lines[0]
+ * // => the same line
+ */
+export function parseSong(text: string): Song {
+  const song: Song = { title: null, artist: null, lines: [], definitions: {} };
+  const rawLines = text.replace(/\r\n?/g, '\n').split('\n');
+
+  for (let i = 0; i < rawLines.length; i++) {
+    const line = rawLines[i].trimEnd();
+
+    // Directives: {name: value}
+    const directive = line.trim().match(/^\{([^:}]+)(?::\s*(.*?))?\s*\}$/);
+    if (directive) {
+      const name = directive[1].trim().toLowerCase();
+      const value = directive[2] ?? '';
+
+      if (name === 'title' || name === 't') {
+        song.title = value;
+      } else if (name === 'artist' || name === 'subtitle' || name === 'st') {
+        song.artist = value;
+      } else if (name === 'define') {
+        const definition = parseDefinition(value);
+        if (definition) {
+          song.definitions[definition.symbol] = definition.frets;
+        } else {
+          console.warn(`⚠️ Could not read chord definition: ${value}`);
+        }
+      } else if (name === 'comment' || name === 'c') {
+        song.lines.push({ kind: 'comment', text: value, chords: [] });
+      } else {
+        song.lines.push({ kind: 'directive', text: line.trim().slice(1, -1), chords: [] });
+      }
+      continue;
+    }
+
+    // ChordPro: chords in brackets inside the lyrics
+    if (/\[[^\]]+\]/.test(line)) {
+      const chords: SongLine['chords'] = [];
+      let lyrics = '';
+      line.split(/(\[[^\]]+\])/).forEach(part => {
+        if (/^\[[^\]]+\]$/.test(part)) {
+          chords.push({ position: lyrics.length, symbol: part.slice(1, -1).trim() });
+        } else {
+          lyrics += part;
+        }
+      });
+      song.lines.push({ kind: 'lyrics', text: lyrics.trimEnd(), chords });
+      continue;
+    }
+
+    // Chords over lyrics: chord columns apply to the next lyric line
+    if (isChordLine(line)) {
+      const chords = [...line.matchAll(/\S+/g)].map(match => ({ position: match.index ?? 0, symbol: match[0] }));
+      const next = rawLines[i + 1]?.trimEnd();
+      const hasLyrics = next !== undefined && next.trim() !== '' && !isChordLine(next)
+        && !next.trim().startsWith('{') && !/\[[^\]]+\]/.test(next);
+
+      song.lines.push({ kind: 'lyrics', text: hasLyrics ? next : '', chords });
+      if (hasLyrics) i++;
+      continue;
+    }
+
+    song.lines.push({ kind: 'lyrics', text: line, chords: [] });
+  }
+
+  return song;
+}
+
+/**
+ * Unique chords of a song in order of appearance (including {define:}-only chords)
+ *
+ * @param song Parsed song
+ * @returns Resolved chords
+ */
+export function getSongChords(song: Song): SongChord[] {
+  const symbols = [
+    ...song.lines.flatMap(line => line.chords.map(chord => chord.symbol)),
+    ...Object.keys(song.definitions)
+  ];
+
+  return [...new Set(symbols)].map(parseChordSymbol);
+}
+
+/**
+ * Voicings to offer for a song chord: the song's {define:} first, then validated CAGED voicings
+ *
+ * @param chord Resolved song chord
+ * @param definitions The song's {define:} voicings
+ * @param options Tuning and maximum number of CAGED voicings (default: 5)
+ * @returns Voicings for chord diagrams (frets relative to baseFret)
+ *
+ * @example
+ * getSongChordVoicings(parseChordSymbol('Am'), {})[0].frets => [-1, 0, 2, 2, 1, 0]
+ */
+export function getSongChordVoicings(
+  chord: SongChord,
+  definitions: Record<string, number[]> = {},
+  options: { tuning?: string[]; maxVoicings?: number } = {}
+): EnhancedChordVoicing[] {
+  const { tuning = STANDARD_TUNING, maxVoicings = 5 } = options;
+
+  const defined = definitions[chord.symbol];
+  const caged = chord.notes.length > 0
+    ? getValidatedCAGEDVoicings(chord.note, chord.quality, { tuning, maxVoicings })
+    : [];
+
+  if (!defined) return caged;
+
+  const definedKey = defined.join(',');
+  return [
+    toDefinedVoicing(chord, defined, tuning),
+    ...caged.filter(voicing => voicingToAbsoluteFrets(voicing).join(',') !== definedKey)
+  ];
+}
+
+/**
+ * Absolute frets of a chord diagram voicing
+ *
+ * @param voicing Voicing with frets relative to baseFret
+ * @returns Absolute frets (-1 = muted)
+ */
+export function voicingToAbsoluteFrets(voicing: EnhancedChordVoicing): number[] {
+  return toAbsoluteFrets({ frets: voicing.frets, baseFret: voicing.baseFret, fingers: [], barres: [], midi: [] });
+}
+
+/**
+ * Writes a song as ChordPro
+ *
+ * @param song Parsed song
+ * @param voicings Chosen voicing of each chord symbol (absolute frets), written as {define:} directives
+ * @returns ChordPro text
+ *
+ * @example
+ * toChordPro(parseSong('Am    C\nHello world'), { Am: [-1, 0, 2, 2, 1, 0] })
+ * // => '{define: Am base-fret 1 frets x 0 2 2 1 0}\n[Am]Hello [C]world'
+ */
+export function toChordPro(song: Song, voicings: Record<string, number[]> = {}): string {
+  const output: string[] = [];
+
+  if (song.title !== null) output.push(`{title: ${song.title}}`);
+  if (song.artist !== null) output.push(`{artist: ${song.artist}}`);
+
+  Object.entries(voicings).forEach(([symbol, frets]) => {
+    const position = voicingToChordPosition(frets);
+    const fretList = position.frets.map(fret => (fret < 0 ? 'x' : fret)).join(' ');
+    output.push(`{define: ${symbol} base-fret ${position.baseFret} frets ${fretList}}`);
+  });
+
+  song.lines.forEach(line => {
+    if (line.kind === 'comment') {
+      output.push(`{comment: ${line.text}}`);
+    } else if (line.kind === 'directive') {
+      output.push(`{${line.text}}`);
+    } else {
+      // Insert the chords from the right so earlier positions stay valid
+      const width = Math.max(line.text.length, ...line.chords.map(chord => chord.position));
+      let text = line.text.padEnd(width);
+      [...line.chords]
+        .sort((a, b) => b.position - a.position)
+        .forEach(chord => {
+          text = `${text.slice(0, chord.position)}[${chord.symbol}]${text.slice(chord.position)}`;
+        });
+      output.push(text);
+    }
+  });
+
+  return output.join('\n');
+}
+
+/**
+ * Checks whether every word of a line is a known chord symbol
+ */
+function isChordLine(line: string): boolean {
+  const words = line.trim().split(/\s+/).filter(Boolean);
+  return words.length > 0 && words.every(word => parseChordSymbol(word).notes.length > 0);
+}
+
+/**
+ * Reads a {define:} value: "<symbol> base-fret <n> frets <6 frets> [fingers ...]"
+ */
+function parseDefinition(value: string): { symbol: string; frets: number[] } | null {
+  const match = value.trim().match(/^(\S+)\s+base-fret\s+(\d+)\s+frets\s+((?:[\dxXnN-]+\s*){6})/);
+  if (!match) return null;
+
+  const baseFret = Number(match[2]);
+  const frets = match[3].trim().split(/\s+/).map(fret => {
+    const relative = Number(fret);
+    if (Number.isNaN(relative) || relative < 0) return -1;
+    return relative === 0 ? 0 : relative + baseFret - 1;
+  });
+
+  return { symbol: match[1], frets };
+}
+
+/**
+ * Chord diagram voicing for {define:} frets
+ */
+function toDefinedVoicing(chord: SongChord, frets: number[], tuning: string[]): EnhancedChordVoicing {
+  const position = voicingToChordPosition(frets);
+  const analysis = analyzeChordVoicing(frets, chord.notes, tuning, {
+    optionalNotes: getOptionalTones(chord.note, chord.notes),
+    bassNote: parseSlashQuality(chord.quality).bass ?? undefined
+  });
+
+  return {
+    name: `${chord.symbol} (song)`,
+    frets: position.frets,
+    baseFret: position.baseFret,
+    position: position.baseFret,
+    cagedShape: determineCAGEDShape(position.frets, position.baseFret, tuning),
+    difficulty: calculateDifficulty(position, position.baseFret),
+    barrePositions: position.barres,
+    validated: analysis.isValid,
+    theoreticalNotes: chord.notes,
+    analysis
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Fingerpicking Patterns
+ *
+ * Turns a chord voicing (absolute frets from toAbsoluteFrets) into picked single notes:
+ * - Right-hand fingers p-i-m-a, written into the AlphaTeX as {rf 1}..{rf 4}
+ * - The thumb plays the bass (lowest played string) and the alternate bass (next string up)
+ * - i, m and a play the three highest strings above the thumb strings
+ * - Patterns such as Travis alternating bass or a p-i-m-a arpeggio, one note per step
+ * - One bar per chord, in any time signature (patterns repeat or are cut to fill the bar)
+ */
+
+import { TimeSignature, splitIntoDurations, DEFAULT_RHYTHM } from './strumming';
+
+export type PickingFinger = 'p' | 'i' | 'm' | 'a';
+
+/**
+ * What a step plays: the bass, the alternate bass, a finger's string, nothing new (hold) or a rest
+ */
+export type PickingVoice = 'bass' | 'alternateBass' | 'i' | 'm' | 'a' | 'hold' | 'rest';
+
+/**
+ * Voices that play a string
+ */
+export type PickedVoice = Exclude<PickingVoice, 'hold' | 'rest'>;
+
+export interface PickingPattern {
+  id: string;
+  name: string;
+  subdivision: 8 | 16; // Grid: 8 = eighths, 16 = sixteenths
+  steps: PickingVoice[];
+}
+
+/**
+ * A picked note: string index (0 = low E) and fret of the voicing
+ */
+export interface PickedNote {
+  stringIndex: number;
+  fret: number;
+  finger: PickingFinger;
+}
+
+/**
+ * Pattern symbols:
+ * p = bass, p' = alternate bass, i/m/a = fingers, - = let the previous note ring, r = rest
+ */
+const VOICE_SYMBOLS: Record<string, PickingVoice> = {
+  p: 'bass',
+  "p'": 'alternateBass',
+  i: 'i',
+  m: 'm',
+  a: 'a',
+  '-': 'hold',
+  r: 'rest'
+};
+
+// AlphaTeX right-hand finger numbers (1 = thumb)
+const FINGER_NUMBERS: Record<PickingFinger, number> = { p: 1, i: 2, m: 3, a: 4 };
+
+/**
+ * Parses a picking pattern from its text form
+ *
+ * @param text Space separated symbols (see VOICE_SYMBOLS)
+ * @returns The pattern steps
+ * @throws Error for unknown symbols
+ *
+ * @example
+ * parsePickingPattern("p i p' m") => ['bass', 'i', 'alternateBass', 'm']
+ */
+export function parsePickingPattern(text: string): PickingVoice[] {
+  return text.trim().split(/\s+/).map(symbol => {
+    const voice = VOICE_SYMBOLS[symbol.toLowerCase()];
+    if (!voice) {
+      throw new Error(`Unknown picking symbol: ${symbol}`);
+    }
+    return voice;
+  });
+}
+
+/**
+ * Preset picking patterns
+ */
+export const PICKING_PATTERNS: PickingPattern[] = [
+  { id: 'travis', name: 'Travis alternating bass', subdivision: 8, steps: parsePickingPattern("p m p' i p m p' i") },
+  { id: 'pima', name: 'p-i-m-a arpeggio', subdivision: 8, steps: parsePickingPattern('p i m a m i') },
+  { id: 'classical', name: 'Classical p-i-m-i-a-i-m-i', subdivision: 8, steps: parsePickingPattern('p i m i a i m i') }
+];
+
+/**
+ * Finds a preset picking pattern by id
+ *
+ * @param id Pattern id (e.g. 'travis')
+ * @returns The pattern, or null if there is none with this id
+ */
+export function getPickingPattern(id: string): PickingPattern | null {
+  return PICKING_PATTERNS.find(pattern => pattern.id === id) ?? null;
+}
+
+/**
+ * Assigns the strings of a voicing to the right-hand fingers
+ * Voicings with few strings share strings between fingers (highest string first).
+ *
+ * @param frets Absolute frets (low E to high E, -1 = muted)
+ * @returns The note each voice plays, or null if no string is played
+ *
+ * @example
+ * getPickingStrings([-1, 3, 2, 0, 1, 0])
+ * // => { bass: { stringIndex: 1, fret: 3, finger: 'p' }, alternateBass: { stringIndex: 2, fret: 2, finger: 'p' },
+ * //      i: { stringIndex: 3, ... }, m: { stringIndex: 4, ... }, a: { stringIndex: 5, ... } }
+ */
+export function getPickingStrings(frets: number[]): Record<PickedVoice, PickedNote> | null {
+  const played = frets.flatMap((fret, stringIndex) => (fret >= 0 ? [{ stringIndex, fret }] : []));
+  if (played.length === 0) return null;
+
+  const bass = played[0];
+  const alternateBass = played[1] ?? bass;
+  const treble = played.slice(2);
+  const top = played[played.length - 1];
+
+  // Highest three strings for a, m and i
+  const fingerString = (offset: number) => treble[treble.length - 1 - offset] ?? treble[0] ?? top;
+
+  return {
+    bass: { ...bass, finger: 'p' },
+    alternateBass: { ...alternateBass, finger: 'p' },
+    i: { ...fingerString(2), finger: 'i' },
+    m: { ...fingerString(1), finger: 'm' },
+    a: { ...fingerString(0), finger: 'a' }
+  };
+}
+
+/**
+ * Renders one bar of a picked chord as single-note AlphaTeX beats with right-hand fingers
+ *
+ * @param frets Absolute frets (low E to high E, -1 = muted), e.g. from toAbsoluteFrets
+ * @param pattern Picking pattern
+ * @param timeSignature Time signature of the bar (default: 4/4)
+ * @returns AlphaTeX beats of the bar (a whole-bar rest if no string is played)
+ *
+ * @example
+ * pickChordToAlphaTeX([-1, 3, 2, 0, 1, 0], getPickingPattern('travis'))
+ * // => '3.5{rf 1}.8 1.2{rf 3}.8 2.4{rf 1}.8 0.3{rf 2}.8 3.5{rf 1}.8 1.2{rf 3}.8 2.4{rf 1}.8 0.3{rf 2}.8'
+ */
+export function pickChordToAlphaTeX(
+  frets: number[],
+  pattern: PickingPattern,
+  timeSignature: TimeSignature = DEFAULT_RHYTHM.timeSignature
+): string {
+  const stepsPerBar = (timeSignature.numerator * pattern.subdivision) / timeSignature.denominator;
+  const strings = getPickingStrings(frets);
+
+  if (!strings) {
+    return splitIntoDurations(stepsPerBar, pattern.subdivision)
+      .map(duration => `r.${duration.value}${duration.dotted ? '{d}' : ''}`)
+      .join(' ');
+  }
+
+  // Merge held steps into the note (or rest) before them
+  const events: Array<{ voice: PickedVoice | 'rest'; length: number }> = [];
+  for (let i = 0; i < stepsPerBar; i++) {
+    const voice = pattern.steps[i % pattern.steps.length];
+    const last = events[events.length - 1];
+    if (voice === 'hold' && last) {
+      last.length++;
+    } else {
+      events.push({ voice: voice === 'hold' ? 'rest' : voice, length: 1 });
+    }
+  }
+
+  return events
+    .flatMap(event => splitIntoDurations(event.length, pattern.subdivision).map((duration, i) => {
+      const dot = duration.dotted ? '{d}' : '';
+      if (i > 0 || event.voice === 'rest') return `r.${duration.value}${dot}`;
+
+      // String numbering in AlphaTeX: 1 = high E, 6 = low E
+      const note = strings[event.voice];
+      return `${note.fret}.${6 - note.stringIndex}{rf ${FINGER_NUMBERS[note.finger]}}.${duration.value}${dot}`;
+    }))
+    .join(' ');
+}
@@ -0,0 +1,323 @@
+/**
+ * Jazz Guitar Voicings
+ *
+ * Generates the standard comping voicings for seventh chords:
+ * - Drop 2 voicings on string sets 1-4, 2-5 and 3-6
+ * - Drop 3 voicings on string sets 1-5 and 2-6 (one skipped string)
+ * - Three-note shell voicings R-3-7 and R-7-3
+ *
+ * Drop voicings are built from the four close-position inversions of the chord:
+ * Drop 2 lowers the second-highest voice by an octave, Drop 3 the third-highest.
+ * Results are EnhancedChordVoicing objects, so they can be shown in ChordModal.
+ */
+
+import { getChordNotes, getChordToneFunctions, analyzeChordVoicing, STANDARD_TUNING, INVERSION_NAMES } from './musicTheory';
+import { determineCAGEDShape, calculateDifficulty, EnhancedChordVoicing } from './cagedSystemEnhanced';
+import { voicingToChordPosition } from './voicingGenerator';
+import { stackVoicesOnStrings } from './stringSetVoicings';
+
+/**
+ * Jazz voicing family
+ */
+export type JazzVoicingType = 'drop2' | 'drop3' | 'shell';
+
+/**
+ * A drop or shell voicing with its string set and voice order
+ */
+export interface JazzVoicing extends EnhancedChordVoicing {
+  voicingType: JazzVoicingType;
+  stringSet: string;      // e.g. '2-5' (drop voicings) or '6-4-3' (shells)
+  voiceOrder: string[];   // Chord tones low to high (e.g. ['5', 'R', '3', '7'])
+  inversion: number;      // 0 = root, 1 = 3rd, 2 = 5th, 3 = 7th in the bass
+}
+
+/**
+ * Options for the jazz voicing generators
+ */
+export interface JazzVoicingOptions {
+  tuning?: string[];     // Open string notes, low to high (default: standard)
+  minFret?: number;      // Lowest fret (default: 1, movable shapes; open strings only where no movable shape fits)
+  maxFret?: number;      // Highest fret (default: 15)
+  maxFretSpan?: number;  // Frets the hand may cover (default: 5, some maj7 inversions need a stretch)
+}
+
+/**
+ * Seventh chord qualities with drop and shell voicings
+ */
+export const SEVENTH_CHORD_QUALITIES = ['maj7', '7', 'm7', 'm7b5', 'dim7', 'mmaj7'];
+
+/**
+ * Display names of the voicing families
+ */
+export const JAZZ_VOICING_LABELS: Record<JazzVoicingType, string> = {
+  drop2: 'Drop 2',
+  drop3: 'Drop 3',
+  shell: 'Shell'
+};
+
+// Guitar string numbers (1 = high E) per string set, low to high
+const DROP2_STRING_SETS: Record<string, number[]> = {
+  '3-6': [6, 5, 4, 3],
+  '2-5': [5, 4, 3, 2],
+  '1-4': [4, 3, 2, 1]
+};
+
+const DROP3_STRING_SETS: Record<string, number[]> = {
+  '2-6': [6, 4, 3, 2],
+  '1-5': [5, 3, 2, 1]
+};
+
+// Shells: R-3-7 on adjacent strings, R-7-3 skips a string
+const SHELL_STRING_SETS: Record<string, { strings: number[]; order: number[] }> = {
+  '6-5-4': { strings: [6, 5, 4], order: [0, 1, 3] },
+  '5-4-3': { strings: [5, 4, 3], order: [0, 1, 3] },
+  '6-4-3': { strings: [6, 4, 3], order: [0, 3, 1] },
+  '5-3-2': { strings: [5, 3, 2], order: [0, 3, 1] }
+};
+
+/**
+ * Generates Drop 2 voicings (all four inversions on string sets 3-6, 2-5 and 1-4)
+ *
+ * @param root Root note (e.g., 'C', 'Bb')
+ * @param quality Seventh chord quality (e.g., 'maj7', '7', 'm7', 'm7b5', 'dim7')
+ * @param options Tuning and fret range
+ * @returns Voicings ordered by string set, then inversion
+ *
+ * @example
+ * generateDrop2Voicings('C', 'maj7').find(v => v.stringSet === '2-5' && v.inversion === 0)
+ * // => { frets: [-1, 3, 5, 4, 5, -1], voiceOrder: ['R', '5', '7', '3'], ... }
+ */
+export function generateDrop2Voicings(
+  root: string,
+  quality: string,
+  options: JazzVoicingOptions = {}
+): JazzVoicing[] {
+  return generateDropVoicings(root, quality, 'drop2', DROP2_STRING_SETS, options);
+}
+
+/**
+ * Generates Drop 3 voicings (all four inversions on string sets 2-6 and 1-5)
+ *
+ * @param root Root note
+ * @param quality Seventh chord quality
+ * @param options Tuning and fret range
+ * @returns Voicings ordered by string set, then inversion
+ *
+ * @example
+ * generateDrop3Voicings('C', 'maj7').find(v => v.stringSet === '2-6' && v.inversion === 0)
+ * // => { frets: [8, -1, 9, 9, 8, -1], voiceOrder: ['R', '7', '3', '5'], ... }
+ */
+export function generateDrop3Voicings(
+  root: string,
+  quality: string,
+  options: JazzVoicingOptions = {}
+): JazzVoicing[] {
+  return generateDropVoicings(root, quality, 'drop3', DROP3_STRING_SETS, options);
+}
+
+/**
+ * Generates three-note shell voicings (root, 3rd and 7th; the 5th is left out)
+ *
+ * @param root Root note
+ * @param quality Seventh chord quality
+ * @param options Tuning and fret range
+ * @returns R-3-7 and R-7-3 shells with the root on the 6th and 5th string
+ *
+ * @example
+ * generateShellVoicings('G', '7').find(v => v.stringSet === '6-4-3')
+ * // => { frets: [3, -1, 3, 4, -1, -1], voiceOrder: ['R', '7', '3'], ... }
+ */
+export function generateShellVoicings(
+  root: string,
+  quality: string,
+  options: JazzVoicingOptions = {}
+): JazzVoicing[] {
+  const chordNotes = getSeventhChordNotes(root, quality);
+  if (!chordNotes) return [];
+
+  return Object.entries(SHELL_STRING_SETS).flatMap(([stringSet, { strings, order }]) => {
+    const voicing = buildVoicing(root, quality, chordNotes, 'shell', stringSet, strings, order, options);
+    return voicing ? [voicing] : [];
+  });
+}
+
+/**
+ * Generates all jazz voicings of a seventh chord (Drop 2, Drop 3 and shells)
+ *
+ * @param root Root note
+ * @param quality Seventh chord quality
+ * @param options Tuning and fret range
+ * @returns Drop 2, then Drop 3, then shell voicings (empty for other qualities)
+ *
+ * @example
+ * getJazzVoicings('D', 'm7').length // => 24 (12 Drop 2, 8 Drop 3, 4 shells)
+ */
+export function getJazzVoicings(
+  root: string,
+  quality: string,
+  options: JazzVoicingOptions = {}
+): JazzVoicing[] {
+  if (!getSeventhChordNotes(root, quality)) return [];
+
+  return [
+    ...generateDrop2Voicings(root, quality, options),
+    ...generateDrop3Voicings(root, quality, options),
+    ...generateShellVoicings(root, quality, options)
+  ];
+}
+
+/**
+ * Groups jazz voicings by family and string set (for display)
+ *
+ * @param voicings Voicings from getJazzVoicings
+ * @returns Groups in input order, e.g. [{ label: 'Drop 2 · strings 3-6', voicings: [...] }, ...]
+ */
+export function groupJazzVoicingsByStringSet(
+  voicings: JazzVoicing[]
+): Array<{ label: string; voicingType: JazzVoicingType; stringSet: string; voicings: JazzVoicing[] }> {
+  const groups = new Map<string, { label: string; voicingType: JazzVoicingType; stringSet: string; voicings: JazzVoicing[] }>();
+
+  voicings.forEach(voicing => {
+    const key = `${voicing.voicingType}:${voicing.stringSet}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        label: `${JAZZ_VOICING_LABELS[voicing.voicingType]} · strings ${voicing.stringSet}`,
+        voicingType: voicing.voicingType,
+        stringSet: voicing.stringSet,
+        voicings: []
+      });
+    }
+    groups.get(key)!.voicings.push(voicing);
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Checks whether a chord is a seventh chord (root, 3rd, 5th and 7th, nothing else)
+ *
+ * @param root Root note
+ * @param quality Chord quality
+ * @returns true if drop and shell voicings can be generated
+ *
+ * @example
+ * isSeventhChord('C', 'm7b5') => true
+ * isSeventhChord('C', '6') => false
+ */
+export function isSeventhChord(root: string, quality: string): boolean {
+  return getChordToneFunctions(root, quality).map(tone => tone.function).join(',') === 'R,3,5,7';
+}
+
+/**
+ * Gets the four chord tones (R, 3, 5, 7) or null if the quality is not a seventh chord
+ */
+function getSeventhChordNotes(root: string, quality: string): string[] | null {
+  if (!isSeventhChord(root, quality)) {
+    console.warn(`⚠️ ${root}${quality} is not a seventh chord - no jazz voicings generated`);
+    return null;
+  }
+  return getChordNotes(root, quality);
+}
+
+/**
+ * Generates Drop 2 or Drop 3 voicings for the four close-position inversions on each string set
+ */
+function generateDropVoicings(
+  root: string,
+  quality: string,
+  voicingType: 'drop2' | 'drop3',
+  stringSets: Record<string, number[]>,
+  options: JazzVoicingOptions
+): JazzVoicing[] {
+  const chordNotes = getSeventhChordNotes(root, quality);
+  if (!chordNotes) return [];
+
+  // Close position, voices low to high as chord tone indices: [c0, c1, c2, c3]
+  // Drop 2 => [c2, c0, c1, c3], Drop 3 => [c1, c0, c2, c3]
+  const dropOrder = voicingType === 'drop2' ? [2, 0, 1, 3] : [1, 0, 2, 3];
+
+  return Object.entries(stringSets).flatMap(([stringSet, strings]) => {
+    const voicings = [0, 1, 2, 3].map(rotation => {
+      const closePosition = [0, 1, 2, 3].map(i => (i + rotation) % 4);
+      const order = dropOrder.map(i => closePosition[i]);
+      return buildVoicing(root, quality, chordNotes, voicingType, stringSet, strings, order, options);
+    });
+
+    return voicings
+      .filter((voicing): voicing is JazzVoicing => voicing !== null)
+      .sort((a, b) => a.inversion - b.inversion);
+  });
+}
+
+/**
+ * Finds the lowest playable position of a voice order on a string set (see stackVoicesOnStrings)
+ *
+ * Without a minFret option, movable shapes are preferred and open strings are only used
+ * if no movable shape fits below maxFret (e.g. some maj7 stretches).
+ */
+function buildVoicing(
+  root: string,
+  quality: string,
+  chordNotes: string[],
+  voicingType: JazzVoicingType,
+  stringSet: string,
+  strings: number[],
+  order: number[],
+  options: JazzVoicingOptions
+): JazzVoicing | null {
+  const { tuning = STANDARD_TUNING, minFret, maxFret = 15, maxFretSpan = 5 } = options;
+
+  const voices = order.map(i => chordNotes[i]);
+  const lowestPosition = (fromFret: number) =>
+    stackVoicesOnStrings(strings, voices, { tuning, minFret: fromFret, maxFret, maxFretSpan })[0];
+
+  const frets = lowestPosition(minFret ?? 1) ?? (minFret === undefined ? lowestPosition(0) : undefined);
+  if (!frets) return null;
+
+  return toJazzVoicing(root, quality, chordNotes, frets, voicingType, stringSet, order, tuning);
+}
+
+/**
+ * Converts absolute frets into a JazzVoicing
+ */
+function toJazzVoicing(
+  root: string,
+  quality: string,
+  chordNotes: string[],
+  frets: number[],
+  voicingType: JazzVoicingType,
+  stringSet: string,
+  order: number[],
+  tuning: string[]
+): JazzVoicing {
+  const position = voicingToChordPosition(frets);
+  const toneLabels = getChordToneFunctions(root, quality).map(tone => (tone.function === 'R' ? 'R' : tone.label));
+  const voiceOrder = order.map(i => toneLabels[i]);
+  const inversion = order[0];
+
+  // Shells leave out the 5th on purpose
+  const analysis = analyzeChordVoicing(frets, chordNotes, tuning, {
+    optionalNotes: voicingType === 'shell' ? [chordNotes[2]] : []
+  });
+
+  const inversionLabel = voicingType === 'shell' ? voiceOrder.join('-') : INVERSION_NAMES[inversion];
+
+  return {
+    name: `${root}${quality} ${JAZZ_VOICING_LABELS[voicingType]} (${inversionLabel}, strings ${stringSet})`,
+    frets: position.frets,
+    baseFret: position.baseFret,
+    fingers: position.fingers,
+    position: position.baseFret,
+    cagedShape: determineCAGEDShape(position.frets, position.baseFret, tuning),
+    difficulty: calculateDifficulty(position, position.baseFret),
+    barrePositions: position.barres,
+    midi: [],
+    validated: analysis.isValid,
+    theoreticalNotes: chordNotes,
+    analysis,
+    voicingType,
+    stringSet,
+    voiceOrder,
+    inversion
+  };
+}
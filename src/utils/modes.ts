@@ -0,0 +1,111 @@
+/**
+ * Modal Scale Utilities
+ *
+ * Provides the seven modes of the major scale with:
+ * - Interval patterns (semitones from root)
+ * - Characteristic note of each mode
+ * - Parent major scale calculation
+ */
+
+import { transposeNote } from './musicTheory';
+import { Note } from 'tonal';
+
+export type ModeName =
+  | 'ionian'
+  | 'dorian'
+  | 'phrygian'
+  | 'lydian'
+  | 'mixolydian'
+  | 'aeolian'
+  | 'locrian';
+
+/**
+ * Modes in the order of the major scale degrees they start on
+ */
+export const MODE_NAMES: ModeName[] = [
+  'ionian',
+  'dorian',
+  'phrygian',
+  'lydian',
+  'mixolydian',
+  'aeolian',
+  'locrian'
+];
+
+/**
+ * Display labels for the mode selector
+ */
+export const MODE_LABELS: Record<ModeName, string> = {
+  ionian: 'Ionian (Major)',
+  dorian: 'Dorian',
+  phrygian: 'Phrygian',
+  lydian: 'Lydian',
+  mixolydian: 'Mixolydian',
+  aeolian: 'Aeolian (Minor)',
+  locrian: 'Locrian'
+};
+
+/**
+ * Mode patterns (intervals from root in semitones)
+ */
+export const MODE_PATTERNS: Record<ModeName, number[]> = {
+  ionian: [0, 2, 4, 5, 7, 9, 11],     // Major scale (W-W-H-W-W-W-H)
+  dorian: [0, 2, 3, 5, 7, 9, 10],     // Minor with major 6th (W-H-W-W-W-H-W)
+  phrygian: [0, 1, 3, 5, 7, 8, 10],   // Minor with flat 2nd (H-W-W-W-H-W-W)
+  lydian: [0, 2, 4, 6, 7, 9, 11],     // Major with sharp 4th (W-W-W-H-W-W-H)
+  mixolydian: [0, 2, 4, 5, 7, 9, 10], // Major with flat 7th (W-W-H-W-W-H-W)
+  aeolian: [0, 2, 3, 5, 7, 8, 10],    // Natural minor scale (W-H-W-W-H-W-W)
+  locrian: [0, 1, 3, 5, 6, 8, 10]     // Diminished with flat 2nd and flat 5th (H-W-W-H-W-W-W)
+};
+
+/**
+ * Characteristic note of each mode: the degree that sets it apart from
+ * the plain major (Ionian) or natural minor (Aeolian) scale on the same root
+ */
+export const MODE_CHARACTERISTICS: Record<
+  ModeName,
+  { interval: number; label: string; tonalInterval: string }
+> = {
+  ionian: { interval: 5, label: '4', tonalInterval: '4P' },       // Natural 4th (vs. #4 in Lydian)
+  dorian: { interval: 9, label: '6', tonalInterval: '6M' },       // Major 6th in a minor mode
+  phrygian: { interval: 1, label: 'b2', tonalInterval: '2m' },    // Flat 2nd
+  lydian: { interval: 6, label: '#4', tonalInterval: '4A' },      // Sharp 4th
+  mixolydian: { interval: 10, label: 'b7', tonalInterval: '7m' }, // Flat 7th in a major mode
+  aeolian: { interval: 8, label: 'b6', tonalInterval: '6m' },     // Flat 6th (vs. major 6th in Dorian)
+  locrian: { interval: 6, label: 'b5', tonalInterval: '5d' }      // Flat 5th
+};
+
+/**
+ * Gets the parent major scale of a mode
+ * Every mode uses the notes of the major scale it is derived from
+ *
+ * @param root Root note of the mode (e.g., 'D')
+ * @param mode Mode name
+ * @returns Root note of the parent major scale
+ *
+ * @example
+ * getParentMajorScale('D', 'dorian') => 'C'
+ * getParentMajorScale('F', 'lydian') => 'C'
+ * getParentMajorScale('A', 'aeolian') => 'C'
+ */
+export function getParentMajorScale(root: string, mode: ModeName): string {
+  const degreeOffset = MODE_PATTERNS.ionian[MODE_NAMES.indexOf(mode)];
+  if (degreeOffset === 0) return root;
+  return Note.simplify(transposeNote(root, -degreeOffset));
+}
+
+/**
+ * Gets the characteristic note of a mode on a given root
+ *
+ * @param root Root note of the mode
+ * @param mode Mode name
+ * @returns Characteristic note name
+ *
+ * @example
+ * getCharacteristicNote('F', 'lydian') => 'B'
+ * getCharacteristicNote('C', 'lydian') => 'F#'
+ * getCharacteristicNote('E', 'phrygian') => 'F'
+ */
+export function getCharacteristicNote(root: string, mode: ModeName): string {
+  return Note.transpose(root, MODE_CHARACTERISTICS[mode].tonalInterval);
+}
@@ -6,6 +6,7 @@
  * - Interval computation
  * - Note transposition
  * - Chord voicing validation
+ * - Slash chords and inversions
  */
 
 import { Chord, Note, Interval } from 'tonal';
@@ -32,16 +33,42 @@ export function fretsToNotes(
     .filter((note): note is string => note !== null);
 }
 
+/**
+ * Splits a slash-chord quality into the chord quality and the bass note
+ * A quality without a valid bass note after the slash (e.g. '6/9') is not a slash chord.
+ *
+ * @param quality Chord quality, optionally with bass note (e.g. 'm/B', '/E', '7/B')
+ * @returns Base quality and bass note (null if not a slash chord)
+ *
+ * @example
+ * parseSlashQuality('/E') => { quality: '', bass: 'E' }
+ * parseSlashQuality('m7/G') => { quality: 'm7', bass: 'G' }
+ * parseSlashQuality('maj7') => { quality: 'maj7', bass: null }
+ */
+export function parseSlashQuality(quality: string): { quality: string; bass: string | null } {
+  const slashIndex = quality.lastIndexOf('/');
+  if (slashIndex === -1) return { quality, bass: null };
+
+  const bassNote = Note.get(quality.slice(slashIndex + 1));
+  if (bassNote.empty || bassNote.oct !== undefined) return { quality, bass: null };
+
+  return { quality: quality.slice(0, slashIndex), bass: bassNote.pc };
+}
+
 /**
  * Get all notes in a chord based on root and quality
+ * Slash chords list the bass note first (like Tonal.js)
+ *
  * @param root Root note (e.g., 'C', 'F#', 'Bb')
- * @param quality Chord quality (e.g., 'major', 'minor', '7', 'maj7')
+ * @param quality Chord quality (e.g., 'major', 'minor', '7', 'maj7', 'm/B')
  * @returns Array of note names in the chord
  *
  * @example
  * getChordNotes('C', 'major') => ['C', 'E', 'G']
  * getChordNotes('Am', '') => ['A', 'C', 'E']
  * getChordNotes('G', '7') => ['G', 'B', 'D', 'F']
+ * getChordNotes('C', '/E') => ['E', 'G', 'C']
+ * getChordNotes('C', '/D') => ['D', 'C', 'E', 'G']
  */
 export function getChordNotes(root: string, quality: string = ''): string[] {
   // Map common quality names to Tonal.js format
@@ -60,11 +87,14 @@ export function getChordNotes(root: string, quality: string = ''): string[] {
     '9': '9',
     'm6': 'm6',
     'dim7': 'dim7',
-    'm7b5': 'm7b5' // half-diminished
+    'm7b5': 'm7b5', // half-diminished
+    'mmaj7': 'mMaj7' // chords-db suffix for minor-major 7th
   };
 
-  const mappedQuality = qualityMap[quality] !== undefined ? qualityMap[quality] : quality;
-  const chordName = `${root}${mappedQuality}`;
+  const { quality: baseQuality, bass } = parseSlashQuality(quality);
+  const mappedQuality = qualityMap[baseQuality] !== undefined ? qualityMap[baseQuality] : baseQuality;
+  const slash = bass ? `/${bass}` : '';
+  const chordName = `${root}${mappedQuality}${slash}`;
 
   const chord = Chord.get(chordName);
 
@@ -80,25 +110,35 @@ export function getChordNotes(root: string, quality: string = ''): string[] {
 /**
  * Validates if a fret combination contains the correct chord notes
  * Uses chromatic note comparison (C# = Db)
+ * Only checks that the notes are present - see analyzeChordVoicing for extra notes
  *
  * @param frets Array of fret positions
  * @param expectedNotes Expected chord notes
  * @param tuning Guitar tuning (default: standard)
+ * @param bassNote Required lowest sounding note (optional, e.g. 'E' for C/E)
  * @returns true if voicing is valid
  *
  * @example
  * // C major open position: x-3-2-0-1-0
  * validateChordVoicing([-1, 3, 2, 0, 1, 0], ['C', 'E', 'G']) => true
+ * validateChordVoicing([-1, 3, 2, 0, 1, 0], ['C', 'E', 'G'], STANDARD_TUNING, 'E') => false
+ * validateChordVoicing([0, 3, 2, 0, 1, 0], ['C', 'E', 'G'], STANDARD_TUNING, 'E') => true
  */
 export function validateChordVoicing(
   frets: number[],
   expectedNotes: string[],
-  tuning: string[] = STANDARD_TUNING
+  tuning: string[] = STANDARD_TUNING,
+  bassNote?: string
 ): boolean {
   if (expectedNotes.length === 0) return false;
 
   const playedNotes = fretsToNotes(frets, tuning);
 
+  // Lowest sounding note must be the bass note (slash chords and inversions)
+  if (bassNote && (playedNotes.length === 0 || Note.chroma(playedNotes[0]) !== Note.chroma(bassNote))) {
+    return false;
+  }
+
   // Check if all expected notes are present (using chromatic comparison)
   return expectedNotes.every(expectedNote => {
     const expectedChroma = Note.chroma(expectedNote);
@@ -108,6 +148,160 @@ export function validateChordVoicing(
   });
 }
 
+/**
+ * Detailed result of a chord voicing check
+ */
+export interface VoicingAnalysis {
+  isValid: boolean;          // All required tones, no non-chord tones, correct bass
+  missingNotes: string[];    // Required chord tones that are not played
+  omittedNotes: string[];    // Optional chord tones that are not played (e.g. the 5th)
+  nonChordTones: string[];   // Played notes that are not in the chord
+  doubledNotes: Array<{ note: string; count: number }>; // Chord tones played on more than one string
+  bassNote: string | null;   // Lowest sounding note (null if all strings are muted)
+  isBassCorrect: boolean;    // Lowest note is the required bass note (true if none is required)
+}
+
+/**
+ * Analyzes a fret combination against the chord notes
+ * Unlike validateChordVoicing, wrong extra notes make the voicing invalid.
+ * Notes are compared chromatically and named with the chord's spelling.
+ *
+ * @param frets Array of fret positions
+ * @param expectedNotes Expected chord notes (including optional ones)
+ * @param tuning Guitar tuning (default: standard)
+ * @param options optionalNotes: chord tones that may be left out (e.g. the 5th);
+ *                bassNote: required lowest sounding note
+ * @returns Missing, omitted, non-chord and doubled notes and the bass note
+ *
+ * @example
+ * analyzeChordVoicing([-1, 3, 3, 0, 1, 0], ['C', 'E', 'G'])
+ * // => { isValid: false, nonChordTones: ['F'], missingNotes: [], bassNote: 'C', ... }
+ *
+ * @example
+ * analyzeChordVoicing([-1, 3, 2, 4, 5, -1], ['C', 'E', 'G', 'B'], STANDARD_TUNING, { optionalNotes: ['G'] })
+ * // => { isValid: true, omittedNotes: ['G'], doubledNotes: [{ note: 'E', count: 2 }], ... }
+ */
+export function analyzeChordVoicing(
+  frets: number[],
+  expectedNotes: string[],
+  tuning: string[] = STANDARD_TUNING,
+  options: { optionalNotes?: string[]; bassNote?: string } = {}
+): VoicingAnalysis {
+  const { optionalNotes = [], bassNote } = options;
+
+  const playedNotes = fretsToNotes(frets, tuning);
+  const optionalChromas = new Set(optionalNotes.map(note => Note.chroma(note)));
+
+  // Name played notes after the chord tone they match
+  const spell = (note: string) =>
+    expectedNotes.find(expected => Note.chroma(expected) === Note.chroma(note)) ?? Note.simplify(note);
+
+  const countByChroma = new Map<number | undefined, number>();
+  playedNotes.forEach(note => {
+    const chroma = Note.chroma(note);
+    countByChroma.set(chroma, (countByChroma.get(chroma) ?? 0) + 1);
+  });
+
+  const unplayed = expectedNotes.filter(note => !countByChroma.has(Note.chroma(note)));
+  const missingNotes = unplayed.filter(note => !optionalChromas.has(Note.chroma(note)));
+  const omittedNotes = unplayed.filter(note => optionalChromas.has(Note.chroma(note)));
+
+  const nonChordTones = [...new Set(
+    playedNotes
+      .filter(note => !expectedNotes.some(expected => Note.chroma(expected) === Note.chroma(note)))
+      .map(spell)
+  )];
+
+  const doubledNotes = expectedNotes
+    .map(note => ({ note, count: countByChroma.get(Note.chroma(note)) ?? 0 }))
+    .filter(({ count }) => count > 1);
+
+  const lowest = playedNotes.length > 0 ? spell(playedNotes[0]) : null;
+  const isBassCorrect = !bassNote || (lowest !== null && Note.chroma(lowest) === Note.chroma(bassNote));
+
+  return {
+    isValid: expectedNotes.length > 0 && playedNotes.length > 0 &&
+      missingNotes.length === 0 && nonChordTones.length === 0 && isBassCorrect,
+    missingNotes,
+    omittedNotes,
+    nonChordTones,
+    doubledNotes,
+    bassNote: lowest,
+    isBassCorrect
+  };
+}
+
+/**
+ * Inversion names by inversion number
+ */
+export const INVERSION_NAMES = ['root position', 'first inversion', 'second inversion', 'third inversion'];
+
+/**
+ * Gets the inversion of a chord from its bass note
+ * (3rd = first, 5th = second, 7th = third inversion)
+ *
+ * @param root Chord root
+ * @param bassNote Lowest sounding note
+ * @returns 0 = root position, 1-3 = inversion, null if the bass is not a 3rd, 5th or 7th
+ *
+ * @example
+ * getInversion('C', 'E') => 1
+ * getInversion('G', 'F') => 3
+ * getInversion('C', 'D') => null
+ */
+export function getInversion(root: string, bassNote: string): number | null {
+  const interval = Interval.get(Note.distance(root, bassNote));
+  const inversions: Record<number, number> = { 1: 0, 3: 1, 5: 2, 7: 3 };
+  return interval.num !== undefined && inversions[interval.num] !== undefined ? inversions[interval.num] : null;
+}
+
+/**
+ * Gets the inversion of a voicing from its lowest sounding note
+ * The bass is matched to the chord tones by pitch class, so fret spelling (D# vs Eb) does not matter.
+ *
+ * @param frets Absolute fret positions (-1 = muted)
+ * @param root Chord root
+ * @param quality Chord quality
+ * @param tuning Guitar tuning (default: standard)
+ * @returns 0 = root position, 1-3 = inversion, null if the bass is not a 3rd, 5th or 7th
+ *
+ * @example
+ * getVoicingInversion([0, 3, 2, 0, 1, 0], 'C', 'major') => 1
+ * getVoicingInversion([-1, 6, 5, 3, 4, 3], 'C', 'm') => 1
+ */
+export function getVoicingInversion(
+  frets: number[],
+  root: string,
+  quality: string = '',
+  tuning: string[] = STANDARD_TUNING
+): number | null {
+  const [bass] = fretsToNotes(frets, tuning);
+  if (bass === undefined) return null;
+
+  const chordTone = getChordNotes(root, quality).find(note => Note.chroma(note) === Note.chroma(bass));
+  return chordTone ? getInversion(root, chordTone) : null;
+}
+
+/**
+ * Gets the slash-chord quality for an inversion of a chord
+ *
+ * @param root Chord root
+ * @param quality Chord quality (without bass)
+ * @param inversion 0 = root position, 1 = 3rd, 2 = 5th, 3 = 7th in the bass
+ * @returns Quality with bass note (unchanged for root position or a missing chord tone)
+ *
+ * @example
+ * getInversionQuality('G', '', 1) => '/B'
+ * getInversionQuality('A', 'm7', 3) => 'm7/G'
+ * getInversionQuality('C', '', 0) => ''
+ */
+export function getInversionQuality(root: string, quality: string, inversion: number): string {
+  if (inversion === 0) return quality;
+
+  const bass = getChordNotes(root, quality).find(note => getInversion(root, note) === inversion);
+  return bass ? `${quality}/${bass}` : quality;
+}
+
 /**
  * Transposes a note by a given number of semitones
  *
@@ -140,6 +334,93 @@ export function getIntervalSemitones(note1: string, note2: string): number {
   return Interval.semitones(interval) || 0;
 }
 
+/**
+ * Interval degree labels by semitones from the root
+ */
+export const INTERVAL_DEGREE_LABELS = ['1', 'b2', '2', 'b3', '3', '4', 'b5', '5', 'b6', '6', 'b7', '7'];
+
+/**
+ * Gets the interval degree label of a note relative to a root
+ * The tritone is labelled #4 in scales with a perfect 5th but no perfect 4th (e.g. Lydian)
+ *
+ * @param root Root note
+ * @param note Note to label
+ * @param scaleIntervals Optional scale intervals (semitones) for context
+ * @returns Interval label (e.g. '1', 'b3', '5', 'b7')
+ *
+ * @example
+ * getIntervalLabel('A', 'C') => 'b3'
+ * getIntervalLabel('C', 'F#', [0, 2, 4, 6, 7, 9, 11]) => '#4'
+ */
+export function getIntervalLabel(root: string, note: string, scaleIntervals?: number[]): string {
+  const semitones = ((getIntervalSemitones(root, note) % 12) + 12) % 12;
+
+  if (semitones === 6 && scaleIntervals && scaleIntervals.includes(7) && !scaleIntervals.includes(5)) {
+    return '#4';
+  }
+
+  return INTERVAL_DEGREE_LABELS[semitones];
+}
+
+/**
+ * Gets the scale degree number of a note (position in the scale, starting at 1)
+ *
+ * @param root Root note of the scale
+ * @param note Note to look up
+ * @param scaleIntervals Scale intervals in semitones from the root
+ * @returns Scale degree (1-based) or null if the note is not in the scale
+ *
+ * @example
+ * getScaleDegreeNumber('C', 'G', [0, 2, 4, 5, 7, 9, 11]) => 5
+ * getScaleDegreeNumber('A', 'E', [0, 3, 5, 7, 10]) => 4
+ */
+export function getScaleDegreeNumber(root: string, note: string, scaleIntervals: number[]): number | null {
+  const semitones = ((getIntervalSemitones(root, note) % 12) + 12) % 12;
+  const index = scaleIntervals.indexOf(semitones);
+  return index === -1 ? null : index + 1;
+}
+
+/**
+ * Function of a chord tone (what it does in the chord)
+ */
+export type ChordToneFunction = 'R' | '3' | '5' | '7' | 'extension';
+
+/**
+ * Gets the chord tones with their function in the chord
+ * Altered tones keep their function (b3 is a 3rd, b5/#5 are 5ths, b7 is a 7th);
+ * 2nds, 4ths and 6ths (sus, add and extended chords) count as extensions.
+ *
+ * @param root Root note
+ * @param quality Chord quality
+ * @returns Chord tones with function and interval label
+ *
+ * @example
+ * getChordToneFunctions('D', 'm7')
+ * // => [{ note: 'D', function: 'R', label: '1' }, { note: 'F', function: '3', label: 'b3' },
+ * //     { note: 'A', function: '5', label: '5' }, { note: 'C', function: '7', label: 'b7' }]
+ */
+export function getChordToneFunctions(
+  root: string,
+  quality: string = ''
+): Array<{ note: string; function: ChordToneFunction; label: string }> {
+  const functionsByNumber: Record<number, ChordToneFunction> = { 1: 'R', 3: '3', 5: '5', 7: '7' };
+
+  return getChordNotes(root, quality).map(note => {
+    const interval = Interval.get(Note.distance(root, note));
+    const chordFunction = functionsByNumber[interval.num] ?? 'extension';
+    const semitones = ((interval.semitones ?? 0) % 12 + 12) % 12;
+
+    // Diminished 7th (e.g. Bbb in Cdim7) sounds like a 6th but is labelled as a 7th
+    const label = chordFunction === '7' && semitones === 9
+      ? 'bb7'
+      : chordFunction === '5' && semitones === 8
+        ? '#5'
+        : INTERVAL_DEGREE_LABELS[semitones];
+
+    return { note, function: chordFunction, label };
+  });
+}
+
 /**
  * Normalizes note name (converts flats to sharps for consistency)
  *
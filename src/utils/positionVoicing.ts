@@ -0,0 +1,207 @@
+/**
+ * Position-Locked Progression Voicing
+ *
+ * Voices every chord of a progression inside one neck region (e.g. frets 5-8),
+ * the classic CAGED exercise:
+ * - Candidates from getValidatedCAGEDVoicings with the window as minFret/maxFret
+ * - A voicing fits if every played string (open strings count as fret 0) lies in the window
+ * - Among fitting voicings, the one closest to the previous chord is chosen (measureVoiceLeading)
+ * - CAGED shapes are also tried an octave higher (e.g. the open C shape at frets 12-15)
+ * - If nothing fits, the nearest CAGED shape is used and flagged
+ */
+
+import { getValidatedCAGEDVoicings, EnhancedChordVoicing } from './cagedSystemEnhanced';
+import { toAbsoluteFrets } from './chordDatabase';
+import { transposeShape, toCAGEDQuality } from './cagedShapes';
+import { CAGEDShapeName, CAGED_ORDER } from './cagedPositions';
+import { getChordNotes, STANDARD_TUNING } from './musicTheory';
+import { measureVoiceLeading } from './voiceLeading';
+
+/**
+ * A region of the neck, both frets included (0 = open strings)
+ */
+export interface NeckWindow {
+  minFret: number;
+  maxFret: number;
+}
+
+/**
+ * A chord voiced in (or as close as possible to) a neck window
+ */
+export interface PositionVoicedChord {
+  note: string;
+  quality: string;
+  frets: number[] | null;            // Absolute frets, null if the chord has no voicing at all
+  cagedShape: CAGEDShapeName | null; // Shape the chord is played with
+  inWindow: boolean;                 // false: nearest shape outside the window (fallback)
+}
+
+/**
+ * Neck regions offered for position playing
+ */
+export const NECK_WINDOWS: NeckWindow[] = [
+  { minFret: 0, maxFret: 3 },
+  { minFret: 2, maxFret: 5 },
+  { minFret: 5, maxFret: 8 },
+  { minFret: 7, maxFret: 10 },
+  { minFret: 9, maxFret: 12 },
+  { minFret: 12, maxFret: 15 }
+];
+
+// Highest fret a fallback shape may reach
+const LAST_FRET = 22;
+
+/**
+ * Checks whether all played strings of a voicing lie inside a neck window
+ *
+ * @param frets Absolute frets (-1 = muted, 0 = open)
+ * @param window Neck window
+ * @returns true if the voicing can be played without leaving the window
+ *
+ * @example
+ * fitsNeckWindow([-1, 3, 5, 5, 5, 3], { minFret: 2, maxFret: 5 }) => true
+ * fitsNeckWindow([-1, 3, 2, 0, 1, 0], { minFret: 2, maxFret: 5 }) => false (open strings)
+ */
+export function fitsNeckWindow(frets: number[], window: NeckWindow): boolean {
+  const played = frets.filter(fret => fret >= 0);
+  return played.length > 0 && played.every(fret => fret >= window.minFret && fret <= window.maxFret);
+}
+
+/**
+ * Voices a single chord inside a neck window
+ *
+ * @param note Root note
+ * @param quality Chord quality (app convention)
+ * @param window Neck window
+ * @param options Tuning and the previous chord's frets (for the smoothest choice)
+ * @returns The chord voiced in the window, or the nearest CAGED shape flagged with inWindow: false
+ *
+ * @example
+ * voiceChordInPosition('G', '', { minFret: 5, maxFret: 8 })
+ * // => { frets: [-1, -1, 5, 7, 8, 7], cagedShape: 'D', inWindow: true, ... }
+ */
+export function voiceChordInPosition(
+  note: string,
+  quality: string,
+  window: NeckWindow,
+  options: { tuning?: string[]; previousFrets?: number[] | null } = {}
+): PositionVoicedChord {
+  const { tuning = STANDARD_TUNING, previousFrets = null } = options;
+
+  const octaveShapes = getOctaveShapes(note, quality, tuning);
+
+  const candidates = [
+    ...getValidatedCAGEDVoicings(note, quality, {
+      tuning,
+      minFret: window.minFret,
+      maxFret: window.maxFret,
+      maxVoicings: 50
+    }).map(toShapeVoicing),
+    ...octaveShapes
+  ].filter(candidate => fitsNeckWindow(candidate.frets, window));
+
+  if (candidates.length > 0) {
+    const best = pickClosest(candidates, previousFrets, tuning);
+    return { note, quality, frets: best.frets, cagedShape: best.cagedShape, inWindow: true };
+  }
+
+  // Nothing fits: the nearest CAGED shape (or any voicing for qualities without templates)
+  const fallbacks = [
+    ...getValidatedCAGEDVoicings(note, quality, { tuning, maxVoicings: 50 }).map(toShapeVoicing),
+    ...octaveShapes
+  ];
+  if (fallbacks.length === 0) {
+    console.warn(`⚠️ No voicing found for ${note}${quality}`);
+    return { note, quality, frets: null, cagedShape: null, inWindow: false };
+  }
+
+  const nearestDistance = Math.min(...fallbacks.map(f => getWindowDistance(f.frets, window)));
+  const nearest = pickClosest(
+    fallbacks.filter(f => getWindowDistance(f.frets, window) === nearestDistance),
+    previousFrets,
+    tuning
+  );
+
+  return { note, quality, frets: nearest.frets, cagedShape: nearest.cagedShape, inWindow: false };
+}
+
+/**
+ * Voices every chord of a progression inside a neck window
+ *
+ * @param chords Chords of the progression (root note and quality)
+ * @param window Neck window (e.g. { minFret: 5, maxFret: 8 })
+ * @param options Tuning
+ * @returns One voiced chord per input chord, each flagged with its CAGED shape
+ *
+ * @example
+ * voiceProgressionInPosition([{ note: 'C', quality: '' }, { note: 'F', quality: '' }], { minFret: 5, maxFret: 8 })
+ * // => [{ frets: [8, 7, 5, 5, 5, 8], cagedShape: 'G' }, { frets: [-1, 8, 7, 5, 6, 5], cagedShape: 'C' }]
+ */
+export function voiceProgressionInPosition(
+  chords: Array<{ note: string; quality: string }>,
+  window: NeckWindow,
+  options: { tuning?: string[] } = {}
+): PositionVoicedChord[] {
+  const voiced: PositionVoicedChord[] = [];
+
+  chords.forEach(chord => {
+    const previousFrets = voiced.length > 0 ? voiced[voiced.length - 1].frets : null;
+    voiced.push(voiceChordInPosition(chord.note, chord.quality, window, { ...options, previousFrets }));
+  });
+
+  return voiced;
+}
+
+/**
+ * Absolute frets and CAGED shape of a validated voicing
+ */
+function toShapeVoicing(voicing: EnhancedChordVoicing): { frets: number[]; cagedShape: CAGEDShapeName } {
+  return {
+    frets: toAbsoluteFrets({ frets: voicing.frets, baseFret: voicing.baseFret, fingers: [], barres: [], midi: [] }),
+    cagedShape: voicing.cagedShape
+  };
+}
+
+/**
+ * The five CAGED shapes an octave up (getValidatedCAGEDVoicings only has the lowest octave)
+ */
+function getOctaveShapes(
+  note: string,
+  quality: string,
+  tuning: string[]
+): Array<{ frets: number[]; cagedShape: CAGEDShapeName }> {
+  const cagedQuality = toCAGEDQuality(quality);
+  if (!cagedQuality || getChordNotes(note, quality).length === 0) return [];
+
+  return CAGED_ORDER.flatMap(shape => {
+    const octaveUp = transposeShape(note, shape, cagedQuality, { tuning }).map(fret => (fret === -1 ? -1 : fret + 12));
+    return Math.max(...octaveUp) <= LAST_FRET ? [{ frets: octaveUp, cagedShape: shape }] : [];
+  });
+}
+
+/**
+ * Frets a voicing lies outside a window (0 = fits)
+ */
+function getWindowDistance(frets: number[], window: NeckWindow): number {
+  return frets
+    .filter(fret => fret >= 0)
+    .reduce((sum, fret) => sum + Math.max(0, window.minFret - fret, fret - window.maxFret), 0);
+}
+
+/**
+ * Picks the candidate with the least movement from the previous chord (the first without one)
+ */
+function pickClosest<T extends { frets: number[] }>(
+  candidates: T[],
+  previousFrets: number[] | null,
+  tuning: string[]
+): T {
+  if (!previousFrets) return candidates[0];
+
+  const cost = (frets: number[]) => {
+    const { movement, commonTones } = measureVoiceLeading(previousFrets, frets, tuning);
+    return movement - commonTones;
+  };
+
+  return candidates.reduce((best, candidate) => (cost(candidate.frets) < cost(best.frets) ? candidate : best));
+}
@@ -0,0 +1,362 @@
+/**
+ * Progression Export (MusicXML and Guitar Pro)
+ *
+ * Exports the chord progression of the player for MuseScore, Guitar Pro and other notation programs:
+ * - Same bars as the player: generateValidatedAlphaTeX is read into an alphaTab score
+ * - Chord symbols and chord diagrams (the voicing of each chord) on the first beat of every bar
+ * - Guitar Pro 7 (.gp) written by alphaTab's Gp7Exporter
+ * - MusicXML with a standard notation staff and a TAB staff (string/fret technicals,
+ *   tuning, capo, strum directions, accents and right-hand fingers)
+ *
+ * alphaTab is imported on demand, like in the player, so it stays out of the main bundle.
+ */
+
+import { generateValidatedAlphaTeX, getProgressionFrets } from './alphaTabChordGenerator';
+import { voicingToChordPosition } from './voicingGenerator';
+import { parseSlashQuality } from './musicTheory';
+import { StrumPattern, TimeSignature } from './strumming';
+import { PickingPattern } from './fingerpicking';
+import { NeckWindow } from './positionVoicing';
+
+type AlphaTabModule = typeof import('@coderline/alphatab');
+type Score = import('@coderline/alphatab').model.Score;
+type Beat = import('@coderline/alphatab').model.Beat;
+type Note = import('@coderline/alphatab').model.Note;
+
+/**
+ * Options of generateValidatedAlphaTeX, plus the title of the exported score
+ */
+export interface ProgressionExportOptions {
+  title?: string;
+  capo?: number;
+  voiceLeading?: boolean;
+  neckWindow?: NeckWindow | null;
+  tuning?: string[];
+  strumPattern?: StrumPattern | null;
+  pickingPattern?: PickingPattern | null;
+  tempo?: number;
+  timeSignature?: TimeSignature;
+}
+
+// MusicXML <kind> of the app's chord qualities (other qualities are exported as 'other')
+const HARMONY_KINDS: Record<string, { kind: string; degrees?: Array<{ value: number; alter: number; type: string }> }> = {
+  '': { kind: 'major' },
+  major: { kind: 'major' },
+  m: { kind: 'minor' },
+  minor: { kind: 'minor' },
+  '7': { kind: 'dominant' },
+  maj7: { kind: 'major-seventh' },
+  m7: { kind: 'minor-seventh' },
+  mmaj7: { kind: 'major-minor' },
+  dim: { kind: 'diminished' },
+  dim7: { kind: 'diminished-seventh' },
+  m7b5: { kind: 'half-diminished' },
+  aug: { kind: 'augmented' },
+  '6': { kind: 'major-sixth' },
+  m6: { kind: 'minor-sixth' },
+  '9': { kind: 'dominant-ninth' },
+  maj9: { kind: 'major-ninth' },
+  m9: { kind: 'minor-ninth' },
+  sus2: { kind: 'suspended-second' },
+  sus4: { kind: 'suspended-fourth' },
+  '7sus4': { kind: 'suspended-fourth', degrees: [{ value: 7, alter: -1, type: 'add' }] },
+  add9: { kind: 'major', degrees: [{ value: 9, alter: 0, type: 'add' }] }
+};
+
+// MusicXML note types of alphaTab durations
+const NOTE_TYPES: Record<number, string> = {
+  1: 'whole',
+  2: 'half',
+  4: 'quarter',
+  8: 'eighth',
+  16: '16th',
+  32: '32nd',
+  64: '64th'
+};
+
+// alphaTab right-hand fingers (0 = thumb) as MusicXML <pluck> letters
+const PLUCK_LETTERS = ['p', 'i', 'm', 'a', 'c'];
+
+const PITCH_STEPS = ['C', 'C', 'D', 'D', 'E', 'F', 'F', 'G', 'G', 'A', 'A', 'B'];
+
+// alphaTab ticks per quarter note, used as MusicXML divisions
+const DIVISIONS = 960;
+
+/**
+ * Exports a chord progression as a Guitar Pro 7 file
+ *
+ * @param chords Array of chords with note and quality (sounding chords)
+ * @param options Voicing and rhythm options of generateValidatedAlphaTeX, and the title
+ * @returns The .gp file content
+ *
+ * @example
+ * const data = await exportProgressionToGuitarPro([{ note: 'C', quality: '' }, { note: 'G', quality: '' }]);
+ * new Blob([data], { type: 'application/octet-stream' })
+ */
+export async function exportProgressionToGuitarPro(
+  chords: Array<{ note: string; quality: string }>,
+  options: ProgressionExportOptions = {}
+): Promise<Uint8Array> {
+  const alphaTab = await import('@coderline/alphatab');
+  const score = createProgressionScore(alphaTab, chords, options);
+  return new alphaTab.exporter.Gp7Exporter().export(score, new alphaTab.Settings());
+}
+
+/**
+ * Exports a chord progression as MusicXML (partwise, one guitar part)
+ * The part has two staves: treble clef an octave down and TAB with string/fret technicals.
+ *
+ * @param chords Array of chords with note and quality (sounding chords)
+ * @param options Voicing and rhythm options of generateValidatedAlphaTeX, and the title
+ * @returns The MusicXML document
+ *
+ * @example
+ * const xml = await exportProgressionToMusicXml([{ note: 'C', quality: '' }], { title: 'Exercise 1' });
+ * // <harmony>...<kind text="">major</kind>...<frame>...</frame></harmony>
+ * // <note>...<technical><string>5</string><fret>3</fret></technical>...</note>
+ */
+export async function exportProgressionToMusicXml(
+  chords: Array<{ note: string; quality: string }>,
+  options: ProgressionExportOptions = {}
+): Promise<string> {
+  const alphaTab = await import('@coderline/alphatab');
+  return scoreToMusicXml(createProgressionScore(alphaTab, chords, options));
+}
+
+/**
+ * Reads the progression's AlphaTeX into an alphaTab score and adds a chord
+ * (symbol and diagram) to the first beat of every bar
+ */
+function createProgressionScore(
+  alphaTab: AlphaTabModule,
+  chords: Array<{ note: string; quality: string }>,
+  options: ProgressionExportOptions
+): Score {
+  const { title = 'Chord Progression', ...alphaTexOptions } = options;
+  const progressionFrets = getProgressionFrets(chords, alphaTexOptions);
+
+  const score = alphaTab.importer.ScoreLoader.loadAlphaTex(
+    generateValidatedAlphaTeX(chords, { ...alphaTexOptions, progressionFrets }),
+    new alphaTab.Settings()
+  );
+  score.title = title;
+
+  const staff = score.tracks[0].staves[0];
+
+  chords.forEach((chord, index) => {
+    const name = `${chord.note}${chord.quality}`;
+    const frets = progressionFrets[index];
+    const position = voicingToChordPosition(frets);
+
+    if (!staff.hasChord(name)) {
+      const diagram = new alphaTab.model.Chord();
+      diagram.name = name;
+      diagram.firstFret = position.baseFret;
+      diagram.strings = [...frets].reverse(); // alphaTab: highest string first
+      diagram.barreFrets = position.barres.map(barre => barre + position.baseFret - 1);
+      staff.addChord(name, diagram);
+    }
+
+    const firstBeat = staff.bars[index]?.voices[0].beats[0];
+    if (firstBeat) firstBeat.chordId = name;
+  });
+
+  return score;
+}
+
+/**
+ * Escapes text for XML content and attributes
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * MusicXML step/alter/octave of a MIDI note (sharps)
+ */
+function midiToPitch(midi: number): { step: string; alter: number; octave: number } {
+  const pitchClass = midi % 12;
+  return {
+    step: PITCH_STEPS[pitchClass],
+    alter: PITCH_STEPS[pitchClass] === PITCH_STEPS[pitchClass - 1] ? 1 : 0,
+    octave: Math.floor(midi / 12) - 1
+  };
+}
+
+/**
+ * MusicXML step and alter of a note name (e.g. 'F#' => F, 1)
+ */
+function noteNameToStep(name: string): { step: string; alter: number } {
+  const accidentals = name.slice(1);
+  return {
+    step: name[0],
+    alter: accidentals.split('').reduce((alter, sign) => alter + (sign === '#' ? 1 : sign === 'b' ? -1 : 0), 0)
+  };
+}
+
+/**
+ * <step>/<alter> elements with a prefix (root-, bass-, tuning-)
+ */
+function stepXml(prefix: string, { step, alter }: { step: string; alter: number }): string {
+  return `<${prefix}step>${step}</${prefix}step>${alter !== 0 ? `<${prefix}alter>${alter}</${prefix}alter>` : ''}`;
+}
+
+/**
+ * <harmony> element: chord symbol and diagram of a beat
+ */
+function harmonyXml(name: string, strings: number[], firstFret: number): string {
+  const match = name.match(/^([A-G][#b]?)(.*)$/);
+  if (!match) return '';
+
+  const [, root, quality] = match;
+  const { quality: baseQuality, bass } = parseSlashQuality(quality);
+  const harmonyKind = HARMONY_KINDS[baseQuality] ?? { kind: 'other' };
+
+  let xml = '<harmony print-frame="yes">';
+  xml += `<root>${stepXml('root-', noteNameToStep(root))}</root>`;
+  xml += `<kind text="${escapeXml(baseQuality)}">${harmonyKind.kind}</kind>`;
+  if (bass) {
+    xml += `<bass>${stepXml('bass-', noteNameToStep(bass))}</bass>`;
+  }
+  harmonyKind.degrees?.forEach(degree => {
+    xml += `<degree><degree-value>${degree.value}</degree-value><degree-alter>${degree.alter}</degree-alter>`;
+    xml += `<degree-type>${degree.type}</degree-type></degree>`;
+  });
+
+  // Diagram: strings highest first (alphaTab order), string 1 = highest in MusicXML
+  const played = strings.filter(fret => fret > 0);
+  const frameFrets = Math.max(4, played.length > 0 ? Math.max(...played) - firstFret + 1 : 0);
+  xml += `<frame><frame-strings>${strings.length}</frame-strings><frame-frets>${frameFrets}</frame-frets>`;
+  if (firstFret > 1) {
+    xml += `<first-fret>${firstFret}</first-fret>`;
+  }
+  strings.forEach((fret, index) => {
+    if (fret >= 0) {
+      xml += `<frame-note><string>${index + 1}</string><fret>${fret}</fret></frame-note>`;
+    }
+  });
+  xml += '</frame><staff>1</staff></harmony>';
+
+  return xml;
+}
+
+/**
+ * <note> elements of a beat on one staff (rest, or the notes of the chord)
+ */
+function beatXml(beat: Beat, staffNumber: number, stringCount: number): string {
+  const duration = `<duration>${beat.playbackDuration}</duration>`;
+  const type = `<type>${NOTE_TYPES[beat.duration] ?? 'quarter'}</type>${'<dot/>'.repeat(beat.dots)}`;
+  const staff = `<staff>${staffNumber}</staff>`;
+
+  if (beat.isRest || beat.notes.length === 0) {
+    return `<note><rest/>${duration}<voice>1</voice>${type}${staff}</note>`;
+  }
+
+  // Strum direction (brush) and rolled chords (arpeggio), on the first note of the beat
+  // alphaTab BrushType: 1 = up, 2 = down, 3/4 = arpeggio
+  const strum = beat.brushType === 1 ? '<up-bow/>' : beat.brushType === 2 ? '<down-bow/>' : '';
+  const arpeggio = beat.brushType === 3 || beat.brushType === 4 ? '<arpeggiate/>' : '';
+
+  return beat.notes
+    .map((note: Note, index: number) => {
+      const { step, alter, octave } = midiToPitch(note.realValue);
+      const pluck = note.rightHandFinger >= 0 ? `<pluck>${PLUCK_LETTERS[note.rightHandFinger]}</pluck>` : '';
+      const accent = note.accentuated > 0 ? '<articulations><accent/></articulations>' : '';
+
+      let xml = '<note>';
+      xml += index > 0 ? '<chord/>' : '';
+      xml += `<pitch>${stepXml('', { step, alter })}<octave>${octave}</octave></pitch>`;
+      xml += `${duration}<voice>1</voice>${type}`;
+      xml += note.isDead ? '<notehead>x</notehead>' : '';
+      xml += staff;
+      xml += '<notations>';
+      xml += index === 0 ? arpeggio : '';
+      xml += accent;
+      // alphaTab: string 1 = lowest, MusicXML: string 1 = highest
+      xml += `<technical>${index === 0 ? strum : ''}${pluck}<string>${stringCount - note.string + 1}</string><fret>${note.fret}</fret></technical>`;
+      xml += '</notations></note>';
+      return xml;
+    })
+    .join('');
+}
+
+/**
+ * Writes the first staff of an alphaTab score as a MusicXML guitar part
+ * with a notation staff (1) and a TAB staff (2)
+ */
+function scoreToMusicXml(score: Score): string {
+  const staff = score.tracks[0].staves[0];
+  const tunings = staff.stringTuning.tunings; // MIDI notes, highest string first
+  const stringCount = tunings.length;
+
+  const measures = staff.bars.map((bar, barIndex) => {
+    const masterBar = score.masterBars[barIndex];
+    const previous = score.masterBars[barIndex - 1];
+    const beats = bar.voices[0].beats;
+
+    let xml = `<measure number="${barIndex + 1}">`;
+
+    // Attributes: clefs, tuning and capo in the first bar, time signature when it changes
+    const timeChanged = !previous ||
+      previous.timeSignatureNumerator !== masterBar.timeSignatureNumerator ||
+      previous.timeSignatureDenominator !== masterBar.timeSignatureDenominator;
+    if (barIndex === 0 || timeChanged) {
+      xml += '<attributes>';
+      if (barIndex === 0) {
+        xml += `<divisions>${DIVISIONS}</divisions><key><fifths>0</fifths></key>`;
+      }
+      xml += `<time><beats>${masterBar.timeSignatureNumerator}</beats><beat-type>${masterBar.timeSignatureDenominator}</beat-type></time>`;
+      if (barIndex === 0) {
+        xml += '<staves>2</staves>';
+        xml += '<clef number="1"><sign>G</sign><line>2</line><clef-octave-change>-1</clef-octave-change></clef>';
+        xml += '<clef number="2"><sign>TAB</sign><line>5</line></clef>';
+        xml += `<staff-details number="2"><staff-lines>${stringCount}</staff-lines>`;
+        // staff-tuning line 1 = lowest string
+        [...tunings].reverse().forEach((midi, index) => {
+          const { step, alter, octave } = midiToPitch(midi);
+          xml += `<staff-tuning line="${index + 1}">${stepXml('tuning-', { step, alter })}<tuning-octave>${octave}</tuning-octave></staff-tuning>`;
+        });
+        xml += staff.capo > 0 ? `<capo>${staff.capo}</capo>` : '';
+        xml += '</staff-details>';
+      }
+      xml += '</attributes>';
+    }
+
+    if (barIndex === 0) {
+      xml += '<direction placement="above"><direction-type><metronome><beat-unit>quarter</beat-unit>';
+      xml += `<per-minute>${score.tempo}</per-minute></metronome></direction-type><staff>1</staff><sound tempo="${score.tempo}"/></direction>`;
+    }
+
+    // Notation staff with the chord symbols, then the same beats on the TAB staff
+    beats.forEach(beat => {
+      const chord = beat.chord;
+      if (chord) xml += harmonyXml(chord.name, chord.strings, chord.firstFret);
+      xml += beatXml(beat, 1, stringCount);
+    });
+    const barDuration = beats.reduce((sum, beat) => sum + beat.playbackDuration, 0);
+    xml += `<backup><duration>${barDuration}</duration></backup>`;
+    beats.forEach(beat => {
+      xml += beatXml(beat, 2, stringCount);
+    });
+
+    xml += '</measure>';
+    return xml;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    `<work><work-title>${escapeXml(score.title)}</work-title></work>`,
+    '<part-list><score-part id="P1"><part-name>Guitar</part-name></score-part></part-list>',
+    '<part id="P1">',
+    ...measures,
+    '</part>',
+    '</score-partwise>'
+  ].join('\n');
+}
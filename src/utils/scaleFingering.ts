@@ -0,0 +1,97 @@
+/**
+ * Scale Fingering Engine
+ *
+ * Assigns left-hand fingers (1-4) to scale notes inside a position window:
+ * - One finger per fret, index finger on the first fret of the position
+ * - Stretches: index one fret below or pinky one fret above the position
+ * - Position shifts: when a note cannot be reached from the current position
+ *
+ * The window (minFret/maxFret) works like filterVoicingsByPosition in
+ * chordDatabase.ts: only notes inside the window are fingered.
+ */
+
+/**
+ * A fretboard note to be fingered
+ */
+export interface ScaleNotePosition {
+  stringIndex: number; // 0 = Low E, 5 = High E
+  fret: number;
+}
+
+/**
+ * A fingered scale note
+ */
+export interface FingeredNote extends ScaleNotePosition {
+  finger: 0 | 1 | 2 | 3 | 4; // 0 = open string
+  position: number;          // Fret under the index finger when playing this note
+  isStretch: boolean;        // Index or pinky reaches outside the four-fret position
+  isShift: boolean;          // Hand moves to a new position for this note
+}
+
+/**
+ * Assigns fingers to scale notes within a position window
+ * Notes are played in ascending order (low string first, low fret first).
+ *
+ * @param notes Scale notes to finger (any order)
+ * @param minFret First fret of the window (default: 0)
+ * @param maxFret Last fret of the window (default: 12)
+ * @returns Fingered notes in playing order
+ *
+ * @example
+ * // A minor pentatonic, 5th position
+ * getScaleFingering([{ stringIndex: 0, fret: 5 }, { stringIndex: 0, fret: 8 }, ...], 5, 8)
+ * // => [{ stringIndex: 0, fret: 5, finger: 1, ... }, { stringIndex: 0, fret: 8, finger: 4, ... }, ...]
+ */
+export function getScaleFingering(
+  notes: ScaleNotePosition[],
+  minFret: number = 0,
+  maxFret: number = 12
+): FingeredNote[] {
+  // Only notes inside the window; open strings belong to positions starting at the nut
+  const inWindow = notes
+    .filter(n => (n.fret === 0 ? minFret <= 1 : n.fret >= minFret && n.fret <= maxFret))
+    .sort((a, b) => a.stringIndex - b.stringIndex || a.fret - b.fret);
+
+  let position = Math.max(1, minFret);
+
+  return inWindow.map((note): FingeredNote => {
+    if (note.fret === 0) {
+      return { ...note, finger: 0, position, isStretch: false, isShift: false };
+    }
+
+    const offset = note.fret - position;
+
+    // Within the four-fret position: one finger per fret
+    if (offset >= 0 && offset <= 3) {
+      return { ...note, finger: (offset + 1) as 1 | 2 | 3 | 4, position, isStretch: false, isShift: false };
+    }
+
+    // One fret outside: stretch with index (below) or pinky (above)
+    if (offset === -1) {
+      return { ...note, finger: 1, position, isStretch: true, isShift: false };
+    }
+    if (offset === 4) {
+      return { ...note, finger: 4, position, isStretch: true, isShift: false };
+    }
+
+    // Further away: shift the hand
+    if (offset > 4) {
+      // Shift up so the highest note still to come on this string lands on the pinky at most
+      const highestOnString = Math.max(
+        ...inWindow.filter(n => n.stringIndex === note.stringIndex && n.fret >= note.fret).map(n => n.fret)
+      );
+      position = Math.min(note.fret, Math.max(highestOnString - 3, note.fret - 3));
+    } else {
+      // Shift down: index finger on the new note
+      position = note.fret;
+    }
+
+    return {
+      ...note,
+      finger: (note.fret - position + 1) as 1 | 2 | 3 | 4,
+      position,
+      isStretch: false,
+      isShift: true
+    };
+  });
+}
@@ -0,0 +1,167 @@
+/**
+ * Extended Scale Utilities
+ *
+ * Provides minor-scale families and their modes via Tonal's Scale module:
+ * - Harmonic minor, melodic minor, Phrygian dominant, altered, Lydian dominant
+ * - Interval patterns (semitones from root) and scale notes
+ * - Diatonic triads and seventh chords (incl. aug, mMaj7, maj7#5)
+ */
+
+import { Scale, Interval, Note } from 'tonal';
+
+export type ExtendedScaleType =
+  | 'harmonicMinor'
+  | 'melodicMinor'
+  | 'phrygianDominant'
+  | 'altered'
+  | 'lydianDominant';
+
+/**
+ * Extended scale types with display labels and Tonal scale names
+ */
+export const EXTENDED_SCALES: Record<ExtendedScaleType, { label: string; tonalName: string }> = {
+  harmonicMinor: { label: 'Harmonic Minor', tonalName: 'harmonic minor' },
+  melodicMinor: { label: 'Melodic Minor', tonalName: 'melodic minor' },
+  phrygianDominant: { label: 'Phrygian Dominant', tonalName: 'phrygian dominant' },
+  altered: { label: 'Altered', tonalName: 'altered' },
+  lydianDominant: { label: 'Lydian Dominant', tonalName: 'lydian dominant' }
+};
+
+export const EXTENDED_SCALE_TYPES = Object.keys(EXTENDED_SCALES) as ExtendedScaleType[];
+
+/**
+ * Diatonic chord built on a scale degree
+ */
+export interface ScaleDiatonicChord {
+  note: string;
+  quality: string;        // Triad quality (app convention: '', 'm', 'dim', 'aug')
+  seventhQuality: string; // Seventh chord quality (e.g. 'maj7', 'mMaj7', 'm7b5')
+  roman: string;
+  degree: number;
+}
+
+// Triad quality by semitones of third and fifth
+const TRIAD_QUALITIES: Record<string, string> = {
+  '4,7': '',
+  '3,7': 'm',
+  '3,6': 'dim',
+  '4,8': 'aug'
+};
+
+// Seventh chord quality by triad quality and semitones of the seventh
+const SEVENTH_QUALITIES: Record<string, string> = {
+  ',11': 'maj7',
+  ',10': '7',
+  'm,10': 'm7',
+  'm,11': 'mMaj7',
+  'dim,10': 'm7b5',
+  'dim,9': 'dim7',
+  'aug,11': 'maj7#5',
+  'aug,10': '7#5'
+};
+
+const ROMAN_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+/**
+ * Checks whether a scale type is one of the Tonal-based extended scales
+ *
+ * @param scaleType Scale type from the app (e.g. 'pentatonic', 'harmonicMinor')
+ * @returns true for extended scale types
+ */
+export function isExtendedScaleType(scaleType: string): scaleType is ExtendedScaleType {
+  return scaleType in EXTENDED_SCALES;
+}
+
+/**
+ * Gets the interval pattern of an extended scale
+ *
+ * @param scaleType Extended scale type
+ * @returns Semitones from root for each scale degree
+ *
+ * @example
+ * getScaleIntervals('harmonicMinor') => [0, 2, 3, 5, 7, 8, 11]
+ */
+export function getScaleIntervals(scaleType: ExtendedScaleType): number[] {
+  const scale = Scale.get(EXTENDED_SCALES[scaleType].tonalName);
+  return scale.intervals.map(interval => Interval.semitones(interval) ?? 0);
+}
+
+/**
+ * Gets the notes of an extended scale on a root
+ * Double accidentals are simplified (e.g. F## => G)
+ *
+ * @param root Root note (e.g., 'A')
+ * @param scaleType Extended scale type
+ * @returns Scale notes starting on the root
+ *
+ * @example
+ * getScaleNotes('A', 'harmonicMinor') => ['A', 'B', 'C', 'D', 'E', 'F', 'G#']
+ */
+export function getScaleNotes(root: string, scaleType: ExtendedScaleType): string[] {
+  const scale = Scale.get(`${root} ${EXTENDED_SCALES[scaleType].tonalName}`);
+  return scale.notes.map(note => Note.simplify(note));
+}
+
+/**
+ * Builds the diatonic chords of an extended scale by stacking thirds
+ *
+ * @param root Root note of the scale
+ * @param scaleType Extended scale type
+ * @returns Seven diatonic chords with triad and seventh qualities
+ *
+ * @example
+ * getScaleDiatonicChords('A', 'harmonicMinor').map(c => c.seventhQuality)
+ * // => ['mMaj7', 'm7b5', 'maj7#5', 'm7', '7', 'maj7', 'dim7']
+ */
+export function getScaleDiatonicChords(root: string, scaleType: ExtendedScaleType): ScaleDiatonicChord[] {
+  const intervals = getScaleIntervals(scaleType);
+  const notes = getScaleNotes(root, scaleType);
+
+  return intervals.map((interval, index) => {
+    const stackedInterval = (step: number) =>
+      (intervals[(index + step) % 7] - interval + 12) % 12;
+
+    const quality = TRIAD_QUALITIES[`${stackedInterval(2)},${stackedInterval(4)}`] ?? '';
+    const seventhQuality = SEVENTH_QUALITIES[`${quality},${stackedInterval(6)}`] ?? '7';
+
+    const numeral = ROMAN_NUMERALS[index];
+    const roman = quality === 'm' || quality === 'dim'
+      ? numeral.toLowerCase() + (quality === 'dim' ? '°' : '')
+      : numeral + (quality === 'aug' ? '+' : '');
+
+    return {
+      note: notes[index],
+      quality,
+      seventhQuality,
+      roman,
+      degree: index + 1
+    };
+  });
+}
+
+/**
+ * Gets the roman numeral of a diatonic seventh chord
+ *
+ * @param roman Roman numeral of the triad (e.g. 'ii°', 'III+')
+ * @param seventhQuality Seventh chord quality
+ * @returns Roman numeral with seventh suffix
+ *
+ * @example
+ * getSeventhRomanNumeral('ii°', 'm7b5') => 'iiø7'
+ * getSeventhRomanNumeral('i', 'mMaj7') => 'i(maj7)'
+ */
+export function getSeventhRomanNumeral(roman: string, seventhQuality: string): string {
+  switch (seventhQuality) {
+    case 'm7b5':
+      return roman.replace('°', 'ø7');
+    case 'dim7':
+      return `${roman}7`;
+    case 'mMaj7':
+      return `${roman}(maj7)`;
+    case 'maj7':
+    case 'maj7#5':
+      return `${roman}maj7`;
+    default:
+      return `${roman}7`;
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * String Set Voicings
+ *
+ * Stacks chord tones on a set of strings, one voice per string, as used by the
+ * triad explorer and the jazz (drop and shell) voicings:
+ * - Voices keep their order low to high (no crossing)
+ * - Each voice is the next higher pitch of its chord tone, so adjacent voices are less than an octave apart
+ * - Every position up the neck within the fret range and the hand's fret span
+ * - Any tuning (open string pitches from getOpenStringMidi)
+ */
+
+import { Note } from 'tonal';
+import { STANDARD_TUNING } from './musicTheory';
+import { getOpenStringMidi } from './tunings';
+
+/**
+ * Options for stacking voices on a string set
+ */
+export interface StringSetOptions {
+  tuning?: string[];     // Open string notes, low to high (default: standard)
+  minFret?: number;      // Lowest fret (default: 0)
+  maxFret?: number;      // Highest fret (default: 15)
+  maxFretSpan?: number;  // Frets the hand may cover (default: 5)
+}
+
+/**
+ * Finds every position of a voice order on a string set
+ *
+ * @param strings Guitar string numbers (1 = high E), low to high, one per voice
+ * @param voices Chord tones of the voices, low to high
+ * @param options Tuning, fret range and fret span
+ * @returns Absolute frets [Low E ... High E] (-1 = not played) of each position, lowest position first
+ *
+ * @example
+ * // C major, 3rd in the bass, on strings 1-3
+ * stackVoicesOnStrings([3, 2, 1], ['E', 'G', 'C'])
+ * // => [[-1, -1, -1, 9, 8, 8]]
+ */
+export function stackVoicesOnStrings(
+  strings: number[],
+  voices: string[],
+  options: StringSetOptions = {}
+): number[][] {
+  const { tuning = STANDARD_TUNING, minFret = 0, maxFret = 15, maxFretSpan = 5 } = options;
+
+  const stringIndices = strings.map(string => 6 - string);
+  const openMidi = getOpenStringMidi(tuning);
+  const voiceOpenMidi = stringIndices.map(i => openMidi[i]);
+  const chromas = voices.map(note => Note.chroma(note) ?? 0);
+  const positions: number[][] = [];
+
+  for (let bassFret = minFret; bassFret <= maxFret; bassFret++) {
+    if ((voiceOpenMidi[0] + bassFret) % 12 !== chromas[0]) continue;
+
+    let pitch = voiceOpenMidi[0] + bassFret;
+    const voiceFrets = [bassFret];
+
+    for (let voice = 1; voice < chromas.length; voice++) {
+      const stepUp = (chromas[voice] - (pitch % 12) + 12) % 12 || 12;
+      pitch += stepUp;
+      voiceFrets.push(pitch - voiceOpenMidi[voice]);
+    }
+
+    const fretted = voiceFrets.filter(fret => fret > 0);
+    const inRange = voiceFrets.every(fret => fret >= minFret && fret <= maxFret);
+    const span = fretted.length > 0 ? Math.max(...fretted) - Math.min(...fretted) : 0;
+    if (!inRange || span >= maxFretSpan) continue;
+
+    const frets = [-1, -1, -1, -1, -1, -1];
+    stringIndices.forEach((stringIndex, voice) => {
+      frets[stringIndex] = voiceFrets[voice];
+    });
+    positions.push(frets);
+  }
+
+  return positions;
+}
@@ -0,0 +1,228 @@
+/**
+ * Strumming Patterns
+ *
+ * Rhythm model for playing chord progressions in AlphaTab:
+ * - Patterns on an eighth or sixteenth grid, written as text (e.g. "D-DU-UDU")
+ * - Down/up strokes rendered as brush strokes ({bd}/{bu}), rolled chords as arpeggios ({ad})
+ * - Rests, held strokes, accents ({ac} on every note) and muted chucks (dead notes)
+ * - One bar per chord, in any time signature (patterns repeat or are cut to fill the bar)
+ */
+
+import { PickingPattern } from './fingerpicking';
+
+export type StrumStroke = 'down' | 'up' | 'arpeggio' | 'mute' | 'rest' | 'hold';
+
+/**
+ * One step of a strumming pattern (one eighth or sixteenth)
+ */
+export interface StrumStep {
+  stroke: StrumStroke;
+  accent: boolean;
+}
+
+export interface StrumPattern {
+  id: string;
+  name: string;
+  subdivision: 8 | 16; // Grid: 8 = eighths, 16 = sixteenths
+  steps: StrumStep[];
+}
+
+export interface TimeSignature {
+  numerator: number;
+  denominator: number;
+}
+
+/**
+ * Rhythm of a progression (matches the generateValidatedAlphaTeX options)
+ */
+export interface RhythmSettings {
+  strumPattern: StrumPattern | null;   // null = one block chord per bar
+  pickingPattern: PickingPattern | null; // Picked instead of strummed (see fingerpicking.ts)
+  tempo: number;                       // Beats per minute
+  timeSignature: TimeSignature;
+}
+
+/**
+ * Pattern symbols:
+ * D = down, U = up, A = rolled chord (arpeggio), X = muted chuck,
+ * R = rest, - = hold the previous stroke, > = accent the next stroke
+ */
+const STROKE_SYMBOLS: Record<string, StrumStroke> = {
+  D: 'down',
+  U: 'up',
+  A: 'arpeggio',
+  X: 'mute',
+  R: 'rest',
+  '-': 'hold'
+};
+
+/**
+ * Parses a strumming pattern from its text form
+ *
+ * @param text Pattern symbols (see STROKE_SYMBOLS), spaces are ignored
+ * @returns The pattern steps
+ * @throws Error for unknown symbols
+ *
+ * @example
+ * parseStrumPattern('>D-DU')
+ * // => [{ stroke: 'down', accent: true }, { stroke: 'hold', accent: false },
+ * //     { stroke: 'down', accent: false }, { stroke: 'up', accent: false }]
+ */
+export function parseStrumPattern(text: string): StrumStep[] {
+  const steps: StrumStep[] = [];
+  let accent = false;
+
+  for (const symbol of text.toUpperCase().replace(/\s/g, '')) {
+    if (symbol === '>') {
+      accent = true;
+      continue;
+    }
+    const stroke = STROKE_SYMBOLS[symbol];
+    if (!stroke) {
+      throw new Error(`Unknown strumming symbol: ${symbol}`);
+    }
+    steps.push({ stroke, accent: accent && stroke !== 'rest' && stroke !== 'hold' });
+    accent = false;
+  }
+
+  return steps;
+}
+
+/**
+ * Preset strumming patterns (one 4/4 bar each)
+ */
+export const STRUM_PATTERNS: StrumPattern[] = [
+  { id: 'folk', name: 'Folk D-DU-UDU', subdivision: 8, steps: parseStrumPattern('>D-DU-UDU') },
+  { id: 'reggae', name: 'Reggae offbeat', subdivision: 8, steps: parseStrumPattern('RUR>URUR>U') },
+  { id: 'ballad', name: 'Ballad arpeggio', subdivision: 8, steps: parseStrumPattern('>A---A-U-') },
+  { id: 'funk', name: 'Funk sixteenths', subdivision: 16, steps: parseStrumPattern('>DXDU XUDU >DXDU XUDU') }
+];
+
+export const TIME_SIGNATURES: TimeSignature[] = [
+  { numerator: 4, denominator: 4 },
+  { numerator: 3, denominator: 4 },
+  { numerator: 6, denominator: 8 }
+];
+
+export const DEFAULT_RHYTHM: RhythmSettings = {
+  strumPattern: null,
+  pickingPattern: null,
+  tempo: 80,
+  timeSignature: { numerator: 4, denominator: 4 }
+};
+
+/**
+ * Finds a preset pattern by id
+ *
+ * @param id Pattern id (e.g. 'folk')
+ * @returns The pattern, or null if there is none with this id
+ */
+export function getStrumPattern(id: string): StrumPattern | null {
+  return STRUM_PATTERNS.find(pattern => pattern.id === id) ?? null;
+}
+
+/**
+ * Renders one bar of a chord as AlphaTeX beats
+ * Without a pattern the chord is one block chord filling the bar.
+ *
+ * @param frets Absolute frets (low E to high E, -1 = muted)
+ * @param pattern Strumming pattern, or null for a block chord
+ * @param timeSignature Time signature of the bar (default: 4/4)
+ * @returns AlphaTeX beats of the bar
+ *
+ * @example
+ * strumChordToAlphaTeX([-1, 3, 2, 0, 1, 0], null)
+ * // => '(3.5 2.4 0.3 1.2 0.1).1'
+ * strumChordToAlphaTeX([-1, 3, 2, 0, 1, 0], getStrumPattern('folk'))
+ * // => '(3.5{ac} 2.4{ac} 0.3{ac} 1.2{ac} 0.1{ac}).4{bd} (3.5 2.4 0.3 1.2 0.1).8{bd} ...'
+ */
+export function strumChordToAlphaTeX(
+  frets: number[],
+  pattern: StrumPattern | null,
+  timeSignature: TimeSignature = DEFAULT_RHYTHM.timeSignature
+): string {
+  const subdivision = pattern?.subdivision ?? 16;
+  const stepsPerBar = (timeSignature.numerator * subdivision) / timeSignature.denominator;
+
+  // Block chord: one stroke held for the whole bar
+  const barSteps = pattern
+    ? Array.from({ length: stepsPerBar }, (_, i) => pattern.steps[i % pattern.steps.length])
+    : [{ stroke: 'block' as const, accent: false }, ...Array(stepsPerBar - 1).fill({ stroke: 'hold', accent: false })];
+
+  // Merge held steps into the stroke (or rest) before them
+  const events: Array<{ stroke: StrumStroke | 'block'; accent: boolean; length: number }> = [];
+  barSteps.forEach(step => {
+    const last = events[events.length - 1];
+    if (step.stroke === 'hold' && last) {
+      last.length++;
+    } else {
+      events.push({ stroke: step.stroke === 'hold' ? 'rest' : step.stroke, accent: step.accent, length: 1 });
+    }
+  });
+
+  return events
+    .flatMap(event => splitIntoDurations(event.length, subdivision).map((duration, i) =>
+      // Lengths without a single (dotted) note value ring as long as possible, then rest
+      i === 0 && event.stroke !== 'rest'
+        ? formatChordBeat(frets, event.stroke, event.accent, duration)
+        : `r.${duration.value}${duration.dotted ? '{d}' : ''}`
+    ))
+    .join(' ');
+}
+
+/**
+ * Splits a length in grid steps into note values, longest first (dotted where possible)
+ *
+ * @param steps Length in grid steps
+ * @param subdivision Grid (8 = eighths, 16 = sixteenths)
+ * @returns AlphaTeX note values that add up to the length
+ *
+ * @example
+ * splitIntoDurations(3, 8) => [{ value: 4, dotted: true }]
+ * splitIntoDurations(5, 8) => [{ value: 2, dotted: false }, { value: 8, dotted: false }]
+ */
+export function splitIntoDurations(steps: number, subdivision: number): Array<{ value: number; dotted: boolean }> {
+  const durations: Array<{ value: number; dotted: boolean }> = [];
+  let remaining = steps;
+
+  while (remaining > 0) {
+    const candidates = [1, 2, 4, 8, 16]
+      .filter(value => value <= subdivision)
+      .flatMap(value => [
+        { value, dotted: true, length: (subdivision / value) * 1.5 },
+        { value, dotted: false, length: subdivision / value }
+      ])
+      .filter(candidate => Number.isInteger(candidate.length) && candidate.length <= remaining);
+    const longest = candidates[0];
+    durations.push({ value: longest.value, dotted: longest.dotted });
+    remaining -= longest.length;
+  }
+
+  return durations;
+}
+
+/**
+ * AlphaTeX beat of a strummed chord (brush direction, accents, dead notes for mutes)
+ */
+function formatChordBeat(
+  frets: number[],
+  stroke: StrumStroke | 'block',
+  accent: boolean,
+  duration: { value: number; dotted: boolean }
+): string {
+  // String numbering in AlphaTeX: 1 = high E, 6 = low E
+  const notes = frets.flatMap((fret, stringIndex) => {
+    if (fret < 0) return [];
+    const note = `${stroke === 'mute' ? 'x' : fret}.${6 - stringIndex}`;
+    return [accent ? `${note}{ac}` : note];
+  });
+
+  const effects = [
+    ...(duration.dotted ? ['d'] : []),
+    ...(stroke === 'down' || stroke === 'mute' ? ['bd'] : []),
+    ...(stroke === 'up' ? ['bu'] : []),
+    ...(stroke === 'arpeggio' ? ['ad'] : [])
+  ];
+
+  return `(${notes.join(' ')}).${duration.value}${effects.length > 0 ? `{${effects.join(' ')}}` : ''}`;
+}
@@ -0,0 +1,107 @@
+/**
+ * Three-Notes-Per-String (3NPS) Pattern Generator
+ *
+ * Turns any seven-note scale into the seven 3NPS fingering patterns:
+ * - Pattern N starts on scale degree N on the lowest string
+ * - Every string gets exactly three consecutive scale notes
+ * - The shift at the G-B string pair (major third instead of fourth)
+ *   follows from the actual open string pitches, so any tuning works
+ */
+
+import { Note } from 'tonal';
+import { STANDARD_TUNING } from './musicTheory';
+
+/**
+ * A single note of a 3NPS pattern
+ */
+export interface ThreeNPSNote {
+  stringIndex: number; // 0 = Low E, 5 = High E
+  fret: number;
+  degree: number;      // Scale degree (1-7)
+}
+
+/**
+ * Generates one 3NPS pattern for a seven-note scale
+ *
+ * @param root Root note of the scale (e.g., 'G')
+ * @param intervals Seven scale intervals in semitones from the root
+ * @param patternNumber Pattern number (1-7), equal to the starting scale degree
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns 18 notes (3 per string), lowest string first
+ *
+ * @example
+ * generate3NPSPattern('G', [0, 2, 4, 5, 7, 9, 11], 1)
+ * // => Low E: 3, 5, 7 | A: 3, 5, 7 | D: 4, 5, 7 | G: 4, 5, 7 | B: 5, 7, 8 | High E: 5, 7, 8
+ */
+export function generate3NPSPattern(
+  root: string,
+  intervals: number[],
+  patternNumber: number,
+  tuning: string[] = STANDARD_TUNING
+): ThreeNPSNote[] {
+  if (intervals.length !== 7) {
+    throw new Error(`3NPS patterns need a seven-note scale, got ${intervals.length} notes`);
+  }
+  if (patternNumber < 1 || patternNumber > 7) {
+    throw new Error(`Pattern number must be between 1 and 7, got ${patternNumber}`);
+  }
+
+  // Open string pitches as ascending semitone values (low string = 0 reference)
+  const openPitches: number[] = [];
+  tuning.forEach((note, i) => {
+    const chroma = Note.chroma(note) ?? 0;
+    if (i === 0) {
+      openPitches.push(chroma);
+    } else {
+      // Each string is tuned above the previous one (1-11 semitones)
+      const previous = openPitches[i - 1];
+      const step = (chroma - previous % 12 + 12) % 12 || 12;
+      openPitches.push(previous + step);
+    }
+  });
+
+  // Starting note: the scale degree on the lowest string, first fret at or above the nut
+  const rootChroma = Note.chroma(root) ?? 0;
+  const startDegree = patternNumber - 1;
+  const startFret = (rootChroma + intervals[startDegree] - openPitches[0] + 120) % 12;
+  const startPitch = openPitches[0] + startFret;
+
+  // Ascending scale pitches from the starting degree (3 per string)
+  const pitches: Array<{ pitch: number; degree: number }> = [];
+  for (let step = 0; step < tuning.length * 3; step++) {
+    const degreeIndex = (startDegree + step) % 7;
+    const octave = Math.floor((startDegree + step) / 7);
+    pitches.push({
+      pitch: startPitch - intervals[startDegree] + intervals[degreeIndex] + octave * 12,
+      degree: degreeIndex + 1
+    });
+  }
+
+  const pattern = pitches.map(({ pitch, degree }, i) => {
+    const stringIndex = Math.floor(i / 3);
+    return { stringIndex, fret: pitch - openPitches[stringIndex], degree };
+  });
+
+  // Unusual tunings can push a note below the nut: move the pattern up an octave
+  if (pattern.some(n => n.fret < 0)) {
+    return pattern.map(n => ({ ...n, fret: n.fret + 12 }));
+  }
+
+  return pattern;
+}
+
+/**
+ * Generates all seven 3NPS patterns for a seven-note scale
+ *
+ * @param root Root note of the scale
+ * @param intervals Seven scale intervals in semitones from the root
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Seven patterns (index 0 = pattern 1)
+ */
+export function generateAll3NPSPatterns(
+  root: string,
+  intervals: number[],
+  tuning: string[] = STANDARD_TUNING
+): ThreeNPSNote[][] {
+  return Array.from({ length: 7 }, (_, i) => generate3NPSPattern(root, intervals, i + 1, tuning));
+}
@@ -0,0 +1,259 @@
+/**
+ * Triad Explorer
+ *
+ * Generates the three-note triads of a chord on every set of three adjacent strings:
+ * - Major, minor, diminished and augmented triads
+ * - Root position, first and second inversion in close position
+ * - Every position up the neck (the same inversion repeats an octave higher)
+ *
+ * Each triad is linked to the CAGED shape it belongs to (CAGED_SHAPES + transposeShape),
+ * so the small shapes can be found inside the big chord forms.
+ * Results are EnhancedChordVoicing objects, so they can be drawn with ChordDiagram.
+ */
+
+import { getChordNotes, analyzeChordVoicing, STANDARD_TUNING, INVERSION_NAMES } from './musicTheory';
+import { calculateDifficulty, EnhancedChordVoicing } from './cagedSystemEnhanced';
+import { voicingToChordPosition } from './voicingGenerator';
+import { transposeShape } from './cagedShapes';
+import { CAGEDShapeName, CAGED_ORDER } from './cagedPositions';
+import { stackVoicesOnStrings } from './stringSetVoicings';
+
+export type TriadQuality = 'major' | 'minor' | 'dim' | 'aug';
+
+export const TRIAD_QUALITIES: TriadQuality[] = ['major', 'minor', 'dim', 'aug'];
+
+/**
+ * Guitar string numbers (1 = high E) of the adjacent string sets, low to high
+ */
+export const TRIAD_STRING_SETS: Record<string, number[]> = {
+  '4-6': [6, 5, 4],
+  '3-5': [5, 4, 3],
+  '2-4': [4, 3, 2],
+  '1-3': [3, 2, 1]
+};
+
+/**
+ * A close-position triad on three adjacent strings
+ */
+export interface TriadVoicing extends EnhancedChordVoicing {
+  triadQuality: TriadQuality;
+  stringSet: string;        // e.g. '2-4'
+  voiceOrder: string[];     // Chord tones low to high (e.g. ['3', '5', 'R'])
+  inversion: number;        // 0 = root, 1 = 3rd, 2 = 5th in the bass
+  absoluteFrets: number[];  // Absolute frets [Low E ... High E] (-1 = not played)
+  inCAGEDShape: boolean;    // true if all three notes are part of the CAGED chord shape
+}
+
+/**
+ * Options for the triad generator
+ */
+export interface TriadOptions {
+  tuning?: string[];     // Open string notes, low to high (default: standard)
+  minFret?: number;      // Lowest fret (default: 0)
+  maxFret?: number;      // Highest fret (default: 15)
+  maxFretSpan?: number;  // Frets the hand may cover (default: 5)
+  stringSets?: string[]; // String sets to include (default: all, see TRIAD_STRING_SETS)
+}
+
+// Chord quality passed to getChordNotes for each triad quality
+const CHORD_QUALITY: Record<TriadQuality, string> = {
+  major: '',
+  minor: 'm',
+  dim: 'dim',
+  aug: 'aug'
+};
+
+// Chord tone labels (R, 3rd, 5th) for each triad quality
+const TONE_LABELS: Record<TriadQuality, string[]> = {
+  major: ['R', '3', '5'],
+  minor: ['R', 'b3', '5'],
+  dim: ['R', 'b3', 'b5'],
+  aug: ['R', '3', '#5']
+};
+
+/**
+ * Maps an app chord quality to a triad quality
+ *
+ * @param quality Chord quality (app convention, e.g. '', 'm', 'dim')
+ * @returns Triad quality or null if the chord is not a plain triad
+ *
+ * @example
+ * toTriadQuality('') => 'major'
+ * toTriadQuality('dim') => 'dim'
+ * toTriadQuality('7') => null
+ */
+export function toTriadQuality(quality: string): TriadQuality | null {
+  const mapping: Record<string, TriadQuality> = {
+    '': 'major',
+    'major': 'major',
+    'm': 'minor',
+    'minor': 'minor',
+    'dim': 'dim',
+    'aug': 'aug',
+    '+': 'aug'
+  };
+
+  return mapping[quality] ?? null;
+}
+
+/**
+ * Generates all triads of a chord on the adjacent string sets
+ *
+ * @param root Root note (e.g., 'C', 'Bb')
+ * @param quality Triad quality
+ * @param options Tuning, fret range and string sets
+ * @returns Triads ordered by string set (low strings first), then up the neck
+ *
+ * @example
+ * generateTriads('C', 'major', { stringSets: ['1-3'] }).slice(0, 3)
+ * // => frets [.., .., .., 0, 1, 0] (second inversion, C shape), [.., .., .., 5, 5, 3] (root position, A shape),
+ * //    [.., .., .., 9, 8, 8] (first inversion, E shape)
+ */
+export function generateTriads(
+  root: string,
+  quality: TriadQuality,
+  options: TriadOptions = {}
+): TriadVoicing[] {
+  const { stringSets = Object.keys(TRIAD_STRING_SETS) } = options;
+  const chordNotes = getChordNotes(root, CHORD_QUALITY[quality]);
+
+  if (chordNotes.length !== 3) {
+    console.warn(`⚠️ No triad notes found for ${root} ${quality}`);
+    return [];
+  }
+
+  return Object.entries(TRIAD_STRING_SETS)
+    .filter(([stringSet]) => stringSets.includes(stringSet))
+    .flatMap(([stringSet, strings]) => {
+      const triads = [0, 1, 2].flatMap(inversion => {
+        const order = [0, 1, 2].map(i => (i + inversion) % 3);
+        return buildTriads(root, quality, chordNotes, stringSet, strings, order, options);
+      });
+
+      return triads.sort((a, b) => lowestFret(a) - lowestFret(b) || a.inversion - b.inversion);
+    });
+}
+
+/**
+ * Finds the CAGED shape a triad belongs to
+ *
+ * A triad belongs to a shape if its three frets are part of the transposed
+ * CAGED chord shape (same octave or an octave higher/lower). Triads that are
+ * not part of any template (some dim/aug shapes leave strings out) get the
+ * shape whose fret window is closest.
+ *
+ * @param root Root note of the chord
+ * @param quality Triad quality
+ * @param frets Absolute frets of the triad [Low E ... High E]
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns CAGED shape and whether the triad is part of the chord shape
+ *
+ * @example
+ * getTriadCAGEDShape('C', 'major', [-1, -1, -1, 5, 5, 3])
+ * // => { shape: 'A', inShape: true } (C major A shape: [-1, 3, 5, 5, 5, 3])
+ */
+export function getTriadCAGEDShape(
+  root: string,
+  quality: TriadQuality,
+  frets: number[],
+  tuning: string[] = STANDARD_TUNING
+): { shape: CAGEDShapeName; inShape: boolean } {
+  const played = frets.map((fret, stringIndex) => ({ fret, stringIndex })).filter(p => p.fret >= 0);
+  const center = played.reduce((sum, p) => sum + p.fret, 0) / Math.max(played.length, 1);
+
+  let best: { shape: CAGEDShapeName; distance: number; centerDistance: number } | null = null;
+
+  for (const shape of CAGED_ORDER) {
+    const shapeFrets = transposeShape(root, shape, quality, { validate: false, tuning });
+
+    // Exact match: every triad note lies on the shape (octave apart is the same shape)
+    const offsets = played.map(p => (shapeFrets[p.stringIndex] < 0 ? NaN : p.fret - shapeFrets[p.stringIndex]));
+    if (offsets.every(offset => offset === offsets[0] && offset % 12 === 0)) {
+      return { shape, inShape: true };
+    }
+
+    // Otherwise: how far the triad lies outside the shape window (moved to the nearest octave)
+    const shapePlayed = shapeFrets.filter(fret => fret >= 0);
+    const low = Math.min(...shapePlayed);
+    const high = Math.max(...shapePlayed);
+    const octave = Math.round((center - (low + high) / 2) / 12) * 12;
+
+    const distance = played.reduce(
+      (sum, p) => sum + Math.max(0, low + octave - 1 - p.fret, p.fret - (high + octave + 1)),
+      0
+    );
+    const centerDistance = Math.abs(center - (low + high) / 2 - octave);
+
+    if (!best || distance < best.distance || (distance === best.distance && centerDistance < best.centerDistance)) {
+      best = { shape, distance, centerDistance };
+    }
+  }
+
+  return { shape: best!.shape, inShape: false };
+}
+
+/**
+ * Builds every position of one voice order on a string set, up to maxFret (see stackVoicesOnStrings)
+ * The voices stay in close position: all three notes within an octave.
+ */
+function buildTriads(
+  root: string,
+  quality: TriadQuality,
+  chordNotes: string[],
+  stringSet: string,
+  strings: number[],
+  order: number[],
+  options: TriadOptions
+): TriadVoicing[] {
+  const { tuning = STANDARD_TUNING, minFret = 0, maxFret = 15, maxFretSpan = 5 } = options;
+
+  return stackVoicesOnStrings(strings, order.map(i => chordNotes[i]), { tuning, minFret, maxFret, maxFretSpan })
+    .map(frets => toTriadVoicing(root, quality, chordNotes, frets, stringSet, order, tuning));
+}
+
+/**
+ * Converts absolute frets into a TriadVoicing
+ */
+function toTriadVoicing(
+  root: string,
+  quality: TriadQuality,
+  chordNotes: string[],
+  frets: number[],
+  stringSet: string,
+  order: number[],
+  tuning: string[]
+): TriadVoicing {
+  const position = voicingToChordPosition(frets);
+  const voiceOrder = order.map(i => TONE_LABELS[quality][i]);
+  const inversion = order[0];
+  const analysis = analyzeChordVoicing(frets, chordNotes, tuning);
+  const { shape, inShape } = getTriadCAGEDShape(root, quality, frets, tuning);
+
+  return {
+    name: `${root}${CHORD_QUALITY[quality]} triad (${INVERSION_NAMES[inversion]}, strings ${stringSet})`,
+    frets: position.frets,
+    baseFret: position.baseFret,
+    fingers: position.fingers,
+    position: position.baseFret,
+    cagedShape: shape,
+    difficulty: calculateDifficulty(position, position.baseFret),
+    barrePositions: position.barres,
+    midi: [],
+    validated: analysis.isValid,
+    theoreticalNotes: chordNotes,
+    analysis,
+    triadQuality: quality,
+    stringSet,
+    voiceOrder,
+    inversion,
+    absoluteFrets: frets,
+    inCAGEDShape: inShape
+  };
+}
+
+/**
+ * Lowest played fret of a triad (for sorting up the neck)
+ */
+function lowestFret(triad: TriadVoicing): number {
+  return Math.min(...triad.absoluteFrets.filter(fret => fret >= 0));
+}
@@ -0,0 +1,207 @@
+/**
+ * Guitar Tuning Registry
+ *
+ * Provides:
+ * - Preset tunings (Standard, Drop D, DADGAD, Open G, Half-step down)
+ * - Registration of custom tunings
+ * - Conversion of standard-tuning fret patterns to any other tuning
+ *
+ * All tunings are stored low to high (6th string first), matching the
+ * fret array format used throughout the app: [Low E, A, D, G, B, High E]
+ */
+
+import { Note } from 'tonal';
+import { STANDARD_TUNING, isValidNote } from './musicTheory';
+
+/**
+ * A named guitar tuning
+ */
+export interface Tuning {
+  id: string;
+  name: string;
+  notes: string[]; // Open string notes, low to high
+}
+
+/**
+ * Built-in tuning presets
+ */
+export const TUNING_PRESETS: Record<
+  'standard' | 'dropD' | 'dadgad' | 'openG' | 'halfStepDown',
+  Tuning
+> = {
+  standard: {
+    id: 'standard',
+    name: 'Standard (EADGBE)',
+    notes: STANDARD_TUNING
+  },
+  dropD: {
+    id: 'dropD',
+    name: 'Drop D (DADGBE)',
+    notes: ['D', 'A', 'D', 'G', 'B', 'E']
+  },
+  dadgad: {
+    id: 'dadgad',
+    name: 'DADGAD',
+    notes: ['D', 'A', 'D', 'G', 'A', 'D']
+  },
+  openG: {
+    id: 'openG',
+    name: 'Open G (DGDGBD)',
+    notes: ['D', 'G', 'D', 'G', 'B', 'D']
+  },
+  halfStepDown: {
+    id: 'halfStepDown',
+    name: 'Half-step down (Eb Ab Db Gb Bb Eb)',
+    notes: ['Eb', 'Ab', 'Db', 'Gb', 'Bb', 'Eb']
+  }
+};
+
+// Custom tunings registered at runtime (keyed by id)
+const customTunings = new Map<string, Tuning>();
+
+// Open string MIDI notes in standard tuning (E2 A2 D3 G3 B3 E4)
+const STANDARD_OPEN_MIDI = [40, 45, 50, 55, 59, 64];
+
+/**
+ * Registers a custom tuning so it can be selected like a preset
+ *
+ * @param name Display name of the tuning
+ * @param notes Six open string notes, low to high
+ * @returns The registered tuning
+ *
+ * @example
+ * registerCustomTuning('Open D', ['D', 'A', 'D', 'F#', 'A', 'D'])
+ * // => { id: 'custom-open-d', name: 'Open D', notes: [...] }
+ */
+export function registerCustomTuning(name: string, notes: string[]): Tuning {
+  if (notes.length !== 6) {
+    throw new Error(`Tuning must have 6 strings, got ${notes.length}`);
+  }
+
+  const invalidNote = notes.find(note => !isValidNote(note));
+  if (invalidNote !== undefined) {
+    throw new Error(`Invalid note in tuning: ${invalidNote}`);
+  }
+
+  const id = `custom-${name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+  const tuning: Tuning = {
+    id,
+    name: name.trim(),
+    notes: notes.map(note => Note.pitchClass(note))
+  };
+
+  customTunings.set(id, tuning);
+  return tuning;
+}
+
+/**
+ * Gets a tuning by id (presets first, then custom tunings)
+ * Falls back to standard tuning for unknown ids
+ *
+ * @param id Tuning id (e.g., 'dropD', 'custom-open-d')
+ * @returns The matching tuning
+ */
+export function getTuning(id: string): Tuning {
+  const preset = (TUNING_PRESETS as Record<string, Tuning>)[id];
+  return preset || customTunings.get(id) || TUNING_PRESETS.standard;
+}
+
+/**
+ * Gets all selectable tunings (presets followed by custom tunings)
+ *
+ * @returns Array of tunings
+ */
+export function getAvailableTunings(): Tuning[] {
+  return [...Object.values(TUNING_PRESETS), ...customTunings.values()];
+}
+
+/**
+ * Checks whether a tuning is standard tuning (chromatic comparison)
+ *
+ * @param tuning Open string notes, low to high
+ * @returns true if every string matches standard tuning
+ */
+export function isStandardTuning(tuning: string[]): boolean {
+  return tuning.length === STANDARD_TUNING.length &&
+    tuning.every((note, i) => Note.chroma(note) === Note.chroma(STANDARD_TUNING[i]));
+}
+
+/**
+ * Calculates how many frets each string is shifted compared to standard tuning
+ * A string tuned down needs a higher fret for the same pitch (positive offset)
+ *
+ * @param tuning Open string notes, low to high
+ * @returns Fret offset per string (range -5 to +6)
+ *
+ * @example
+ * getTuningOffsets(['D', 'A', 'D', 'G', 'B', 'E']) => [2, 0, 0, 0, 0, 0]
+ * getTuningOffsets(['Eb', 'Ab', 'Db', 'Gb', 'Bb', 'Eb']) => [1, 1, 1, 1, 1, 1]
+ */
+export function getTuningOffsets(tuning: string[]): number[] {
+  return STANDARD_TUNING.map((standardNote, i) => {
+    const standardChroma = Note.chroma(standardNote) ?? 0;
+    const tunedChroma = Note.chroma(tuning[i] ?? standardNote) ?? standardChroma;
+    const offset = (standardChroma - tunedChroma + 12) % 12;
+    return offset > 6 ? offset - 12 : offset;
+  });
+}
+
+/**
+ * MIDI notes of the open strings in a tuning
+ * Each string is tuned to the nearest pitch of standard tuning (see getTuningOffsets).
+ *
+ * @param tuning Open string notes, low to high
+ * @returns MIDI note per string, low to high
+ *
+ * @example
+ * getOpenStringMidi(STANDARD_TUNING) => [40, 45, 50, 55, 59, 64]
+ * getOpenStringMidi(['D', 'A', 'D', 'G', 'B', 'E']) => [38, 45, 50, 55, 59, 64]
+ */
+export function getOpenStringMidi(tuning: string[]): number[] {
+  const offsets = getTuningOffsets(tuning);
+  return STANDARD_OPEN_MIDI.map((midi, i) => midi - offsets[i]);
+}
+
+/**
+ * Converts absolute frets played in standard tuning to the frets that
+ * produce the same pitches in another tuning
+ * If a string tuned up would need a fret below the nut, the whole shape is
+ * played an octave higher (same voicing, every string 12 frets up).
+ *
+ * @param frets Absolute fret positions in standard tuning (-1 = muted)
+ * @param tuning Target tuning, low to high
+ * @returns Absolute fret positions for the target tuning
+ *
+ * @example
+ * // Open E major in Drop D: low string needs fret 2 to sound E
+ * retuneFrets([0, 2, 2, 1, 0, 0], ['D', 'A', 'D', 'G', 'B', 'E']) => [2, 2, 2, 1, 0, 0]
+ * // Open A major in Open E: the A string tuned up to B would need fret -2
+ * retuneFrets([-1, 0, 2, 2, 2, 0], ['E', 'B', 'E', 'G#', 'B', 'E']) => [-1, 10, 12, 13, 14, 12]
+ */
+export function retuneFrets(frets: number[], tuning: string[]): number[] {
+  const offsets = getTuningOffsets(tuning);
+  const belowNut = frets.some((fret, i) => fret !== -1 && fret + offsets[i] < 0);
+  const octave = belowNut ? 12 : 0;
+  return frets.map((fret, i) => (fret === -1 ? -1 : fret + offsets[i] + octave));
+}
+
+/**
+ * Converts absolute frets played in any tuning to their standard-tuning
+ * equivalent (used for shape analysis, which is defined in standard tuning)
+ * Strings that cannot be reached in standard tuning are treated as muted
+ *
+ * @param frets Absolute fret positions in the given tuning (-1 = muted)
+ * @param tuning Tuning the frets are played in, low to high
+ * @returns Absolute fret positions in standard tuning
+ *
+ * @example
+ * toStandardTuningFrets([2, 2, 2, 1, 0, 0], ['D', 'A', 'D', 'G', 'B', 'E']) => [0, 2, 2, 1, 0, 0]
+ */
+export function toStandardTuningFrets(frets: number[], tuning: string[]): number[] {
+  const offsets = getTuningOffsets(tuning);
+  return frets.map((fret, i) => {
+    if (fret === -1) return -1;
+    const standardFret = fret - offsets[i];
+    return standardFret < 0 ? -1 : standardFret;
+  });
+}
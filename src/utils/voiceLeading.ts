@@ -0,0 +1,274 @@
+/**
+ * Voice Leading Optimizer
+ *
+ * Picks one voicing per chord of a progression so the hand moves as little
+ * as possible and common tones are kept:
+ * - Candidates from chords-db (getChordVoicingsFromDB) and the CAGED generator
+ * - Every candidate validated with analyzeChordVoicing (slash bass, optional 5th)
+ * - Dynamic programming (Viterbi) over all candidates: lowest total cost wins
+ *
+ * Cost of a step = finger movement - common tone bonus + playability of the new voicing.
+ */
+
+import { getChordVoicingsFromDB, toAbsoluteFrets, ChordPosition } from './chordDatabase';
+import { getValidatedCAGEDVoicings } from './cagedSystemEnhanced';
+import { getChordNotes, analyzeChordVoicing, parseSlashQuality, STANDARD_TUNING } from './musicTheory';
+import { generateVoicings, voicingToChordPosition, getOptionalTones } from './voicingGenerator';
+import { getOpenStringMidi } from './tunings';
+
+/**
+ * A validated voicing a chord can be played with
+ */
+export interface VoicingCandidate {
+  frets: number[];          // Absolute frets [Low E ... High E], -1 = muted
+  position: ChordPosition;  // Same voicing with relative frets and baseFret (for diagrams)
+  source: 'chords-db' | 'caged' | 'generated';
+}
+
+/**
+ * A chord of a progression with the voicing chosen by the optimizer
+ */
+export interface VoicedChord {
+  note: string;
+  quality: string;
+  frets: number[] | null;          // null if no valid voicing was found
+  position: ChordPosition | null;
+  movement: number;                // Finger movement from the previous chord (0 for the first)
+  commonTones: number;             // Pitches shared with the previous chord
+}
+
+/**
+ * Options for the voice leading optimizer
+ */
+export interface VoiceLeadingOptions {
+  tuning?: string[];        // Open string notes, low to high (default: standard)
+  maxCandidates?: number;   // Candidates per chord, easiest first (default: 16)
+}
+
+// Cost weights: common tones are worth about two frets of movement
+const COMMON_TONE_BONUS = 2;
+const POSITION_SHIFT_WEIGHT = 2;
+
+/**
+ * Gets all validated voicings of a chord from chords-db and the CAGED generator
+ * Slash chords without a chords-db entry fall back to the voicing generator.
+ *
+ * @param note Root note
+ * @param quality Chord quality (app convention, slash chords allowed)
+ * @param options Tuning and maximum number of candidates
+ * @returns Unique candidates, easiest first
+ *
+ * @example
+ * getVoicingCandidates('C', '').map(c => c.frets)
+ * // => [[-1, 3, 2, 0, 1, 0], [3, 3, 5, 5, 5, 3], [-1, 3, 5, 5, 5, 3], ...]
+ */
+export function getVoicingCandidates(
+  note: string,
+  quality: string,
+  options: VoiceLeadingOptions = {}
+): VoicingCandidate[] {
+  const { tuning = STANDARD_TUNING, maxCandidates = 16 } = options;
+
+  const theoreticalNotes = getChordNotes(note, quality);
+  if (theoreticalNotes.length === 0) {
+    console.warn(`⚠️ Unknown chord: ${note}${quality} - no voicing candidates`);
+    return [];
+  }
+
+  const { bass } = parseSlashQuality(quality);
+  const analysisOptions = {
+    optionalNotes: getOptionalTones(note, theoreticalNotes),
+    bassNote: bass ?? undefined
+  };
+
+  const candidates: VoicingCandidate[] = [
+    ...getChordVoicingsFromDB(note, quality, tuning).map(position => ({
+      frets: toAbsoluteFrets(position),
+      position,
+      source: 'chords-db' as const
+    })),
+    ...getValidatedCAGEDVoicings(note, quality, { tuning, maxVoicings: maxCandidates }).map(voicing => {
+      const position: ChordPosition = {
+        frets: voicing.frets,
+        fingers: voicing.fingers ?? [],
+        barres: voicing.barrePositions ?? [],
+        baseFret: voicing.baseFret,
+        midi: voicing.midi ?? []
+      };
+      return { frets: toAbsoluteFrets(position), position, source: 'caged' as const };
+    })
+  ];
+
+  if (candidates.length === 0 && bass) {
+    generateVoicings(note, quality, { tuning, maxResults: maxCandidates }).forEach(voicing => {
+      candidates.push({
+        frets: voicing.frets,
+        position: voicingToChordPosition(voicing.frets),
+        source: 'generated'
+      });
+    });
+  }
+
+  // Keep valid voicings only, each fingering once
+  const seen = new Set<string>();
+  const valid = candidates.filter(candidate => {
+    const key = candidate.frets.join(',');
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return analyzeChordVoicing(candidate.frets, theoreticalNotes, tuning, analysisOptions).isValid;
+  });
+
+  return valid
+    .sort((a, b) => getPlayabilityCost(a.frets) - getPlayabilityCost(b.frets))
+    .slice(0, maxCandidates);
+}
+
+/**
+ * Measures the voice leading between two voicings
+ *
+ * @param from Absolute frets of the previous chord
+ * @param to Absolute frets of the next chord
+ * @param tuning Guitar tuning, low to high (default: standard)
+ * @returns Finger movement (frets) and number of common tones (shared pitches)
+ *
+ * @example
+ * measureVoiceLeading([-1, 3, 2, 0, 1, 0], [-1, 0, 2, 2, 1, 0])
+ * // => { movement: 0, commonTones: 3 } (C to Am: E3, C4 and E4 stay)
+ */
+export function measureVoiceLeading(
+  from: number[],
+  to: number[],
+  tuning: string[] = STANDARD_TUNING
+): { movement: number; commonTones: number } {
+  // Fingers that move on strings fretted in both chords
+  const fingerMovement = from.reduce((sum, fret, stringIndex) => {
+    const next = to[stringIndex];
+    return fret > 0 && next > 0 ? sum + Math.abs(fret - next) : sum;
+  }, 0);
+
+  // Hand position shift along the neck
+  const positionShift = Math.abs(getHandPosition(from) - getHandPosition(to));
+
+  const fromPitches = new Set(toMidiPitches(from, tuning));
+  const commonTones = new Set(toMidiPitches(to, tuning).filter(pitch => fromPitches.has(pitch))).size;
+
+  return { movement: fingerMovement + positionShift * POSITION_SHIFT_WEIGHT, commonTones };
+}
+
+/**
+ * Voices a chord progression with the smoothest voice leading
+ *
+ * Dynamic programming over all candidates: for every candidate of a chord the
+ * cheapest path from the first chord is kept, then the cheapest path to the
+ * last chord is traced back. Chords without a valid voicing break the chain.
+ *
+ * @param chords Chords of the progression (root note and quality)
+ * @param options Tuning and maximum number of candidates per chord
+ * @returns One voiced chord per input chord
+ *
+ * @example
+ * voiceProgression([{ note: 'C', quality: '' }, { note: 'A', quality: 'm' }, { note: 'F', quality: '' }])
+ * // => [{ frets: [-1, 3, 2, 0, 1, 0] }, { frets: [-1, 0, 2, 2, 1, 0] }, { frets: [1, 3, 3, 2, 1, 1] }]
+ */
+export function voiceProgression(
+  chords: Array<{ note: string; quality: string }>,
+  options: VoiceLeadingOptions = {}
+): VoicedChord[] {
+  const { tuning = STANDARD_TUNING } = options;
+
+  const candidates = chords.map(chord => getVoicingCandidates(chord.note, chord.quality, options));
+
+  // costs[i][j]: cheapest total cost ending in candidate j of chord i, previous[i][j]: its predecessor
+  const costs: number[][] = [];
+  const previous: number[][] = [];
+
+  candidates.forEach((chordCandidates, i) => {
+    const prevCandidates = i > 0 ? candidates[i - 1] : [];
+
+    costs[i] = [];
+    previous[i] = [];
+
+    chordCandidates.forEach((candidate, j) => {
+      const ownCost = getPlayabilityCost(candidate.frets);
+
+      if (prevCandidates.length === 0) {
+        costs[i][j] = ownCost;
+        previous[i][j] = -1;
+        return;
+      }
+
+      let best = Infinity;
+      let bestIndex = -1;
+      prevCandidates.forEach((prevCandidate, k) => {
+        const { movement, commonTones } = measureVoiceLeading(prevCandidate.frets, candidate.frets, tuning);
+        const cost = costs[i - 1][k] + movement - commonTones * COMMON_TONE_BONUS;
+        if (cost < best) {
+          best = cost;
+          bestIndex = k;
+        }
+      });
+
+      costs[i][j] = best + ownCost;
+      previous[i][j] = bestIndex;
+    });
+  });
+
+  // Trace back from the cheapest candidate of each chain end
+  const chosen: number[] = new Array(chords.length).fill(-1);
+  for (let i = chords.length - 1; i >= 0; i--) {
+    if (candidates[i].length === 0) continue;
+
+    const isChainEnd = i === chords.length - 1 || chosen[i + 1] === -1;
+    chosen[i] = isChainEnd
+      ? costs[i].indexOf(Math.min(...costs[i]))
+      : previous[i + 1][chosen[i + 1]];
+  }
+
+  return chords.map((chord, i) => {
+    const candidate = chosen[i] >= 0 ? candidates[i][chosen[i]] : null;
+    const prevCandidate = i > 0 && chosen[i - 1] >= 0 ? candidates[i - 1][chosen[i - 1]] : null;
+    const leading = candidate && prevCandidate
+      ? measureVoiceLeading(prevCandidate.frets, candidate.frets, tuning)
+      : { movement: 0, commonTones: 0 };
+
+    return {
+      note: chord.note,
+      quality: chord.quality,
+      frets: candidate?.frets ?? null,
+      position: candidate?.position ?? null,
+      ...leading
+    };
+  });
+}
+
+/**
+ * Cost of playing a voicing on its own (same preferences as findBestVoicing:
+ * open strings, low positions, small stretches)
+ */
+function getPlayabilityCost(frets: number[]): number {
+  const fretted = frets.filter(fret => fret > 0);
+  if (fretted.length === 0) return 0;
+
+  const span = Math.max(...fretted) - Math.min(...fretted);
+  const averageFret = fretted.reduce((sum, fret) => sum + fret, 0) / fretted.length;
+  const hasOpenStrings = frets.some(fret => fret === 0);
+
+  return span + averageFret * 0.2 + (hasOpenStrings ? 0 : 2);
+}
+
+/**
+ * Fret the index finger is at (lowest fretted note, 0 for open chords)
+ */
+function getHandPosition(frets: number[]): number {
+  const fretted = frets.filter(fret => fret > 0);
+  if (fretted.length === 0 || frets.some(fret => fret === 0)) return 0;
+  return Math.min(...fretted);
+}
+
+/**
+ * Sounding MIDI pitches of a voicing
+ */
+function toMidiPitches(frets: number[], tuning: string[]): number[] {
+  const openMidi = getOpenStringMidi(tuning);
+  return frets.flatMap((fret, i) => (fret < 0 ? [] : [openMidi[i] + fret]));
+}
@@ -0,0 +1,273 @@
+/**
+ * Algorithmic Chord Voicing Generator
+ *
+ * Searches the fretboard for playable fingerings of any chord quality:
+ * - Chord tones from Tonal.js (getChordNotes), any tuning
+ * - Rules: bass note, optional (omitted) 5th, required tones
+ * - Playability limits: fret span, number of fingers (with index-finger barre)
+ * - Results ranked by playability (easiest first)
+ *
+ * Used for 9ths, 11ths, 13ths and altered chords that chords-db lacks.
+ */
+
+import { Note, Interval } from 'tonal';
+import { getChordNotes, parseSlashQuality, STANDARD_TUNING } from './musicTheory';
+import { ChordPosition } from './chordDatabase';
+
+/**
+ * Options for the voicing search
+ */
+export interface VoicingSearchOptions {
+  tuning?: string[];        // Open string notes, low to high (default: standard)
+  maxFretSpan?: number;     // Frets covered by the fretting hand (default: 4)
+  minFret?: number;         // Lowest fret of the search window (default: 0)
+  maxFret?: number;         // Highest fret of the search window (default: 15)
+  bassNote?: string | null; // Required lowest note (default: slash bass or root, null = any chord tone)
+  allowOmit5th?: boolean;   // Perfect 5th may be left out (default: true)
+  requiredTones?: string[]; // Tones that must sound (default: derived from the chord)
+  minStrings?: number;      // Minimum number of played strings (default: 3 for triads, 4 otherwise)
+  maxResults?: number;      // Maximum number of voicings returned (default: 20)
+}
+
+/**
+ * A generated voicing
+ */
+export interface GeneratedVoicing {
+  frets: number[];     // Absolute frets [Low E, A, D, G, B, High E], -1 = muted
+  notes: string[];     // Sounding notes, low to high (chord spelling)
+  bassNote: string;
+  omittedTones: string[];
+  fretSpan: number;    // Frets covered by fretted notes (0 = only open strings)
+  difficulty: number;  // Lower is easier
+}
+
+/**
+ * Gets the tones a voicing must contain
+ * Optional: the perfect 5th (if allowed) and natural 9ths/11ths below a higher extension
+ *
+ * @param root Root note
+ * @param chordNotes Chord notes from getChordNotes
+ * @param allowOmit5th Whether the perfect 5th may be omitted
+ * @returns Required chord notes
+ *
+ * @example
+ * getRequiredTones('C', ['C', 'E', 'G', 'Bb', 'D', 'A'], true) => ['C', 'E', 'Bb', 'A']
+ */
+export function getRequiredTones(root: string, chordNotes: string[], allowOmit5th: boolean = true): string[] {
+  const intervals = chordNotes.map(note => Interval.get(Note.distance(root, note)));
+  const highestExtension = Math.max(...intervals.map(i => (i.num === 2 ? 9 : i.num === 4 ? 11 : i.num === 6 ? 13 : i.num)));
+
+  return chordNotes.filter((_, i) => {
+    const interval = intervals[i];
+    if (interval.name === '5P') return !allowOmit5th;
+
+    // Natural 9th/11th can be left out when a higher extension defines the chord
+    const extensionNumber = interval.num === 2 ? 9 : interval.num === 4 ? 11 : null;
+    const isNatural = interval.alt === 0;
+    if (extensionNumber !== null && isNatural && extensionNumber < highestExtension && highestExtension > 7) {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/**
+ * Gets the chord tones a voicing may leave out (the complement of getRequiredTones)
+ * By default only chords with more than three notes may omit the perfect 5th.
+ *
+ * @param root Root note
+ * @param chordNotes Chord notes from getChordNotes
+ * @param allowOmit5th Whether the perfect 5th may be omitted (default: more than three notes)
+ * @returns Optional chord notes
+ *
+ * @example
+ * getOptionalTones('C', ['C', 'E', 'G', 'B']) => ['G']
+ * getOptionalTones('C', ['C', 'E', 'G']) => []
+ */
+export function getOptionalTones(
+  root: string,
+  chordNotes: string[],
+  allowOmit5th: boolean = chordNotes.length > 3
+): string[] {
+  const requiredTones = getRequiredTones(root, chordNotes, allowOmit5th);
+  return chordNotes.filter(note => !requiredTones.includes(note));
+}
+
+/**
+ * Generates all playable voicings of a chord and ranks them by playability
+ *
+ * @param root Root note (e.g., 'C', 'F#')
+ * @param quality Chord quality (e.g., '13', '7#9', 'm11')
+ * @param options Search options
+ * @returns Voicings sorted by difficulty (easiest first)
+ *
+ * @example
+ * generateVoicings('C', '13', { maxResults: 3 })
+ * // => [{ frets: [8, 0, 8, 7, 8, 0], notes: ['C', 'A', 'Bb', 'D', 'G', 'E'], ... }, ...]
+ *
+ * @example
+ * generateVoicings('D', '/F#', { maxResults: 1 })
+ * // => [{ frets: [2, 0, 0, -1, -1, -1], bassNote: 'F#', ... }]
+ */
+export function generateVoicings(
+  root: string,
+  quality: string,
+  options: VoicingSearchOptions = {}
+): GeneratedVoicing[] {
+  const chordNotes = getChordNotes(root, quality);
+  if (chordNotes.length === 0) {
+    console.warn(`⚠️ Unknown chord: ${root}${quality} - no voicings generated`);
+    return [];
+  }
+
+  const {
+    tuning = STANDARD_TUNING,
+    maxFretSpan = 4,
+    minFret = 0,
+    maxFret = 15,
+    bassNote = parseSlashQuality(quality).bass ?? root,
+    allowOmit5th = true,
+    requiredTones = getRequiredTones(root, chordNotes, allowOmit5th),
+    minStrings = chordNotes.length <= 3 ? 3 : 4,
+    maxResults = 20
+  } = options;
+
+  const chordChromas = new Set(chordNotes.map(note => Note.chroma(note)));
+  const requiredChromas = requiredTones.map(note => Note.chroma(note));
+  const bassChroma = bassNote === null ? null : Note.chroma(bassNote);
+
+  // Chord spelling for each pitch class (e.g. Bb instead of A#)
+  const spellingByChroma = new Map(chordNotes.map(note => [Note.chroma(note), note]));
+
+  const noteChromaAt = (stringIndex: number, fret: number) =>
+    ((Note.chroma(tuning[stringIndex]) ?? 0) + fret) % 12;
+
+  const results = new Map<string, GeneratedVoicing>();
+
+  // Slide a window of maxFretSpan frets along the neck
+  for (let start = Math.max(1, minFret); start <= maxFret; start++) {
+    // Candidate frets per string: muted, open (if chord tone), fretted chord tones in the window
+    const candidates = tuning.map((_, stringIndex) => {
+      const stringFrets: number[] = [-1];
+      if (minFret === 0 && chordChromas.has(noteChromaAt(stringIndex, 0))) stringFrets.push(0);
+      for (let fret = start; fret < start + maxFretSpan && fret <= maxFret; fret++) {
+        if (chordChromas.has(noteChromaAt(stringIndex, fret))) stringFrets.push(fret);
+      }
+      return stringFrets;
+    });
+
+    const combine = (stringIndex: number, frets: number[]) => {
+      if (stringIndex === tuning.length) {
+        const voicing = evaluateVoicing(frets);
+        if (voicing) results.set(frets.join(','), voicing);
+        return;
+      }
+      candidates[stringIndex].forEach(fret => combine(stringIndex + 1, [...frets, fret]));
+    };
+
+    combine(0, []);
+  }
+
+  function evaluateVoicing(frets: number[]): GeneratedVoicing | null {
+    const played = frets.map((fret, i) => ({ fret, i })).filter(s => s.fret >= 0);
+    if (played.length < minStrings) return null;
+
+    const chromas = played.map(s => noteChromaAt(s.i, s.fret));
+
+    // Bass rule: lowest sounding string
+    if (bassChroma !== null && chromas[0] !== bassChroma) return null;
+
+    // Required tones rule
+    if (!requiredChromas.every(chroma => chromas.includes(chroma))) return null;
+
+    // Fretting hand: span and fingers (index finger may barre the lowest fret)
+    const fretted = played.filter(s => s.fret > 0).map(s => s.fret);
+    const lowest = fretted.length > 0 ? Math.min(...fretted) : 0;
+    const highest = fretted.length > 0 ? Math.max(...fretted) : 0;
+    const fretSpan = fretted.length > 0 ? highest - lowest + 1 : 0;
+    if (fretSpan > maxFretSpan) return null;
+
+    // One finger can cover adjacent strings on the same fret (mini-barre)
+    // or all strings on the lowest fret (index-finger barre)
+    const adjacentRuns = played.filter((s, k) =>
+      s.fret > 0 && !(k > 0 && played[k - 1].i === s.i - 1 && played[k - 1].fret === s.fret)
+    ).length;
+    const barreStrings = played.filter(s => s.fret === lowest).map(s => s.i);
+    const openUnderBarre = played.some(s =>
+      s.fret === 0 && s.i > barreStrings[0] && s.i < barreStrings[barreStrings.length - 1]
+    );
+    const indexBarre = openUnderBarre ? Infinity : fretted.filter(f => f !== lowest).length + 1;
+    const fingersNeeded = Math.min(fretted.length, adjacentRuns, indexBarre);
+    if (fingersNeeded > 4) return null;
+    const needsBarre = fingersNeeded < fretted.length;
+
+    // Muted strings between played strings must be damped by another finger
+    const firstPlayed = played[0].i;
+    const lastPlayed = played[played.length - 1].i;
+    const innerMutes = frets.slice(firstPlayed, lastPlayed + 1).filter(f => f === -1).length;
+    if (innerMutes > 1) return null;
+
+    const omittedTones = chordNotes.filter(note => !chromas.includes(Note.chroma(note)));
+
+    // Open strings help in open position, but are awkward next to notes high up the neck
+    const openStrings = played.filter(s => s.fret === 0).length;
+    const openStringScore = highest <= 4 ? -0.5 * openStrings : 1.5 * openStrings;
+
+    const difficulty =
+      fretSpan * 1.5 +
+      fingersNeeded +
+      (needsBarre ? 2 : 0) +
+      innerMutes * 3 +
+      omittedTones.length * 1.5 +
+      lowest * 0.2 +
+      openStringScore -
+      played.length;
+
+    return {
+      frets,
+      notes: chromas.map(chroma => spellingByChroma.get(chroma)!),
+      bassNote: spellingByChroma.get(chromas[0])!,
+      omittedTones,
+      fretSpan,
+      difficulty: Math.round(difficulty * 10) / 10
+    };
+  }
+
+  return [...results.values()]
+    .sort((a, b) => a.difficulty - b.difficulty || Math.min(...a.frets.filter(f => f > 0)) - Math.min(...b.frets.filter(f => f > 0)))
+    .slice(0, maxResults);
+}
+
+/**
+ * Converts a generated voicing to the chords-db position format
+ * (frets relative to baseFret once the chord leaves the first four frets)
+ *
+ * @param frets Absolute frets of the voicing
+ * @returns Chord position with relative frets and baseFret
+ *
+ * @example
+ * voicingToChordPosition([-1, 8, 7, 8, 8, 10]) => { frets: [-1, 2, 1, 2, 2, 4], baseFret: 7, ... }
+ */
+export function voicingToChordPosition(frets: number[]): ChordPosition {
+  const fretted = frets.filter(f => f > 0);
+  const maxFret = fretted.length > 0 ? Math.max(...fretted) : 0;
+  const baseFret = maxFret > 4 ? Math.min(...fretted) : 1;
+
+  const relativeFrets = frets.map(fret => (fret <= 0 || baseFret === 1 ? fret : fret - baseFret + 1));
+
+  // Index-finger barre when more than four strings are fretted
+  const lowestRelative = Math.min(...relativeFrets.filter(f => f > 0));
+  const barres = fretted.length > 4 && relativeFrets.filter(f => f === lowestRelative).length > 1
+    ? [lowestRelative]
+    : [];
+
+  return {
+    frets: relativeFrets,
+    fingers: [],
+    barres,
+    baseFret,
+    midi: []
+  };
+}
+
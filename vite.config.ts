@@ -1,9 +1,67 @@
-import { defineConfig } from 'vite'
+import { defineConfig, Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+// Same path as ALPHATAB_ASSET_PATH in src/utils/alphaTabAssets.ts (not imported:
+// the config is type-checked as its own project, see tsconfig.node.json)
+const ALPHATAB_ASSET_PATH = '/alphatab/'
+
+const alphaTabDist = fileURLToPath(new URL('./node_modules/@coderline/alphatab/dist/', import.meta.url))
+
+// Files of the alphaTab dist folder served at ALPHATAB_ASSET_PATH
+const alphaTabAssetFiles = [
+  ...fs.readdirSync(path.join(alphaTabDist, 'font')).map(file => `font/${file}`),
+  'soundfont/sonivox.sf2'
+]
+
+const contentTypes: Record<string, string> = {
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.otf': 'font/otf',
+  '.eot': 'application/vnd.ms-fontobject',
+  '.svg': 'image/svg+xml',
+  '.txt': 'text/plain',
+  '.sf2': 'application/octet-stream'
+}
+
+/**
+ * Serves the installed alphaTab font and soundfont locally (dev server) and
+ * copies them into the build, so playback never depends on a CDN
+ */
+function alphaTabAssets(): Plugin {
+  return {
+    name: 'alphatab-assets',
+    configureServer(server) {
+      server.middlewares.use(ALPHATAB_ASSET_PATH, (req, res, next) => {
+        const file = decodeURIComponent((req.url ?? '').split('?')[0]).replace(/^\//, '')
+        if (!alphaTabAssetFiles.includes(file)) return next()
+
+        res.setHeader('Content-Type', contentTypes[path.extname(file)] ?? 'application/octet-stream')
+        if (req.method === 'HEAD') {
+          res.setHeader('Content-Length', fs.statSync(path.join(alphaTabDist, file)).size)
+          return res.end()
+        }
+        fs.createReadStream(path.join(alphaTabDist, file)).pipe(res)
+      })
+    },
+    generateBundle() {
+      alphaTabAssetFiles.forEach(file => {
+        this.emitFile({
+          type: 'asset',
+          fileName: `${ALPHATAB_ASSET_PATH.replace(/^\//, '')}${file}`,
+          source: fs.readFileSync(path.join(alphaTabDist, file))
+        })
+      })
+    }
+  }
+}
 
 export default defineConfig({
   plugins: [
-    react()
+    react(),
+    alphaTabAssets()
   ],
   optimizeDeps: {
     exclude: ['@coderline/alphatab']